@@ -0,0 +1,128 @@
+import { MessageRelaxed, SendMode, beginCell, contractAddress, internal, loadMessageRelaxed, loadOutList, storeMessageRelaxed, toNano } from '@ton/core';
+import { keyPairFromSeed, sign, signVerify } from '@ton/crypto';
+import {
+  HIGHLOAD_V3_CODE,
+  HIGHLOAD_V3_DEFAULT_SUBWALLET,
+  HIGHLOAD_V3_MAX_QUERY_ID,
+  HighloadWalletV3,
+  OP_INTERNAL_TRANSFER
+} from './HighloadWalletV3';
+
+const KEY = keyPairFromSeed(Buffer.alloc(32, 7));
+const ORACLE = 'EQAvlWFDxGF2lXm67y4yzC17wYKD9A0guwPkMs1gOsM__NOT';
+const CREATED_AT = 1_700_000_000;
+
+const cell = (message: MessageRelaxed) => beginCell().store(storeMessageRelaxed(message)).endCell();
+
+function message(value: number) {
+  return internal({ to: ORACLE, value: toNano(value), body: beginCell().storeUint(value, 32).endCell() });
+}
+
+describe('HighloadWalletV3', () => {
+  const wallet = HighloadWalletV3.create({ publicKey: KEY.publicKey, timeout: 300 });
+
+  it('derives its address from the key, subwallet and timeout', () => {
+    const data = beginCell()
+      .storeBuffer(KEY.publicKey)
+      .storeUint(HIGHLOAD_V3_DEFAULT_SUBWALLET, 32)
+      .storeUint(0, 66)
+      .storeUint(300, 22)
+      .endCell();
+
+    expect(wallet.init.data.equals(data)).toBe(true);
+    expect(wallet.address.equals(contractAddress(0, { code: HIGHLOAD_V3_CODE, data }))).toBe(true);
+    expect(HighloadWalletV3.create({ publicKey: KEY.publicKey, timeout: 600 }).address.equals(wallet.address)).toBe(false);
+    expect(HighloadWalletV3.create({ publicKey: KEY.publicKey, subwalletId: 1, timeout: 300 }).address.equals(wallet.address)).toBe(false);
+  });
+
+  it('backdates created_at by 30 seconds', () => {
+    expect(HighloadWalletV3.createdAt(CREATED_AT * 1000 + 999)).toBe(CREATED_AT - 30);
+  });
+
+  it('signs a single message with its own send mode', async () => {
+    const body = await wallet.createTransfer({
+      queryId: HIGHLOAD_V3_MAX_QUERY_ID,
+      createdAt: CREATED_AT,
+      messages: [message(1)],
+      sendMode: SendMode.PAY_GAS_SEPARATELY,
+      secretKey: KEY.secretKey
+    });
+
+    const inner = beginCell()
+      .storeUint(HIGHLOAD_V3_DEFAULT_SUBWALLET, 32)
+      .storeRef(cell(message(1)))
+      .storeUint(SendMode.PAY_GAS_SEPARATELY, 8)
+      .storeUint(HIGHLOAD_V3_MAX_QUERY_ID, 23)
+      .storeUint(CREATED_AT, 64)
+      .storeUint(300, 22)
+      .endCell();
+    const slice = body.beginParse();
+    const signature = slice.loadBuffer(64);
+
+    expect(slice.loadRef().equals(inner)).toBe(true);
+    expect(slice.remainingBits + slice.remainingRefs).toBe(0);
+    expect(signVerify(inner.hash(), signature, KEY.publicKey)).toBe(true);
+  });
+
+  it('sends several messages through an internal_transfer carrying the balance', async () => {
+    const messages = [message(1), message(2), message(3)];
+    const body = await wallet.createTransfer({
+      queryId: 42,
+      createdAt: CREATED_AT,
+      messages,
+      sendMode: SendMode.PAY_GAS_SEPARATELY,
+      signer: async cell => sign(cell.hash(), KEY.secretKey)
+    });
+
+    const signed = body.beginParse();
+    const signature = signed.loadBuffer(64);
+    const innerCell = signed.loadRef();
+    expect(signVerify(innerCell.hash(), signature, KEY.publicKey)).toBe(true);
+
+    const inner = innerCell.beginParse();
+    expect(inner.loadUint(32)).toBe(HIGHLOAD_V3_DEFAULT_SUBWALLET);
+    const transfer = loadMessageRelaxed(inner.loadRef().beginParse());
+    expect(inner.loadUint(8)).toBe(SendMode.CARRY_ALL_REMAINING_BALANCE);
+    expect(inner.loadUint(23)).toBe(42);
+    expect(inner.loadUint(64)).toBe(CREATED_AT);
+    expect(inner.loadUint(22)).toBe(300);
+
+    expect(transfer.info.type).toBe('internal');
+    if (transfer.info.type !== 'internal') return;
+    expect(transfer.info.dest.equals(wallet.address)).toBe(true);
+    expect(transfer.info.value.coins).toBe(0n);
+
+    const payload = transfer.body.beginParse();
+    expect(payload.loadUint(32)).toBe(OP_INTERNAL_TRANSFER);
+    expect(payload.loadUintBig(64)).toBe(42n);
+    const actions = loadOutList(payload.loadRef().beginParse());
+    expect(actions.map(action => action.type === 'sendMsg' && action.mode)).toEqual([
+      SendMode.PAY_GAS_SEPARATELY,
+      SendMode.PAY_GAS_SEPARATELY,
+      SendMode.PAY_GAS_SEPARATELY
+    ]);
+    actions.forEach((action, i) => {
+      expect(action.type === 'sendMsg' && cell(action.outMsg).equals(cell(messages[i]))).toBe(true);
+    });
+  });
+
+  it.each([-1, HIGHLOAD_V3_MAX_QUERY_ID + 1])('rejects query id %i', async queryId => {
+    await expect(wallet.createTransfer({
+      queryId,
+      createdAt: CREATED_AT,
+      messages: [message(1)],
+      sendMode: SendMode.PAY_GAS_SEPARATELY,
+      secretKey: KEY.secretKey
+    })).rejects.toThrow(`Query id out of range: ${queryId}`);
+  });
+
+  it.each([0, 255])('rejects a transfer of %i messages', async count => {
+    await expect(wallet.createTransfer({
+      queryId: 0,
+      createdAt: CREATED_AT,
+      messages: Array.from({ length: count }, () => message(1)),
+      sendMode: SendMode.PAY_GAS_SEPARATELY,
+      secretKey: KEY.secretKey
+    })).rejects.toThrow(`Highload wallet v3 sends 1 to 254 messages, got ${count}`);
+  });
+});
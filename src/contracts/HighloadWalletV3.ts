@@ -0,0 +1,153 @@
+import {
+  Address,
+  Cell,
+  Contract,
+  ContractProvider,
+  MessageRelaxed,
+  OutActionSendMsg,
+  SendMode,
+  beginCell,
+  contractAddress,
+  internal,
+  storeMessageRelaxed,
+  storeOutList
+} from '@ton/core';
+import { sign } from '@ton/crypto';
+
+/**
+ * Highload Wallet v3. Replay protection uses query ids remembered for the
+ * wallet's timeout instead of a seqno, so transfers don't have to land in
+ * order. Signed external body:
+ *
+ *   msg_inner$_ subwallet_id:uint32 message:^MessageRelaxed send_mode:uint8
+ *               query_id:uint23 created_at:uint64 timeout:uint22 = MsgInner;
+ *
+ *   external$_ signature:bits512 inner:^MsgInner = ExternalBody;
+ *
+ * Several messages go out through one internal_transfer to the wallet
+ * itself, whose action list holds up to 254 messages.
+ */
+export const HIGHLOAD_V3_CODE = Cell.fromBoc(Buffer.from(
+  'b5ee9c7241021001000228000114ff00f4a413f4bcf2c80b01020120020d02014803040078d020d74bc00101c060b0915be101d0d3030171b0915be0fa4030f828c705b39130e0d31f018210ae42e5a4ba9d8040d721d74cf82a01ed55fb04e030020120050a02027306070011adce76a2686b85ffc00201200809001aabb6ed44d0810122d721d70b3f0018aa3bed44d08307d721d70b1f0201200b0c001bb9a6eed44d0810162d721d70b15800e5b8bf2eda2edfb21ab09028409b0ed44d0810120d721f404f404d33fd315d1058e1bf82325a15210b99f326df82305aa0015a112b992306dde923033e2923033e25230800df40f6fa19ed021d721d70a00955f037fdb31e09130e259800df40f6fa19cd001d721d70a00937fdb31e0915be270801f6f2d48308d718d121f900ed44d0d3ffd31ff404f404d33fd315d1f82321a15220b98e12336df82324aa00a112b9926d32de58f82301de541675f910f2a106d0d31fd4d307d30cd309d33fd315d15168baf2a2515abaf2a6f8232aa15250bcf2a304f823bbf2a35304800df40f6fa199d024d721d70a00f2649130e20e01fe5309800df40f6fa18e13d05004d718d20001f264c858cf16cf8301cf168e1030c824cf40cf8384095005a1a514cf40e2f800c94039800df41704c8cbff13cb1ff40012f40012cb3f12cb15c9ed54f80f21d0d30001f265d3020171b0925f03e0fa4001d70b01c000f2a5fa4031fa0031f401fa0031fa00318060d721d300010f0020f265d2000193d431d19130e272b1fb00b585bf03',
+  'hex'
+))[0];
+
+export const OP_INTERNAL_TRANSFER = 0xae42e5a4;
+export const HIGHLOAD_V3_MAX_ACTIONS = 254;
+export const HIGHLOAD_V3_MAX_QUERY_ID = (1 << 23) - 1;
+export const HIGHLOAD_V3_DEFAULT_SUBWALLET = 0x10ad;
+
+// Backdating created_at keeps a message valid on nodes whose clocks lag ours
+const CREATED_AT_OFFSET = 30;
+
+export class HighloadWalletV3 implements Contract {
+  readonly publicKey: Buffer;
+  readonly subwalletId: number;
+  readonly timeout: number;          // Seconds a query id is remembered and a message stays valid
+  readonly address: Address;
+  readonly init: { code: Cell; data: Cell };
+
+  static create(args: { publicKey: Buffer; subwalletId?: number; timeout: number; workchain?: number }): HighloadWalletV3 {
+    return new HighloadWalletV3(
+      args.publicKey,
+      args.subwalletId ?? HIGHLOAD_V3_DEFAULT_SUBWALLET,
+      args.timeout,
+      args.workchain ?? 0
+    );
+  }
+
+  private constructor(publicKey: Buffer, subwalletId: number, timeout: number, workchain: number) {
+    this.publicKey = publicKey;
+    this.subwalletId = subwalletId;
+    this.timeout = timeout;
+
+    const data = beginCell()
+      .storeBuffer(publicKey)
+      .storeUint(subwalletId, 32)
+      .storeUint(0, 1 + 1 + 64)      // Empty query dictionaries, last clean time
+      .storeUint(timeout, 22)
+      .endCell();
+    this.init = { code: HIGHLOAD_V3_CODE, data };
+    this.address = contractAddress(workchain, this.init);
+  }
+
+  /**
+   * Latest created_at a new transfer can use; it stays valid for timeout
+   * seconds after that
+   */
+  static createdAt(now: number = Date.now()): number {
+    return Math.floor(now / 1000) - CREATED_AT_OFFSET;
+  }
+
+  /**
+   * Signed external body carrying the messages: a single message directly,
+   * several through an internal_transfer to the wallet itself
+   */
+  async createTransfer(args: {
+    queryId: number;
+    createdAt: number;
+    messages: MessageRelaxed[];
+    sendMode: SendMode;
+    secretKey?: Buffer;
+    signer?: (message: Cell) => Promise<Buffer>;
+  }): Promise<Cell> {
+    if (args.messages.length === 0 || args.messages.length > HIGHLOAD_V3_MAX_ACTIONS) {
+      throw new Error(`Highload wallet v3 sends 1 to ${HIGHLOAD_V3_MAX_ACTIONS} messages, got ${args.messages.length}`);
+    }
+    if (args.queryId < 0 || args.queryId > HIGHLOAD_V3_MAX_QUERY_ID) {
+      throw new Error(`Query id out of range: ${args.queryId}`);
+    }
+
+    const [message, sendMode] = args.messages.length === 1
+      ? [args.messages[0], args.sendMode]
+      : [this.createInternalTransfer(args.queryId, args.messages, args.sendMode), SendMode.CARRY_ALL_REMAINING_BALANCE];
+
+    const inner = beginCell()
+      .storeUint(this.subwalletId, 32)
+      .storeRef(beginCell().store(storeMessageRelaxed(message)))
+      .storeUint(sendMode, 8)
+      .storeUint(args.queryId, 23)
+      .storeUint(args.createdAt, 64)
+      .storeUint(this.timeout, 22)
+      .endCell();
+
+    let signature: Buffer;
+    if (args.signer) {
+      signature = await args.signer(inner);
+    } else if (args.secretKey) {
+      signature = sign(inner.hash(), args.secretKey);
+    } else {
+      throw new Error('Transfer needs a secret key or a signer');
+    }
+
+    return beginCell().storeBuffer(signature).storeRef(inner).endCell();
+  }
+
+  /**
+   * Whether the wallet has processed the query id within its timeout
+   */
+  async getProcessed(provider: ContractProvider, queryId: number): Promise<boolean> {
+    const state = await provider.getState();
+    if (state.state.type !== 'active') return false;
+
+    const result = await provider.get('processed?', [
+      { type: 'int', value: BigInt(queryId) },
+      { type: 'int', value: 0n }
+    ]);
+    return result.stack.readBoolean();
+  }
+
+  private createInternalTransfer(queryId: number, messages: MessageRelaxed[], sendMode: SendMode): MessageRelaxed {
+    const actions: OutActionSendMsg[] = messages.map(outMsg => ({ type: 'sendMsg', mode: sendMode, outMsg }));
+
+    return internal({
+      to: this.address,
+      value: 0n,
+      body: beginCell()
+        .storeUint(OP_INTERNAL_TRANSFER, 32)
+        .storeUint(queryId, 64)
+        .storeRef(beginCell().store(storeOutList(actions)))
+        .endCell()
+    });
+  }
+}
@@ -0,0 +1,210 @@
+import { beginCell } from '@ton/core';
+import {
+  OP_UPDATE_PRICES,
+  PRICE_UPDATE_VERSION,
+  decodeAggregatedPrice,
+  decodePriceBatch,
+  decodePriceData,
+  decodePriceUpdate,
+  encodeAggregatedPrice,
+  encodePriceBatch,
+  encodePriceData,
+  encodePriceUpdate,
+  getCellStats,
+  getPairId,
+  splitPriceBatches,
+  toFixedPoint
+} from './PriceUpdateMessage';
+import { AggregatedPriceData, PriceData, PriceUpdateMessage, ValidationError } from '@/types';
+
+function update(base: string, price: number, overrides: Partial<PriceUpdateMessage> = {}): PriceUpdateMessage {
+  return {
+    queryId: 42n,
+    pairId: getPairId(base, 'USD'),
+    base,
+    quote: 'USD',
+    price,
+    decimals: 6,
+    timestamp: 1_700_000_000_123,
+    confidence: 97.25,
+    sourceCount: 5,
+    ...overrides
+  };
+}
+
+const OUTLIER: PriceData = {
+  base: 'TON',
+  quote: 'USD',
+  price: 5.987654321,
+  timestamp: 1_700_000_000_456,
+  source: 'dedust',
+  volume24h: 1_234_567.89,
+  change24h: -3.25,
+  marketCap: 15_000_000_000.5,
+  confidence: 41.7,
+  listedQuote: 'USDT'
+};
+
+const AGGREGATE: AggregatedPriceData = {
+  base: 'TON',
+  quote: 'USD',
+  price: 5.123456789012,
+  timestamp: 1_700_000_000_123,
+  sources: ['pyth', 'binance', 'coingecko', 'stonfi'],
+  sourceCount: 4,
+  standardDeviation: 0.0123456789,
+  confidence: 97.25,
+  outliers: [OUTLIER, { base: 'TON', quote: 'USD', price: 4.1, timestamp: 1_700_000_000_000, source: 'okx' }],
+  spotPrice: 5.2,
+  twap: 5.11,
+  ema: 5.13,
+  derivedFrom: ['TON/USDT', 'USDT/USD'],
+  depegged: []
+};
+
+describe('PriceUpdateMessage', () => {
+  it('round-trips a single entry', () => {
+    const message = update('TON', 5.123456);
+    expect(decodePriceUpdate(encodePriceUpdate(message))).toEqual(message);
+  });
+
+  it('scales the price by the pair decimals', () => {
+    const decoded = decodePriceUpdate(encodePriceUpdate(update('BTC', 65432.129, { decimals: 2 })));
+    expect(decoded.price).toBe(65432.13);
+  });
+
+  it.each([NaN, Infinity, -Infinity, -1])('rejects a price of %d', price => {
+    expect(() => toFixedPoint(price, 6)).toThrow(ValidationError);
+  });
+
+  it('rejects prices too large to encode instead of failing in BigInt', () => {
+    expect(() => toFixedPoint(1e21, 0)).toThrow(ValidationError);
+    expect(() => toFixedPoint(1e21, 0)).toThrow('Price 1e+21 out of range');
+    // Below 1e21 but past VarUInteger 16 once scaled
+    expect(() => toFixedPoint(1e20, 18)).toThrow('Price 100000000000000000000 out of range at 18 decimal places');
+    expect(() => encodePriceUpdate(update('BTC', 1e22))).toThrow(ValidationError);
+  });
+
+  it('encodes the largest price that fits', () => {
+    expect(toFixedPoint(1e18, 18)).toBe(10n ** 36n);
+    expect(decodePriceUpdate(encodePriceUpdate(update('BTC', 1e18, { decimals: 18 }))).price).toBe(1e18);
+  });
+
+  it('round-trips a batch as a HashmapE keyed by pair id', () => {
+    const updates = [update('BTC', 65000.5), update('ETH', 3200.25), update('TON', 5.5)];
+    const cell = encodePriceBatch({ queryId: 7n, updates });
+
+    const slice = cell.beginParse();
+    expect(slice.loadUint(32)).toBe(OP_UPDATE_PRICES);
+    slice.skip(64 + 8);
+    expect(slice.loadUint(8)).toBe(3);
+    // HashmapE: presence bit, then the dictionary root as a ref
+    expect(slice.loadBit()).toBe(true);
+    expect(slice.remainingRefs).toBe(1);
+
+    const decoded = decodePriceBatch(cell);
+    expect(decoded.queryId).toBe(7n);
+    expect(decoded.updates).toHaveLength(3);
+    for (const expected of updates) {
+      expect(decoded.updates.find(u => u.pairId === expected.pairId)).toEqual({ ...expected, queryId: 7n });
+    }
+  });
+
+  it('rejects a bad opcode', () => {
+    const cell = encodePriceUpdate(update('TON', 5));
+    expect(() => decodePriceBatch(cell)).toThrow(ValidationError);
+    expect(() => decodePriceBatch(cell)).toThrow(/Unexpected opcode/);
+  });
+
+  it('rejects an unknown version', () => {
+    const cell = beginCell()
+      .storeUint(OP_UPDATE_PRICES, 32)
+      .storeUint(1, 64)
+      .storeUint(PRICE_UPDATE_VERSION + 1, 8)
+      .storeUint(0, 8)
+      .storeDict(null)
+      .endCell();
+    expect(() => decodePriceBatch(cell)).toThrow(/Unsupported price update version 2/);
+  });
+
+  it('splits updates into batches that stay within the limits', () => {
+    const updates = Array.from({ length: 40 }, (_, i) => update(`T${i}`, i + 1));
+    const limits = { maxEntries: 16, maxCells: 60, maxBits: 8000 };
+
+    const batches = splitPriceBatches(updates, limits);
+    expect(batches.flat()).toEqual(updates);
+    for (const batch of batches) {
+      expect(batch.length).toBeLessThanOrEqual(limits.maxEntries);
+      const stats = getCellStats(encodePriceBatch({ queryId: 0n, updates: batch }));
+      expect(stats.cells).toBeLessThanOrEqual(limits.maxCells);
+      expect(stats.bits).toBeLessThanOrEqual(limits.maxBits);
+    }
+  });
+
+  it('rejects an update that cannot fit any batch', () => {
+    expect(() => splitPriceBatches([update('TON', 5)], { maxEntries: 4, maxCells: 2, maxBits: 100 }))
+      .toThrow(/exceeds message limits/);
+  });
+});
+
+describe('off-chain price codec', () => {
+  it('round-trips every field of a source price', () => {
+    const decoded = decodePriceData(encodePriceData(OUTLIER));
+
+    expect(decoded.base).toBe('TON');
+    expect(decoded.quote).toBe('USD');
+    expect(decoded.price).toBe(5.987654321);
+    expect(decoded.timestamp).toBe(1_700_000_000_456);
+    expect(decoded.source).toBe('dedust');
+    expect(decoded.volume24h).toBe(1_234_567.89);
+    expect(decoded.change24h).toBe(-3.25);
+    expect(decoded.marketCap).toBe(15_000_000_000.5);
+    expect(decoded.confidence).toBe(41.7);
+    expect(decoded.listedQuote).toBe('USDT');
+  });
+
+  it('leaves absent optional fields absent', () => {
+    const decoded = decodePriceData(encodePriceData(AGGREGATE.outliers[1]));
+
+    expect(decoded).toEqual(AGGREGATE.outliers[1]);
+    for (const field of ['volume24h', 'change24h', 'marketCap', 'confidence', 'listedQuote']) {
+      expect(decoded).not.toHaveProperty(field);
+    }
+  });
+
+  it('round-trips every field of an aggregate', () => {
+    const decoded = decodeAggregatedPrice(encodeAggregatedPrice(AGGREGATE));
+
+    expect(decoded.base).toBe('TON');
+    expect(decoded.quote).toBe('USD');
+    expect(decoded.price).toBe(5.123456789012);
+    expect(decoded.timestamp).toBe(1_700_000_000_123);
+    expect(decoded.sources).toEqual(['pyth', 'binance', 'coingecko', 'stonfi']);
+    expect(decoded.sourceCount).toBe(4);
+    expect(decoded.standardDeviation).toBe(0.0123456789);
+    expect(decoded.confidence).toBe(97.25);
+    expect(decoded.outliers).toEqual(AGGREGATE.outliers);
+    expect(decoded.spotPrice).toBe(5.2);
+    expect(decoded.twap).toBe(5.11);
+    expect(decoded.ema).toBe(5.13);
+    expect(decoded.derivedFrom).toEqual(['TON/USDT', 'USDT/USD']);
+    expect(decoded.depegged).toEqual([]);
+  });
+
+  it('keeps list order and tells a missing list from an empty one', () => {
+    const sources = Array.from({ length: 40 }, (_, i) => `source-${i}`);
+    const { spotPrice, twap, ema, derivedFrom, depegged, ...plain } = AGGREGATE;
+
+    const decoded = decodeAggregatedPrice(encodeAggregatedPrice({ ...plain, sources, sourceCount: 40 }));
+
+    expect(decoded.sources).toEqual(sources);
+    expect(decoded).toEqual({ ...plain, sources, sourceCount: 40 });
+    for (const field of ['spotPrice', 'twap', 'ema', 'derivedFrom', 'depegged']) {
+      expect(decoded).not.toHaveProperty(field);
+    }
+  });
+
+  it('rejects a source price where an aggregate is expected', () => {
+    expect(() => decodeAggregatedPrice(encodePriceData(OUTLIER))).toThrow(/Unexpected opcode/);
+  });
+});
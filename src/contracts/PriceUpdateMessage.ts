@@ -0,0 +1,528 @@
+import { Builder, Cell, Slice, Dictionary, DictionaryValue, beginCell, crc32c } from '@ton/core';
+import {
+  PriceData,
+  AggregatedPriceData,
+  TradingPair,
+  PriceUpdateMessage,
+  PriceBatchMessage,
+  BatchLimits,
+  ValidationError
+} from '@/types';
+
+/**
+ * TL-B schema of the oracle contract's price update message (version 1):
+ *
+ *   pair_symbol$_ base_len:uint8 base:(bits base_len*8)
+ *                 quote_len:uint8 quote:(bits quote_len*8) = PairSymbol;
+ *
+ *   price_entry$_ decimals:uint8 price:(VarUInteger 16) timestamp:uint64
+ *                 confidence:uint16 source_count:uint8
+ *                 symbol:^PairSymbol = PriceEntry;
+ *
+ *   update_price#5f3c6a01 query_id:uint64 version:uint8 pair_id:uint32
+ *                 entry:PriceEntry = InMsgBody;
+ *
+ *   update_prices#5f3c6a02 query_id:uint64 version:uint8 count:uint8
+ *                 entries:(HashmapE 32 PriceEntry) = InMsgBody;
+ *
+ * The batch dictionary is keyed by pair_id.
+ * price is the fixed-point value price * 10^decimals, confidence is stored
+ * in hundredths of a percent and timestamp in milliseconds.
+ *
+ * Only what the contract acts on goes on-chain: standardDeviation, outliers,
+ * volume, change24h and source names are left out on purpose. The off-chain
+ * codec below carries them in full.
+ */
+export const OP_UPDATE_PRICE = 0x5f3c6a01;
+export const OP_UPDATE_PRICES = 0x5f3c6a02;
+export const PRICE_UPDATE_VERSION = 1;
+
+// Well below the network's per-message cell and bit limits, leaving room
+// for the wallet's own wrapping of the message
+export const DEFAULT_BATCH_LIMITS: BatchLimits = {
+  maxEntries: 64,
+  maxCells: 512,
+  maxBits: 1 << 16
+};
+
+const MAX_DECIMALS = 18;
+const MAX_FIXED_POINT = (1n << 120n) - 1n;  // Largest VarUInteger 16
+const MAX_PRICE = 1e21;                     // toFixed() switches to exponent notation from here
+
+// Batch size bounds used while splitting, so candidates need not be encoded:
+// op, query_id, version, count and the dictionary's presence bit, and per
+// entry two dictionary labels (hml_long for a 32-bit key: 2 + 6 + 32 bits)
+// plus one fork cell
+const BATCH_HEADER_BITS = 32 + 64 + 8 + 8 + 1;
+const DICT_ENTRY_OVERHEAD_BITS = 2 * (2 + 6 + 32);
+const DICT_ENTRY_OVERHEAD_CELLS = 1;
+
+/**
+ * TL-B schema of the off-chain price records, for relaying and archiving
+ * prices without loss. Numbers are IEEE 754 doubles, so every value
+ * round-trips exactly:
+ *
+ *   text$_ value:SnakeString = Text;
+ *   list$_ items:(HashmapE 16 ^X) = List X;
+ *
+ *   price_data#5f3c6b01 price:double timestamp:double
+ *                 volume_24h:(Maybe double) change_24h:(Maybe double)
+ *                 market_cap:(Maybe double) confidence:(Maybe double)
+ *                 symbol:^PairSymbol source:^Text
+ *                 listed_quote:(Maybe ^Text) = PriceData;
+ *
+ *   aggregated_price#5f3c6b02 price:double timestamp:double
+ *                 standard_deviation:double confidence:double
+ *                 source_count:uint16 spot_price:(Maybe double)
+ *                 twap:(Maybe double) ema:(Maybe double)
+ *                 symbol:^PairSymbol details:^AggregateDetails = AggregatedPrice;
+ *
+ *   details$_ sources:(List Text) outliers:(List PriceData)
+ *                 derived_from:(Maybe (List Text))
+ *                 depegged:(Maybe (List Text)) = AggregateDetails;
+ *
+ * List keys are the item positions.
+ */
+export const TAG_PRICE_DATA = 0x5f3c6b01;
+export const TAG_AGGREGATED_PRICE = 0x5f3c6b02;
+
+export function getPairId(base: string, quote: string): number {
+  return crc32c(Buffer.from(`${base.toUpperCase()}/${quote.toUpperCase()}`)).readUInt32LE(0);
+}
+
+export function toFixedPoint(price: number, decimals: number): bigint {
+  if (!Number.isFinite(price) || price < 0) {
+    throw new ValidationError(`Cannot encode price ${price}`);
+  }
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+    throw new ValidationError(`Unsupported decimal places: ${decimals}`);
+  }
+  if (price >= MAX_PRICE) {
+    throw new ValidationError(`Price ${price} out of range`, { price, decimals });
+  }
+
+  const [whole, fraction = ''] = price.toFixed(decimals).split('.');
+  const value = BigInt(whole + fraction);
+  if (value > MAX_FIXED_POINT) {
+    throw new ValidationError(`Price ${price} out of range at ${decimals} decimal places`, { price, decimals });
+  }
+  return value;
+}
+
+export function fromFixedPoint(value: bigint, decimals: number): number {
+  return Number(value) / Math.pow(10, decimals);
+}
+
+export function storePriceUpdate(src: PriceUpdateMessage) {
+  return (builder: Builder) => {
+    builder
+      .storeUint(OP_UPDATE_PRICE, 32)
+      .storeUint(src.queryId, 64)
+      .storeUint(PRICE_UPDATE_VERSION, 8)
+      .storeUint(src.pairId, 32)
+      .store(storePriceEntry(src));
+  };
+}
+
+export function loadPriceUpdate(slice: Slice): PriceUpdateMessage {
+  loadOp(slice, OP_UPDATE_PRICE);
+  const queryId = slice.loadUintBig(64);
+  loadVersion(slice);
+  const pairId = slice.loadUint(32);
+
+  return { queryId, pairId, ...loadPriceEntry(slice) };
+}
+
+export function storePriceBatch(src: PriceBatchMessage) {
+  return (builder: Builder) => {
+    if (src.updates.length > 255) {
+      throw new ValidationError(`Batch too large: ${src.updates.length} updates`);
+    }
+
+    const entries = Dictionary.empty(Dictionary.Keys.Uint(32), PriceEntryValue);
+    for (const update of src.updates) {
+      if (entries.has(update.pairId)) {
+        throw new ValidationError(`Duplicate pair in batch: ${update.base}/${update.quote}`);
+      }
+      entries.set(update.pairId, update);
+    }
+
+    builder
+      .storeUint(OP_UPDATE_PRICES, 32)
+      .storeUint(src.queryId, 64)
+      .storeUint(PRICE_UPDATE_VERSION, 8)
+      .storeUint(src.updates.length, 8)
+      .storeDict(entries);
+  };
+}
+
+export function loadPriceBatch(slice: Slice): PriceBatchMessage {
+  loadOp(slice, OP_UPDATE_PRICES);
+  const queryId = slice.loadUintBig(64);
+  loadVersion(slice);
+  const count = slice.loadUint(8);
+
+  const entries = slice.loadDict(Dictionary.Keys.Uint(32), PriceEntryValue);
+  if (entries.size !== count) {
+    throw new ValidationError(`Batch count mismatch: header ${count}, entries ${entries.size}`);
+  }
+
+  const updates = entries.keys().map(pairId => ({ ...entries.get(pairId)!, queryId, pairId }));
+  return { queryId, updates };
+}
+
+export function encodePriceUpdate(message: PriceUpdateMessage): Cell {
+  return beginCell().store(storePriceUpdate(message)).endCell();
+}
+
+export function decodePriceUpdate(cell: Cell): PriceUpdateMessage {
+  return loadPriceUpdate(cell.beginParse());
+}
+
+export function encodePriceBatch(message: PriceBatchMessage): Cell {
+  return beginCell().store(storePriceBatch(message)).endCell();
+}
+
+export function decodePriceBatch(cell: Cell): PriceBatchMessage {
+  return loadPriceBatch(cell.beginParse());
+}
+
+export function storePriceData(src: PriceData) {
+  return (builder: Builder) => {
+    builder
+      .storeUint(TAG_PRICE_DATA, 32)
+      .store(storeDouble(src.price))
+      .store(storeDouble(src.timestamp))
+      .store(storeMaybeDouble(src.volume24h))
+      .store(storeMaybeDouble(src.change24h))
+      .store(storeMaybeDouble(src.marketCap))
+      .store(storeMaybeDouble(src.confidence))
+      .storeRef(beginCell()
+        .store(storeSymbol(src.base))
+        .store(storeSymbol(src.quote))
+        .endCell())
+      .storeRef(encodeText(src.source))
+      .storeMaybeRef(src.listedQuote !== undefined ? encodeText(src.listedQuote) : null);
+  };
+}
+
+export function loadPriceData(slice: Slice): PriceData {
+  loadOp(slice, TAG_PRICE_DATA);
+  const price = loadDouble(slice);
+  const timestamp = loadDouble(slice);
+  const volume24h = loadMaybeDouble(slice);
+  const change24h = loadMaybeDouble(slice);
+  const marketCap = loadMaybeDouble(slice);
+  const confidence = loadMaybeDouble(slice);
+
+  const symbol = slice.loadRef().beginParse();
+  const data: PriceData = {
+    base: loadSymbol(symbol),
+    quote: loadSymbol(symbol),
+    price,
+    timestamp,
+    source: decodeText(slice.loadRef())
+  };
+  const listedQuote = slice.loadMaybeRef();
+
+  if (volume24h !== undefined) data.volume24h = volume24h;
+  if (change24h !== undefined) data.change24h = change24h;
+  if (marketCap !== undefined) data.marketCap = marketCap;
+  if (confidence !== undefined) data.confidence = confidence;
+  if (listedQuote) data.listedQuote = decodeText(listedQuote);
+  return data;
+}
+
+export function storeAggregatedPrice(src: AggregatedPriceData) {
+  return (builder: Builder) => {
+    const details = beginCell()
+      .storeDict(toList(src.sources, TextValue))
+      .storeDict(toList(src.outliers, PriceDataValue))
+      .storeMaybeBuilder(src.derivedFrom ? beginCell().storeDict(toList(src.derivedFrom, TextValue)) : null)
+      .storeMaybeBuilder(src.depegged ? beginCell().storeDict(toList(src.depegged, TextValue)) : null);
+
+    builder
+      .storeUint(TAG_AGGREGATED_PRICE, 32)
+      .store(storeDouble(src.price))
+      .store(storeDouble(src.timestamp))
+      .store(storeDouble(src.standardDeviation))
+      .store(storeDouble(src.confidence))
+      .storeUint(src.sourceCount, 16)
+      .store(storeMaybeDouble(src.spotPrice))
+      .store(storeMaybeDouble(src.twap))
+      .store(storeMaybeDouble(src.ema))
+      .storeRef(beginCell()
+        .store(storeSymbol(src.base))
+        .store(storeSymbol(src.quote))
+        .endCell())
+      .storeRef(details);
+  };
+}
+
+export function loadAggregatedPrice(slice: Slice): AggregatedPriceData {
+  loadOp(slice, TAG_AGGREGATED_PRICE);
+  const price = loadDouble(slice);
+  const timestamp = loadDouble(slice);
+  const standardDeviation = loadDouble(slice);
+  const confidence = loadDouble(slice);
+  const sourceCount = slice.loadUint(16);
+  const spotPrice = loadMaybeDouble(slice);
+  const twap = loadMaybeDouble(slice);
+  const ema = loadMaybeDouble(slice);
+
+  const symbol = slice.loadRef().beginParse();
+  const base = loadSymbol(symbol);
+  const quote = loadSymbol(symbol);
+
+  const details = slice.loadRef().beginParse();
+  const data: AggregatedPriceData = {
+    base,
+    quote,
+    price,
+    timestamp,
+    sources: fromList(details.loadDict(Dictionary.Keys.Uint(16), TextValue)),
+    sourceCount,
+    standardDeviation,
+    confidence,
+    outliers: fromList(details.loadDict(Dictionary.Keys.Uint(16), PriceDataValue))
+  };
+
+  if (spotPrice !== undefined) data.spotPrice = spotPrice;
+  if (twap !== undefined) data.twap = twap;
+  if (ema !== undefined) data.ema = ema;
+  if (details.loadBit()) data.derivedFrom = fromList(details.loadDict(Dictionary.Keys.Uint(16), TextValue));
+  if (details.loadBit()) data.depegged = fromList(details.loadDict(Dictionary.Keys.Uint(16), TextValue));
+  return data;
+}
+
+export function encodePriceData(data: PriceData): Cell {
+  return beginCell().store(storePriceData(data)).endCell();
+}
+
+export function decodePriceData(cell: Cell): PriceData {
+  return loadPriceData(cell.beginParse());
+}
+
+export function encodeAggregatedPrice(data: AggregatedPriceData): Cell {
+  return beginCell().store(storeAggregatedPrice(data)).endCell();
+}
+
+export function decodeAggregatedPrice(cell: Cell): AggregatedPriceData {
+  return loadAggregatedPrice(cell.beginParse());
+}
+
+/**
+ * Split updates into groups whose batch message stays within the limits.
+ * Sizes are upper bounds summed per entry, so a batch may come out smaller
+ * than the limits allow but never larger. A single update that exceeds the
+ * limits on its own is rejected.
+ */
+export function splitPriceBatches(
+  updates: PriceUpdateMessage[],
+  limits: BatchLimits = DEFAULT_BATCH_LIMITS
+): PriceUpdateMessage[][] {
+  const batches: PriceUpdateMessage[][] = [];
+  let current: PriceUpdateMessage[] = [];
+  let cells = 1;
+  let bits = BATCH_HEADER_BITS;
+
+  for (const update of updates) {
+    const entry = getCellStats(beginCell().store(storePriceEntry(update)).endCell());
+    const entryCells = entry.cells + DICT_ENTRY_OVERHEAD_CELLS;
+    const entryBits = entry.bits + DICT_ENTRY_OVERHEAD_BITS;
+
+    if (1 + entryCells > limits.maxCells || BATCH_HEADER_BITS + entryBits > limits.maxBits) {
+      throw new ValidationError(`Price update for ${update.base}/${update.quote} exceeds message limits`);
+    }
+
+    if (
+      current.length >= limits.maxEntries ||
+      cells + entryCells > limits.maxCells ||
+      bits + entryBits > limits.maxBits
+    ) {
+      batches.push(current);
+      current = [];
+      cells = 1;
+      bits = BATCH_HEADER_BITS;
+    }
+
+    current.push(update);
+    cells += entryCells;
+    bits += entryBits;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
+
+export function getCellStats(cell: Cell): { cells: number; bits: number } {
+  const seen = new Set<string>();
+  const stack = [cell];
+  let bits = 0;
+
+  while (stack.length > 0) {
+    const next = stack.pop()!;
+    const hash = next.hash().toString('hex');
+    if (seen.has(hash)) continue;
+
+    seen.add(hash);
+    bits += next.bits.length;
+    stack.push(...next.refs);
+  }
+
+  return { cells: seen.size, bits };
+}
+
+/**
+ * Build an update message from either a single source price or an aggregate
+ */
+export function createPriceUpdateMessage(
+  data: PriceData | AggregatedPriceData,
+  pair: TradingPair,
+  queryId: bigint = BigInt(Date.now())
+): PriceUpdateMessage {
+  return {
+    queryId,
+    pairId: getPairId(pair.base, pair.quote),
+    base: pair.base.toUpperCase(),
+    quote: pair.quote.toUpperCase(),
+    price: data.price,
+    decimals: pair.decimalPlaces,
+    timestamp: data.timestamp,
+    confidence: data.confidence ?? 100,
+    sourceCount: 'sourceCount' in data ? data.sourceCount : 1
+  };
+}
+
+const PriceEntryValue: DictionaryValue<Omit<PriceUpdateMessage, 'queryId' | 'pairId'>> = {
+  serialize: (src, builder) => {
+    builder.store(storePriceEntry(src));
+  },
+  parse: (slice) => loadPriceEntry(slice)
+};
+
+function storePriceEntry(src: Omit<PriceUpdateMessage, 'queryId' | 'pairId'>) {
+  return (builder: Builder) => {
+    builder
+      .storeUint(src.decimals, 8)
+      .storeVarUint(toFixedPoint(src.price, src.decimals), 4)
+      .storeUint(Math.round(src.timestamp), 64)
+      .storeUint(Math.round(clamp(src.confidence, 0, 100) * 100), 16)
+      .storeUint(Math.min(src.sourceCount, 255), 8)
+      .storeRef(beginCell()
+        .store(storeSymbol(src.base))
+        .store(storeSymbol(src.quote))
+        .endCell());
+  };
+}
+
+function loadPriceEntry(slice: Slice): Omit<PriceUpdateMessage, 'queryId' | 'pairId'> {
+  const decimals = slice.loadUint(8);
+  const price = fromFixedPoint(slice.loadVarUintBig(4), decimals);
+  const timestamp = Number(slice.loadUintBig(64));
+  const confidence = slice.loadUint(16) / 100;
+  const sourceCount = slice.loadUint(8);
+
+  const symbol = slice.loadRef().beginParse();
+  const base = loadSymbol(symbol);
+  const quote = loadSymbol(symbol);
+
+  return { base, quote, price, decimals, timestamp, confidence, sourceCount };
+}
+
+const TextValue: DictionaryValue<string> = {
+  serialize: (src, builder) => {
+    builder.storeRef(encodeText(src));
+  },
+  parse: (slice) => decodeText(slice.loadRef())
+};
+
+const PriceDataValue: DictionaryValue<PriceData> = {
+  serialize: (src, builder) => {
+    builder.storeRef(encodePriceData(src));
+  },
+  parse: (slice) => decodePriceData(slice.loadRef())
+};
+
+function toList<T>(items: T[], value: DictionaryValue<T>): Dictionary<number, T> {
+  if (items.length > 0xffff) {
+    throw new ValidationError(`List too long: ${items.length} items`);
+  }
+
+  const list = Dictionary.empty(Dictionary.Keys.Uint(16), value);
+  items.forEach((item, index) => list.set(index, item));
+  return list;
+}
+
+function fromList<T>(list: Dictionary<number, T>): T[] {
+  return list.keys().sort((a, b) => a - b).map(index => list.get(index)!);
+}
+
+function encodeText(text: string): Cell {
+  return beginCell().storeStringTail(text).endCell();
+}
+
+function decodeText(cell: Cell): string {
+  return cell.beginParse().loadStringTail();
+}
+
+function storeDouble(value: number) {
+  return (builder: Builder) => {
+    const bytes = Buffer.alloc(8);
+    bytes.writeDoubleBE(value);
+    builder.storeBuffer(bytes);
+  };
+}
+
+function loadDouble(slice: Slice): number {
+  return slice.loadBuffer(8).readDoubleBE(0);
+}
+
+function storeMaybeDouble(value: number | undefined) {
+  return (builder: Builder) => {
+    builder.storeBit(value !== undefined);
+    if (value !== undefined) {
+      builder.store(storeDouble(value));
+    }
+  };
+}
+
+function loadMaybeDouble(slice: Slice): number | undefined {
+  return slice.loadBit() ? loadDouble(slice) : undefined;
+}
+
+function loadOp(slice: Slice, expected: number): void {
+  const op = slice.loadUint(32);
+  if (op !== expected) {
+    throw new ValidationError(`Unexpected opcode 0x${op.toString(16)}`, { op });
+  }
+}
+
+function loadVersion(slice: Slice): void {
+  const version = slice.loadUint(8);
+  if (version !== PRICE_UPDATE_VERSION) {
+    throw new ValidationError(`Unsupported price update version ${version}`, { version });
+  }
+}
+
+function storeSymbol(symbol: string) {
+  return (builder: Builder) => {
+    const bytes = Buffer.from(symbol, 'ascii');
+    if (bytes.length > 32) {
+      throw new ValidationError(`Symbol too long: ${symbol}`);
+    }
+    builder.storeUint(bytes.length, 8).storeBuffer(bytes);
+  };
+}
+
+function loadSymbol(slice: Slice): string {
+  const length = slice.loadUint(8);
+  return slice.loadBuffer(length).toString('ascii');
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -8,7 +8,11 @@ import {
   WalletConfig, 
   PriceOracleConfig, 
   TradingPair,
-  AppConfig 
+  AppConfig,
+  AggregationMethod,
+  WalletType,
+  SignerType,
+  ConfigurationError
 } from './types';
 
 // Load environment variables
@@ -45,8 +49,7 @@ class TonOracleApplication {
   private loadConfiguration(): AppConfig {
     const requiredEnvVars = [
       'TON_NETWORK',
-      'TON_ENDPOINT',
-      'ORACLE_PRIVATE_KEY'
+      'TON_ENDPOINT'
     ];
 
     for (const envVar of requiredEnvVars) {
@@ -62,13 +65,33 @@ class TonOracleApplication {
       gasLimit: parseInt(process.env.GAS_LIMIT || '1000000'),
       gasPrice: parseInt(process.env.GAS_PRICE || '1000000000'),
       maxRetries: parseInt(process.env.MAX_RETRIES || '3'),
-      retryDelay: parseInt(process.env.RETRY_DELAY || '5000')
+      retryDelay: parseInt(process.env.RETRY_DELAY || '5000'),
+      confirmationTimeout: parseInt(process.env.CONFIRMATION_TIMEOUT || '60000'),
+      pollInterval: parseInt(process.env.CONFIRMATION_POLL_INTERVAL || '2000'),
+      messageTtl: parseInt(process.env.MESSAGE_TTL || '60'),
+      endpoints: this.parseJsonEnv('TON_ENDPOINTS'),
+      readQuorum: parseInt(process.env.TON_READ_QUORUM || '1'),
+      requestTimeout: parseInt(process.env.TON_REQUEST_TIMEOUT || '5000'),
+      maxBlockLag: parseInt(process.env.TON_MAX_BLOCK_LAG || '5'),
+      healthCheckInterval: parseInt(process.env.TON_HEALTH_CHECK_INTERVAL || '15000')
     };
 
     const walletConfig: WalletConfig = {
-      privateKey: process.env.ORACLE_PRIVATE_KEY!,
+      signer: {
+        type: (process.env.ORACLE_SIGNER as SignerType) || 'memory',
+        mnemonic: process.env.ORACLE_PRIVATE_KEY,
+        keystorePath: process.env.ORACLE_KEYSTORE_PATH,
+        passphrase: process.env.ORACLE_KEYSTORE_PASSPHRASE,
+        url: process.env.ORACLE_SIGNER_URL,
+        socketPath: process.env.ORACLE_SIGNER_SOCKET,
+        timeout: process.env.ORACLE_SIGNER_TIMEOUT ? parseInt(process.env.ORACLE_SIGNER_TIMEOUT) : undefined
+      },
       address: process.env.ORACLE_ADDRESS || '',
-      publicKey: process.env.ORACLE_PUBLIC_KEY
+      publicKey: process.env.ORACLE_PUBLIC_KEY,
+      type: (process.env.ORACLE_WALLET_TYPE as WalletType) || 'v4',
+      subwalletId: process.env.ORACLE_SUBWALLET_ID ? parseInt(process.env.ORACLE_SUBWALLET_ID) : undefined,
+      timeout: process.env.ORACLE_WALLET_TIMEOUT ? parseInt(process.env.ORACLE_WALLET_TIMEOUT) : undefined,
+      maxInFlight: process.env.ORACLE_MAX_IN_FLIGHT ? parseInt(process.env.ORACLE_MAX_IN_FLIGHT) : undefined
     };
 
     const supportedPairs: TradingPair[] = [
@@ -79,7 +102,8 @@ class TonOracleApplication {
         isActive: true,
         minPrice: 1000,
         maxPrice: 1000000,
-        decimalPlaces: 2
+        decimalPlaces: 2,
+        outlierDetection: 'mad'
       },
       {
         base: 'ETH',
@@ -88,7 +112,8 @@ class TonOracleApplication {
         isActive: true,
         minPrice: 100,
         maxPrice: 100000,
-        decimalPlaces: 2
+        decimalPlaces: 2,
+        outlierDetection: 'mad'
       },
       {
         base: 'TON',
@@ -97,7 +122,49 @@ class TonOracleApplication {
         isActive: true,
         minPrice: 0.1,
         maxPrice: 1000,
-        decimalPlaces: 4
+        decimalPlaces: 4,
+        outlierDetection: 'mad'
+      },
+      {
+        base: 'USDT',
+        quote: 'USD',
+        symbol: 'USDTUSD',
+        isActive: true,
+        minPrice: 0.5,
+        maxPrice: 1.5,
+        decimalPlaces: 6
+      },
+      {
+        base: 'USDC',
+        quote: 'USD',
+        symbol: 'USDCUSD',
+        isActive: true,
+        minPrice: 0.5,
+        maxPrice: 1.5,
+        decimalPlaces: 6
+      },
+      {
+        // jUSDT, the bridged USDT on TON, is priced from DEX pools only
+        base: 'JUSDT',
+        quote: 'USD',
+        symbol: 'JUSDTUSD',
+        isActive: !!(process.env.STONFI_POOLS || process.env.DEDUST_POOLS),
+        minPrice: 0.5,
+        maxPrice: 1.5,
+        decimalPlaces: 6
+      },
+      {
+        base: 'TON',
+        quote: 'BTC',
+        symbol: 'TONBTC',
+        isActive: true,
+        minPrice: 0.0000001,
+        maxPrice: 0.01,
+        decimalPlaces: 9,
+        derivation: [
+          { pair: 'TON/USD' },
+          { pair: 'BTC/USD', invert: true }
+        ]
       }
     ];
 
@@ -106,6 +173,7 @@ class TonOracleApplication {
       sources: [
         {
           name: 'coingecko',
+          type: 'coingecko',
           enabled: true,
           apiKey: process.env.COINGECKO_API_KEY,
           weight: 1,
@@ -118,6 +186,7 @@ class TonOracleApplication {
         },
         {
           name: 'binance',
+          type: 'binance',
           enabled: true,
           apiKey: process.env.BINANCE_API_KEY,
           weight: 1,
@@ -126,10 +195,17 @@ class TonOracleApplication {
           endpoints: {
             baseUrl: 'https://api.binance.com/api/v3',
             priceEndpoint: '/ticker/price'
-          }
+          },
+          options: process.env.BINANCE_STREAM === 'true' ? {
+            stream: {
+              url: process.env.BINANCE_STREAM_URL,
+              channel: process.env.BINANCE_STREAM_CHANNEL || 'trade'
+            }
+          } : undefined
         },
         {
           name: 'coinmarketcap',
+          type: 'coinmarketcap',
           enabled: !!process.env.CMC_API_KEY,
           apiKey: process.env.CMC_API_KEY,
           weight: 1,
@@ -139,14 +215,133 @@ class TonOracleApplication {
             baseUrl: 'https://pro-api.coinmarketcap.com',
             priceEndpoint: '/v1/cryptocurrency/quotes/latest'
           }
+        },
+        {
+          name: 'kraken',
+          type: 'kraken',
+          enabled: process.env.KRAKEN_ENABLED !== 'false',
+          weight: 1,
+          rateLimit: 60,
+          timeout: 10000,
+          endpoints: {
+            baseUrl: 'https://api.kraken.com',
+            priceEndpoint: '/0/public/Ticker'
+          }
+        },
+        {
+          name: 'okx',
+          type: 'okx',
+          enabled: process.env.OKX_ENABLED !== 'false',
+          weight: 1,
+          rateLimit: 600,
+          timeout: 10000,
+          endpoints: {
+            baseUrl: 'https://www.okx.com',
+            priceEndpoint: '/api/v5/market/ticker'
+          }
+        },
+        {
+          name: 'bybit',
+          type: 'bybit',
+          enabled: process.env.BYBIT_ENABLED !== 'false',
+          weight: 1,
+          rateLimit: 600,
+          timeout: 10000,
+          endpoints: {
+            baseUrl: 'https://api.bybit.com',
+            priceEndpoint: '/v5/market/tickers'
+          }
+        },
+        {
+          name: 'pyth',
+          type: 'pyth',
+          enabled: !!process.env.PYTH_PRICE_IDS,
+          weight: 1,
+          rateLimit: 1800,
+          timeout: 10000,
+          endpoints: {
+            baseUrl: process.env.PYTH_ENDPOINT || 'https://hermes.pyth.network',
+            priceEndpoint: '/v2/updates/price/latest'
+          },
+          options: {
+            priceIds: this.parseJsonEnv('PYTH_PRICE_IDS', {}),
+            maxAge: parseInt(process.env.PYTH_MAX_AGE || '60')
+          }
+        },
+        {
+          name: 'stonfi',
+          type: 'stonfi',
+          enabled: !!process.env.STONFI_POOLS,
+          weight: 1,
+          rateLimit: 60,
+          timeout: 10000,
+          endpoints: {
+            baseUrl: process.env.TON_ENDPOINT!,
+            priceEndpoint: 'get_pool_data'
+          },
+          options: {
+            pools: this.parseJsonEnv('STONFI_POOLS', [])
+          }
+        },
+        {
+          name: 'dedust',
+          type: 'dedust',
+          enabled: !!process.env.DEDUST_POOLS,
+          weight: 1,
+          rateLimit: 60,
+          timeout: 10000,
+          endpoints: {
+            baseUrl: process.env.TON_ENDPOINT!,
+            priceEndpoint: 'get_reserves'
+          },
+          options: {
+            pools: this.parseJsonEnv('DEDUST_POOLS', [])
+          }
         }
       ],
-      aggregationMethod: 'median',
+      aggregationMethod: (process.env.AGGREGATION_METHOD as AggregationMethod) || 'median',
+      adaptiveWeights: process.env.ADAPTIVE_WEIGHTS === 'true' ? {
+        window: parseInt(process.env.ADAPTIVE_WEIGHT_WINDOW || '50'),
+        minObservations: parseInt(process.env.ADAPTIVE_WEIGHT_MIN_OBSERVATIONS || '10'),
+        minWeight: parseFloat(process.env.ADAPTIVE_WEIGHT_MIN || '0.1'),
+        maxWeight: parseFloat(process.env.ADAPTIVE_WEIGHT_MAX || '2'),
+        deviationScale: 0.5,
+        latencyScale: 2000,
+        stalenessScale: 60
+      } : undefined,
       outlierThreshold: 2.0,
+      circuitBreaker: {
+        maxPriceChange: parseFloat(process.env.MAX_PRICE_CHANGE || '10'),
+        confirmationCycles: parseInt(process.env.CIRCUIT_BREAKER_CONFIRMATIONS || '3'),
+        confirmationSpacing: process.env.CIRCUIT_BREAKER_CONFIRMATION_SPACING
+          ? parseInt(process.env.CIRCUIT_BREAKER_CONFIRMATION_SPACING)
+          : undefined,
+        minConfirmingSources: process.env.CIRCUIT_BREAKER_MIN_SOURCES
+          ? parseInt(process.env.CIRCUIT_BREAKER_MIN_SOURCES)
+          : undefined
+      },
+      quarantine: {
+        maxConsecutiveOutliers: parseInt(process.env.QUARANTINE_MAX_OUTLIERS || '5'),
+        duration: parseInt(process.env.QUARANTINE_DURATION || '1800')
+      },
+      quoteNormalization: {
+        ratePairs: ['USDT/USD', 'USDC/USD'],
+        maxRateAge: parseInt(process.env.QUOTE_RATE_MAX_AGE || '600')
+      },
+      depeg: {
+        assets: ['USDT', 'USDC', 'JUSDT'],
+        warningThreshold: parseFloat(process.env.DEPEG_WARNING_THRESHOLD || '0.5'),
+        criticalThreshold: parseFloat(process.env.DEPEG_CRITICAL_THRESHOLD || '2'),
+        action: process.env.DEPEG_ACTION === 'halt' ? 'halt' : 'reduce_confidence',
+        confidencePenalty: parseFloat(process.env.DEPEG_CONFIDENCE_PENALTY || '0.5')
+      },
       minSourcesRequired: parseInt(process.env.MIN_DATA_SOURCES || '2'),
       maxPriceAge: parseInt(process.env.MAX_PRICE_AGE || '300'),
       updateInterval: parseInt(process.env.UPDATE_INTERVAL || '300'),
-      deviationThreshold: parseFloat(process.env.DEVIATION_THRESHOLD || '1.0')
+      deviationThreshold: parseFloat(process.env.DEVIATION_THRESHOLD || '1.0'),
+      heartbeatInterval: parseInt(process.env.HEARTBEAT_INTERVAL || '3600'),
+      triggers: this.parseJsonEnv('UPDATE_TRIGGERS'),
+      contractAddress: process.env.ORACLE_CONTRACT_ADDRESS || ''
     };
 
     return {
@@ -182,6 +377,20 @@ class TonOracleApplication {
     };
   }
 
+  /**
+   * JSON-valued environment variable, or the fallback when unset
+   */
+  private parseJsonEnv(name: string, fallback?: unknown): any {
+    const value = process.env[name];
+    if (!value) return fallback;
+
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      throw new ConfigurationError(`Environment variable ${name} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   async start(): Promise<void> {
     try {
       this.logger.info('🚀 Starting TON Oracle Application...');
@@ -313,6 +522,11 @@ class TonOracleApplication {
       throw new Error('No supported trading pairs configured');
     }
 
+    // Validate oracle contract address
+    if (!this.config.price.contractAddress) {
+      throw new Error('ORACLE_CONTRACT_ADDRESS is not configured');
+    }
+
     // Validate network configuration
     if (!['mainnet', 'testnet'].includes(this.config.ton.network)) {
       throw new Error(`Invalid TON network: ${this.config.ton.network}`);
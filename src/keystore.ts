@@ -0,0 +1,57 @@
+import { promises as fs } from 'fs';
+import { createInterface } from 'readline';
+import { Writable } from 'stream';
+import { mnemonicToWalletKey, mnemonicValidate } from '@ton/crypto';
+import { encryptKeystore } from './services/Signer';
+
+/**
+ * Encrypt a wallet mnemonic into a keystore file for ORACLE_SIGNER=keystore.
+ * Usage: npm run keystore -- <output path>
+ */
+async function main(): Promise<void> {
+  const path = process.argv[2];
+  if (!path) {
+    throw new Error('Usage: npm run keystore -- <output path>');
+  }
+
+  // Answers are secrets, so only the questions reach the terminal
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) process.stdout.write(chunk, encoding);
+      callback();
+    }
+  });
+  const prompt = createInterface({ input: process.stdin, output, terminal: process.stdin.isTTY });
+  const ask = (question: string) => new Promise<string>(resolve => {
+    prompt.question(question, answer => {
+      muted = false;
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+    muted = true;
+  });
+
+  const words = (await ask('Mnemonic: ')).trim().split(/\s+/);
+  const passphrase = await ask('Passphrase: ');
+  prompt.close();
+
+  if (!(await mnemonicValidate(words))) {
+    throw new Error('Invalid mnemonic phrase');
+  }
+  if (passphrase.length < 12) {
+    throw new Error('Passphrase must be at least 12 characters');
+  }
+
+  const keyPair = await mnemonicToWalletKey(words);
+  const keystore = await encryptKeystore(keyPair, passphrase);
+  await fs.writeFile(path, JSON.stringify(keystore, null, 2), { mode: 0o600, flag: 'wx' });
+
+  console.log(`Keystore written to ${path}`);
+  console.log(`Public key: ${keystore.publicKey}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
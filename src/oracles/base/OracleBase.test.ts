@@ -0,0 +1,106 @@
+import { OracleBase } from './OracleBase';
+import { Logger, MetricsCollector, OracleConfig, OracleData, UpdateResult, ValidationResult } from '@/types';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+const config: OracleConfig = {
+  updateInterval: 60,
+  deviationThreshold: 1,
+  minSources: 1,
+  maxOutlierDeviation: 10,
+  gasLimit: 1000000,
+  retryAttempts: 3,
+  enabled: true
+};
+
+class TestOracle extends OracleBase<number> {
+  failing = false;
+
+  async fetchData(): Promise<OracleData<number>[]> {
+    return [{ value: 1, timestamp: Date.now(), source: 'test' }];
+  }
+
+  async validateData(): Promise<ValidationResult> {
+    return { isValid: true, errors: [], warnings: [] };
+  }
+
+  async processData(): Promise<UpdateResult<number>[]> {
+    if (this.failing) throw new Error('processing failed');
+    return [];
+  }
+
+  async submitToBlockchain(): Promise<string> {
+    return 'hash';
+  }
+
+  threshold(key: string): Promise<void> {
+    return this.requestUpdate('threshold', [key]);
+  }
+
+  getOracleType(): string {
+    return 'test';
+  }
+
+  protected async getSourcesStatus(): Promise<any[]> {
+    return [];
+  }
+}
+
+describe('OracleBase', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('counts consecutive failed cycles only', async () => {
+    const oracle = new TestOracle(config, logger, metrics);
+
+    for (const failing of [true, true, false, true, true]) {
+      oracle.failing = failing;
+      await oracle.forceUpdate();
+    }
+
+    expect((await oracle.getStatus()).errorCount).toBe(2);
+  });
+
+  it('gives up once retryAttempts cycles fail in a row', async () => {
+    const oracle = new TestOracle(config, logger, metrics);
+    oracle.failing = true;
+
+    await oracle.forceUpdate();
+    await oracle.forceUpdate();
+    await expect(oracle.forceUpdate()).rejects.toThrow('processing failed');
+    expect(logger.error).toHaveBeenCalledWith('Max error count reached, stopping oracle', { errorCount: 3, maxRetries: 3 });
+  });
+
+  it('keeps running through failing threshold cycles', async () => {
+    const oracle = new TestOracle(config, logger, metrics);
+    await oracle.start();
+    oracle.failing = true;
+
+    try {
+      for (let i = 0; i < config.retryAttempts + 2; i++) {
+        await oracle.threshold('TON/USD');
+      }
+
+      const status = await oracle.getStatus();
+      expect(status.isActive).toBe(true);
+      expect(status.errorCount).toBe(0);
+    } finally {
+      await oracle.stop();
+    }
+  });
+
+  it('does not let keyed cycles reset the count of failed full cycles', async () => {
+    const oracle = new TestOracle(config, logger, metrics);
+
+    oracle.failing = true;
+    await oracle.forceUpdate();
+    await oracle.forceUpdate(['TON/USD']);
+    await oracle.forceUpdate();
+    oracle.failing = false;
+    await oracle.forceUpdate(['TON/USD']);
+
+    expect((await oracle.getStatus()).errorCount).toBe(2);
+    oracle.failing = true;
+    await expect(oracle.forceUpdate()).rejects.toThrow('processing failed');
+  });
+});
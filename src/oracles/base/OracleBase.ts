@@ -1,14 +1,34 @@
-import { OracleConfig, OracleData, ValidationResult, OracleStatus, Logger, MetricsCollector } from '@/types';
-
-export abstract class OracleBase<T = any> {
+import { 
+  OracleConfig, 
+  OracleData, 
+  ValidationResult, 
+  OracleStatus, 
+  UpdateResult, 
+  UpdateCycleReport, 
+  UpdateTrigger, 
+  Logger, 
+  MetricsCollector 
+} from '@/types';
+import { TriggerEngine } from './TriggerEngine';
+
+interface QueuedUpdate {
+  trigger: UpdateTrigger;
+  keys?: Set<string>;
+  done: Promise<void>;
+}
+
+export abstract class OracleBase<T = any, P = T> {
   protected config: OracleConfig;
   protected isRunning: boolean = false;
   protected logger: Logger;
   protected metrics: MetricsCollector;
-  private updateTimer?: NodeJS.Timeout;
-  private errorCount: number = 0;
+  private triggers?: TriggerEngine;
+  private errorCount: number = 0; // Consecutive failed full cycles
   private totalUpdates: number = 0;
   private lastUpdateTime: number = 0;
+  private lastCycleReport?: UpdateCycleReport<P>;
+  private cycleChain: Promise<void> = Promise.resolve();
+  private queuedUpdates: QueuedUpdate[] = [];
 
   constructor(
     config: OracleConfig, 
@@ -23,12 +43,31 @@ export abstract class OracleBase<T = any> {
   /**
    * Abstract methods that must be implemented by derived classes
    */
-  abstract fetchData(): Promise<OracleData<T>[]>;
-  abstract validateData(data: OracleData<T>[]): Promise<ValidationResult>;
-  abstract processData(data: OracleData<T>[]): Promise<T>;
-  abstract submitToBlockchain(processedData: T): Promise<string>;
+  abstract fetchData(keys?: string[]): Promise<OracleData<T>[]>;
+  abstract validateData(data: OracleData<T>[], keys?: string[]): Promise<ValidationResult>;
+  abstract processData(data: OracleData<T>[], keys?: string[]): Promise<UpdateResult<P>[]>;
+  abstract submitToBlockchain(processedData: P): Promise<string>;
   abstract getOracleType(): string;
 
+  /**
+   * Decide whether a processed item needs to be published this cycle.
+   * Returns the trigger to record for the update, or null to skip it.
+   */
+  protected getSubmitTrigger(processedData: P, cycleTrigger: UpdateTrigger): UpdateTrigger | null {
+    return cycleTrigger;
+  }
+
+  /**
+   * Called for every item that was submitted successfully
+   */
+  protected onPublished(result: UpdateResult<P>): void {}
+
+  /**
+   * Called when the oracle starts, before the initial update, and when it stops
+   */
+  protected async onStart(): Promise<void> {}
+  protected async onStop(): Promise<void> {}
+
   /**
    * Start the oracle service
    */
@@ -43,15 +82,28 @@ export abstract class OracleBase<T = any> {
       return;
     }
 
+    // Build triggers first so a bad schedule fails before anything starts
+    const triggers = new TriggerEngine(
+      this.config.triggers || [{ kind: 'interval', seconds: this.config.updateInterval }],
+      (trigger, keys) => this.requestUpdate(trigger, keys),
+      this.logger,
+      this.metrics
+    );
+
     this.logger.info(`Starting ${this.getOracleType()} oracle...`);
     this.isRunning = true;
     this.metrics.increment('oracle.start', { type: this.getOracleType() });
 
+    await this.onStart();
+
     // Perform initial update
-    await this.performUpdate();
+    await this.requestUpdate('time');
 
-    // Schedule periodic updates
-    this.scheduleUpdates();
+    // Start scheduled and event-driven updates
+    if (this.isRunning) {
+      this.triggers = triggers;
+      this.triggers.start();
+    }
 
     this.logger.info(`${this.getOracleType()} oracle started successfully`);
   }
@@ -68,11 +120,13 @@ export abstract class OracleBase<T = any> {
     this.logger.info(`Stopping ${this.getOracleType()} oracle...`);
     this.isRunning = false;
 
-    if (this.updateTimer) {
-      clearTimeout(this.updateTimer);
-      this.updateTimer = undefined;
+    if (this.triggers) {
+      this.triggers.stop();
+      this.triggers = undefined;
     }
 
+    await this.onStop();
+
     this.metrics.increment('oracle.stop', { type: this.getOracleType() });
     this.logger.info(`${this.getOracleType()} oracle stopped`);
   }
@@ -86,7 +140,8 @@ export abstract class OracleBase<T = any> {
       lastUpdate: this.lastUpdateTime,
       totalUpdates: this.totalUpdates,
       errorCount: this.errorCount,
-      sources: await this.getSourcesStatus()
+      sources: await this.getSourcesStatus(),
+      lastCycle: this.lastCycleReport
     };
   }
 
@@ -100,51 +155,69 @@ export abstract class OracleBase<T = any> {
   }
 
   /**
-   * Force immediate update
+   * Force immediate update, of every item or only the given keys
    */
-  async forceUpdate(): Promise<void> {
-    this.logger.info('Forcing oracle update');
+  async forceUpdate(keys?: string[]): Promise<void> {
+    this.logger.info('Forcing oracle update', { keys });
     this.metrics.increment('oracle.force_update', { type: this.getOracleType() });
-    await this.performUpdate();
+    await this.requestUpdate('manual', keys);
   }
 
   /**
-   * Abstract method to get source status
+   * Report a live move past the deviation threshold for an item, running
+   * a threshold cycle for it if a deviation trigger covers it
    */
-  protected abstract getSourcesStatus(): Promise<any[]>;
+  protected signalDeviation(key: string): boolean {
+    return this.triggers ? this.triggers.signalDeviation(key) : false;
+  }
 
   /**
-   * Schedule periodic updates
+   * Queue an update cycle behind the one in progress so cycles never
+   * overlap. Requests waiting with the same trigger share one cycle.
    */
-  private scheduleUpdates(): void {
-    if (!this.isRunning) return;
+  protected requestUpdate(trigger: UpdateTrigger, keys?: string[]): Promise<void> {
+    const queued = this.queuedUpdates.find(q => q.trigger === trigger);
+    if (queued) {
+      queued.keys = queued.keys && keys ? new Set([...queued.keys, ...keys]) : undefined;
+      this.metrics.increment('oracle.update_coalesced', { type: this.getOracleType(), trigger });
+      return queued.done;
+    }
 
-    this.updateTimer = setTimeout(async () => {
-      try {
-        await this.performUpdate();
-      } catch (error) {
-        this.logger.error('Scheduled update failed', { error });
-      }
-      this.scheduleUpdates();
-    }, this.config.updateInterval * 1000);
+    const request = { trigger, keys: keys && new Set(keys) } as QueuedUpdate;
+    request.done = this.cycleChain.then(() => {
+      this.queuedUpdates = this.queuedUpdates.filter(q => q !== request);
+
+      // Drop scheduled work queued before a stop
+      if (!this.isRunning && trigger !== 'manual') return;
+      return this.performUpdate(trigger, request.keys && Array.from(request.keys));
+    });
+
+    this.queuedUpdates.push(request);
+    this.cycleChain = request.done.catch(() => {});
+    return request.done;
   }
 
+  /**
+   * Abstract method to get source status
+   */
+  protected abstract getSourcesStatus(): Promise<any[]>;
+
   /**
    * Perform oracle update cycle
    */
-  private async performUpdate(): Promise<void> {
+  private async performUpdate(trigger: UpdateTrigger, keys?: string[]): Promise<void> {
     const startTime = Date.now();
     
     try {
-      this.logger.debug('Starting oracle update cycle');
+      this.logger.debug('Starting oracle update cycle', { trigger, keys });
       this.metrics.increment('oracle.update_start', { type: this.getOracleType() });
 
       // Step 1: Fetch data from sources
-      const rawData = await this.fetchDataWithRetry();
+      const rawData = await this.fetchDataWithRetry(keys);
       this.logger.debug(`Fetched data from ${rawData.length} sources`);
 
       // Step 2: Validate data
-      const validation = await this.validateData(rawData);
+      const validation = await this.validateData(rawData, keys);
       if (!validation.isValid) {
         throw new Error(`Data validation failed: ${validation.errors.join(', ')}`);
       }
@@ -153,35 +226,69 @@ export abstract class OracleBase<T = any> {
         this.logger.warn('Data validation warnings', { warnings: validation.warnings });
       }
 
-      // Step 3: Process and aggregate data
-      const processedData = await this.processData(rawData);
-      this.logger.debug('Data processed successfully', { processedData });
+      // Step 3: Process and aggregate data, one result per item
+      const results = await this.processData(rawData, keys);
+      this.logger.debug('Data processed', { items: results.length });
+
+      // Step 4: Submit items that need publishing, failures stay per item
+      const due = this.selectDueResults(results, trigger);
+      if (due.length > 1) {
+        await this.submitBatch(due);
+      } else if (due.length === 1) {
+        await this.submitResult(due[0]);
+      }
 
-      // Step 4: Submit to blockchain
-      const txHash = await this.submitToBlockchain(processedData);
-      this.logger.info('Data submitted to blockchain', { txHash });
+      for (const result of results) {
+        if (result.status === 'submitted') {
+          this.onPublished(result);
+        }
+      }
+
+      this.lastCycleReport = {
+        trigger,
+        startedAt: startTime,
+        duration: Date.now() - startTime,
+        results
+      };
+
+      const failed = results.filter(r => r.status === 'failed');
+      if (results.length > 0 && failed.length === results.length) {
+        throw new Error(`All updates failed: ${failed.map(r => `${r.key}: ${r.error}`).join(', ')}`);
+      }
 
       // Update metrics and state
-      this.totalUpdates++;
+      const submitted = results.filter(r => r.status === 'submitted');
+      this.totalUpdates += submitted.length;
       this.lastUpdateTime = Date.now();
+      if (!keys) {
+        this.errorCount = 0;
+      }
       
       const duration = Date.now() - startTime;
       this.metrics.timing('oracle.update_duration', duration, { type: this.getOracleType() });
       this.metrics.increment('oracle.update_success', { type: this.getOracleType() });
 
-      this.logger.info('Oracle update completed successfully', { 
+      this.logger.info('Oracle update completed', { 
         duration, 
-        txHash,
+        submitted: submitted.map(r => ({ key: r.key, txHash: r.txHash })),
+        skipped: results.filter(r => r.status === 'skipped').map(r => r.key),
+        failed: failed.map(r => ({ key: r.key, error: r.error })),
         totalUpdates: this.totalUpdates 
       });
 
     } catch (error) {
-      this.errorCount++;
+      // Only cycles over every item count towards stopping: a keyed or
+      // threshold cycle failing says nothing about the other items
+      if (!keys) {
+        this.errorCount++;
+      }
       const duration = Date.now() - startTime;
       
       this.logger.error('Oracle update failed', { 
         error: error instanceof Error ? error.message : String(error),
         duration,
+        trigger,
+        keys,
         errorCount: this.errorCount
       });
 
@@ -195,7 +302,7 @@ export abstract class OracleBase<T = any> {
       });
 
       // Re-throw error if we've exceeded max retries
-      if (this.errorCount >= this.config.retryAttempts) {
+      if (!keys && this.errorCount >= this.config.retryAttempts) {
         this.logger.error('Max error count reached, stopping oracle', { 
           errorCount: this.errorCount,
           maxRetries: this.config.retryAttempts 
@@ -206,16 +313,79 @@ export abstract class OracleBase<T = any> {
     }
   }
 
+  /**
+   * Submit several items due in the same cycle. Override to pack them
+   * into fewer transactions; the default submits them one by one.
+   */
+  protected async submitBatch(results: UpdateResult<P>[]): Promise<void> {
+    for (const result of results) {
+      await this.submitResult(result);
+    }
+  }
+
+  /**
+   * Mark pending results that don't need publishing as skipped
+   */
+  private selectDueResults(results: UpdateResult<P>[], cycleTrigger: UpdateTrigger): UpdateResult<P>[] {
+    const due: UpdateResult<P>[] = [];
+
+    for (const result of results) {
+      if (result.status !== 'pending') continue;
+
+      try {
+        const trigger = this.getSubmitTrigger(result.data as P, cycleTrigger);
+        if (trigger) {
+          result.trigger = trigger;
+          due.push(result);
+        } else {
+          result.status = 'skipped';
+        }
+      } catch (error) {
+        this.recordFailure(result, error);
+      }
+    }
+
+    return due;
+  }
+
+  /**
+   * Submit a single processed item, recording the outcome on the result
+   */
+  protected async submitResult(result: UpdateResult<P>): Promise<void> {
+    try {
+      result.txHash = await this.submitToBlockchain(result.data as P);
+      result.status = 'submitted';
+      this.logger.info('Data submitted to blockchain', { key: result.key, txHash: result.txHash });
+
+    } catch (error) {
+      this.recordFailure(result, error);
+    }
+  }
+
+  /**
+   * Mark a result as failed without affecting the rest of the cycle
+   */
+  protected recordFailure(result: UpdateResult<P>, error: unknown): void {
+    result.status = 'failed';
+    result.error = error instanceof Error ? error.message : String(error);
+
+    this.logger.error(`Update failed for ${result.key}`, { error: result.error });
+    this.metrics.increment('oracle.item_error', { 
+      type: this.getOracleType(),
+      key: result.key
+    });
+  }
+
   /**
    * Fetch data with retry logic
    */
-  private async fetchDataWithRetry(): Promise<OracleData<T>[]> {
+  private async fetchDataWithRetry(keys?: string[]): Promise<OracleData<T>[]> {
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= this.config.retryAttempts; attempt++) {
       try {
         this.logger.debug(`Fetching data (attempt ${attempt}/${this.config.retryAttempts})`);
-        return await this.fetchData();
+        return await this.fetchData(keys);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
         this.logger.warn(`Fetch attempt ${attempt} failed`, { error: lastError.message });
@@ -0,0 +1,131 @@
+import cron, { ScheduledTask } from 'node-cron';
+import {
+  TriggerSchedule,
+  UpdateTrigger,
+  Logger,
+  MetricsCollector,
+  ConfigurationError
+} from '@/types';
+
+export type UpdateRunner = (trigger: UpdateTrigger, keys?: string[]) => Promise<void>;
+
+/**
+ * Fires update cycles from interval and cron schedules and from live
+ * deviation signals. The runner keeps cycles from overlapping.
+ */
+export class TriggerEngine {
+  private schedules: TriggerSchedule[];
+  private run: UpdateRunner;
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private running: boolean = false;
+  private timers: Map<number, NodeJS.Timeout> = new Map();
+  private cronTasks: ScheduledTask[] = [];
+  private lastDeviationTrigger: Map<string, number> = new Map();
+
+  constructor(
+    schedules: TriggerSchedule[],
+    run: UpdateRunner,
+    logger: Logger,
+    metrics: MetricsCollector
+  ) {
+    for (const schedule of schedules) {
+      TriggerEngine.validateSchedule(schedule);
+    }
+
+    this.schedules = schedules;
+    this.run = run;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.schedules.forEach((schedule, index) => {
+      if (schedule.kind === 'interval') {
+        this.scheduleInterval(index, schedule.seconds, schedule.keys);
+      } else if (schedule.kind === 'cron') {
+        this.cronTasks.push(cron.schedule(
+          schedule.expression,
+          () => this.fire('time', schedule.keys, 'cron'),
+          { timezone: schedule.timezone }
+        ));
+      }
+    });
+
+    this.logger.info('Update triggers started', {
+      schedules: this.schedules.map(s => s.kind)
+    });
+  }
+
+  stop(): void {
+    this.running = false;
+
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    for (const task of this.cronTasks) {
+      task.stop();
+    }
+    this.cronTasks = [];
+  }
+
+  /**
+   * Report a live move past the deviation threshold for an item. Runs a
+   * threshold cycle for it if a deviation schedule covers the item and
+   * its cooldown has passed; returns whether a cycle was triggered.
+   */
+  signalDeviation(key: string): boolean {
+    if (!this.running) return false;
+
+    const schedule = this.schedules.find(s => s.kind === 'deviation' && (!s.keys || s.keys.includes(key)));
+    if (!schedule || schedule.kind !== 'deviation') return false;
+
+    const now = Date.now();
+    const last = this.lastDeviationTrigger.get(key) || 0;
+    if (now - last < schedule.cooldown * 1000) return false;
+
+    this.lastDeviationTrigger.set(key, now);
+    this.fire('threshold', [key], 'deviation');
+    return true;
+  }
+
+  private scheduleInterval(index: number, seconds: number, keys?: string[]): void {
+    if (!this.running) return;
+
+    // Wait for the cycle to complete before timing the next one
+    this.timers.set(index, setTimeout(async () => {
+      await this.fire('time', keys, 'interval');
+      this.scheduleInterval(index, seconds, keys);
+    }, seconds * 1000));
+  }
+
+  private async fire(trigger: UpdateTrigger, keys: string[] | undefined, source: string): Promise<void> {
+    this.metrics.increment('oracle.trigger', { trigger, source });
+
+    try {
+      await this.run(trigger, keys);
+    } catch (error) {
+      this.logger.error(`Update triggered by ${source} failed`, {
+        error: error instanceof Error ? error.message : String(error),
+        keys
+      });
+    }
+  }
+
+  private static validateSchedule(schedule: TriggerSchedule): void {
+    if (schedule.kind === 'interval' && !(schedule.seconds > 0)) {
+      throw new ConfigurationError(`Update interval must be positive: ${schedule.seconds}`);
+    }
+    if (schedule.kind === 'cron' && !cron.validate(schedule.expression)) {
+      throw new ConfigurationError(`Invalid cron expression: ${schedule.expression}`);
+    }
+    if (schedule.kind === 'deviation' && !(schedule.cooldown >= 0)) {
+      throw new ConfigurationError(`Deviation cooldown must not be negative: ${schedule.cooldown}`);
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { PriceCircuitBreaker } from './CircuitBreaker';
+import { AggregatedPriceData, Logger, MetricsCollector } from '@/types';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+function aggregate(price: number): AggregatedPriceData {
+  return {
+    base: 'TON', quote: 'USD', price, timestamp: Date.now(), sources: ['a', 'b'], sourceCount: 2,
+    standardDeviation: 0, confidence: 90, outliers: []
+  };
+}
+
+describe('PriceCircuitBreaker', () => {
+  beforeEach(() => jest.useFakeTimers().setSystemTime(1_700_000_000_000));
+  afterEach(() => jest.useRealTimers());
+
+  it('counts only confirmations spaced by confirmationSpacing', () => {
+    const breaker = new PriceCircuitBreaker(
+      { maxPriceChange: 10, confirmationCycles: 3, confirmationSpacing: 300 },
+      logger,
+      metrics
+    );
+
+    expect(breaker.evaluate('TON/USD', 5, aggregate(6)).allow).toBe(false);
+
+    // Stream-triggered cycles seconds apart don't confirm the move
+    for (let i = 0; i < 10; i++) {
+      jest.advanceTimersByTime(5000);
+      expect(breaker.evaluate('TON/USD', 5, aggregate(6)).allow).toBe(false);
+    }
+    expect(breaker.getStates()['TON/USD'].confirmations).toBe(1);
+
+    jest.advanceTimersByTime(300_000);
+    expect(breaker.evaluate('TON/USD', 5, aggregate(6)).allow).toBe(false);
+    jest.advanceTimersByTime(300_000);
+    expect(breaker.evaluate('TON/USD', 5, aggregate(6)).allow).toBe(true);
+    expect(breaker.getStates()['TON/USD'].state).toBe('closed');
+  });
+
+  it('restarts confirmation when the held price moves again', () => {
+    const breaker = new PriceCircuitBreaker({ maxPriceChange: 10, confirmationCycles: 2, confirmationSpacing: 60 }, logger, metrics);
+
+    breaker.evaluate('TON/USD', 5, aggregate(6));
+    jest.advanceTimersByTime(60_000);
+    expect(breaker.evaluate('TON/USD', 5, aggregate(8)).allow).toBe(false);
+    expect(breaker.getStates()['TON/USD'].confirmations).toBe(1);
+
+    jest.advanceTimersByTime(60_000);
+    expect(breaker.evaluate('TON/USD', 5, aggregate(8)).allow).toBe(true);
+  });
+});
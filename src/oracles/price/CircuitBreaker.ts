@@ -0,0 +1,142 @@
+import {
+  AggregatedPriceData,
+  CircuitBreakerConfig,
+  CircuitBreakerState,
+  Logger,
+  MetricsCollector
+} from '@/types';
+
+export interface BreakerDecision {
+  allow: boolean;
+  reason?: string;
+}
+
+/**
+ * Holds back aggregates that move too far from the last published price
+ * until the move is confirmed by later cycles or enough agreeing sources.
+ * Cycles closer together than confirmationSpacing (stream or deviation
+ * triggered ones) update the held price but don't count as confirmations.
+ */
+export class PriceCircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private states: Map<string, CircuitBreakerState> = new Map();
+
+  constructor(config: CircuitBreakerConfig, logger: Logger, metrics: MetricsCollector) {
+    this.config = config;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  evaluate(
+    pairKey: string,
+    lastPublishedPrice: number | undefined,
+    aggregate: AggregatedPriceData
+  ): BreakerDecision {
+    const state = this.getOrCreateState(pairKey);
+    state.lastPublishedPrice = lastPublishedPrice;
+
+    if (lastPublishedPrice === undefined) {
+      return this.close(pairKey, state);
+    }
+
+    const change = this.percentChange(lastPublishedPrice, aggregate.price);
+    if (change <= this.config.maxPriceChange) {
+      if (state.state === 'tripped') {
+        this.logger.info(`Circuit breaker reset for ${pairKey}, price returned within limit`, { change });
+      }
+      return this.close(pairKey, state);
+    }
+
+    if (state.state === 'closed') {
+      state.state = 'tripped';
+      state.trippedAt = Date.now();
+      state.candidatePrice = aggregate.price;
+      state.change = change;
+      state.confirmations = 1;
+      state.lastConfirmedAt = Date.now();
+      state.tripCount++;
+
+      this.logger.warn(`Circuit breaker tripped for ${pairKey}`, {
+        lastPublishedPrice,
+        price: aggregate.price,
+        change
+      });
+      this.metrics.increment('price_oracle.circuit_breaker_trip', { pair: pairKey });
+
+    } else if (this.percentChange(state.candidatePrice!, aggregate.price) <= this.config.maxPriceChange) {
+      if (Date.now() - state.lastConfirmedAt! >= (this.config.confirmationSpacing ?? 0) * 1000) {
+        state.confirmations++;
+        state.lastConfirmedAt = Date.now();
+      }
+      state.candidatePrice = aggregate.price;
+      state.change = change;
+
+    } else {
+      // The price moved again, restart confirmation from the new level
+      state.candidatePrice = aggregate.price;
+      state.change = change;
+      state.confirmations = 1;
+      state.lastConfirmedAt = Date.now();
+    }
+
+    this.metrics.gauge('price_oracle.circuit_breaker_tripped', 1, { pair: pairKey });
+
+    if (state.confirmations >= this.config.confirmationCycles || this.confirmedBySources(aggregate)) {
+      this.logger.info(`Circuit breaker confirmed move for ${pairKey}, resuming publication`, {
+        confirmations: state.confirmations,
+        sources: aggregate.sourceCount,
+        change
+      });
+      this.metrics.increment('price_oracle.circuit_breaker_resume', { pair: pairKey });
+      return this.close(pairKey, state);
+    }
+
+    return {
+      allow: false,
+      reason: `Circuit breaker tripped: ${change.toFixed(2)}% move exceeds ${this.config.maxPriceChange}% ` +
+        `(${state.confirmations}/${this.config.confirmationCycles} confirmations)`
+    };
+  }
+
+  getStates(): Record<string, CircuitBreakerState> {
+    const states: Record<string, CircuitBreakerState> = {};
+    for (const [pairKey, state] of this.states) {
+      states[pairKey] = { ...state };
+    }
+    return states;
+  }
+
+  private confirmedBySources(aggregate: AggregatedPriceData): boolean {
+    const minSources = this.config.minConfirmingSources;
+    return minSources !== undefined
+      && aggregate.sourceCount >= minSources
+      && aggregate.outliers.length === 0;
+  }
+
+  private close(pairKey: string, state: CircuitBreakerState): BreakerDecision {
+    state.state = 'closed';
+    state.candidatePrice = undefined;
+    state.change = undefined;
+    state.confirmations = 0;
+    state.lastConfirmedAt = undefined;
+    state.trippedAt = undefined;
+
+    this.metrics.gauge('price_oracle.circuit_breaker_tripped', 0, { pair: pairKey });
+    return { allow: true };
+  }
+
+  private getOrCreateState(pairKey: string): CircuitBreakerState {
+    let state = this.states.get(pairKey);
+    if (!state) {
+      state = { state: 'closed', confirmations: 0, tripCount: 0 };
+      this.states.set(pairKey, state);
+    }
+    return state;
+  }
+
+  private percentChange(from: number, to: number): number {
+    return Math.abs((to - from) / from) * 100;
+  }
+}
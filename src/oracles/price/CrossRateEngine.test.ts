@@ -0,0 +1,134 @@
+import { CrossRateEngine } from './CrossRateEngine';
+import { AggregatedPriceData, ConfigurationError, CrossRateLeg, TradingPair, ValidationError } from '@/types';
+
+function pair(key: string, derivation?: CrossRateLeg[], overrides: Partial<TradingPair> = {}): TradingPair {
+  const [base, quote] = key.split('/');
+  return {
+    base,
+    quote,
+    symbol: `${base}${quote}`,
+    isActive: true,
+    minPrice: 0.000001,
+    maxPrice: 1_000_000,
+    decimalPlaces: 9,
+    derivation,
+    ...overrides
+  };
+}
+
+function aggregate(key: string, price: number, fields: Partial<AggregatedPriceData> = {}): AggregatedPriceData {
+  const [base, quote] = key.split('/');
+  return {
+    base,
+    quote,
+    price,
+    timestamp: 1_700_000_000_000,
+    sources: ['pyth'],
+    sourceCount: 3,
+    standardDeviation: 0,
+    confidence: 100,
+    outliers: [],
+    ...fields
+  };
+}
+
+const TON_BTC = pair('TON/BTC', [{ pair: 'TON/USD' }, { pair: 'BTC/USD', invert: true }]);
+
+describe('CrossRateEngine', () => {
+  describe('on construction', () => {
+    it('rejects a cyclic derivation', () => {
+      expect(() => new CrossRateEngine([
+        pair('TON/USD', [{ pair: 'TON/EUR' }, { pair: 'EUR/USD' }]),
+        pair('TON/EUR', [{ pair: 'TON/USD' }, { pair: 'EUR/USD', invert: true }]),
+        pair('EUR/USD')
+      ])).toThrow('Cyclic derivation: TON/USD -> TON/EUR -> TON/USD');
+    });
+
+    it('rejects a leg that is not a supported pair', () => {
+      expect(() => new CrossRateEngine([pair('TON/USD'), TON_BTC]))
+        .toThrow('Derivation of TON/BTC uses unsupported pair BTC/USD');
+    });
+
+    it('rejects an active pair derived from an inactive one', () => {
+      expect(() => new CrossRateEngine([pair('TON/USD'), pair('BTC/USD', undefined, { isActive: false }), TON_BTC]))
+        .toThrow('Derivation of TON/BTC uses inactive pair BTC/USD');
+    });
+
+    it('rejects legs that do not chain from base to quote', () => {
+      const unchained = pair('TON/BTC', [{ pair: 'TON/USD' }, { pair: 'BTC/USD' }]);
+      expect(() => new CrossRateEngine([pair('TON/USD'), pair('BTC/USD'), unchained]))
+        .toThrow('Derivation of TON/BTC breaks at BTC/USD: expected USD, got BTC');
+
+      const shortChain = pair('TON/BTC', [{ pair: 'TON/USD' }]);
+      expect(() => new CrossRateEngine([pair('TON/USD'), shortChain]))
+        .toThrow('Derivation of TON/BTC ends in USD instead of BTC');
+
+      expect(() => new CrossRateEngine([pair('TON/BTC', [])])).toThrow(ConfigurationError);
+    });
+
+    it('orders derived pairs after the derived pairs they use', () => {
+      const tonEur = pair('TON/EUR', [{ pair: 'TON/BTC' }, { pair: 'BTC/EUR' }]);
+      const engine = new CrossRateEngine([tonEur, pair('TON/USD'), pair('BTC/USD'), pair('BTC/EUR'), TON_BTC]);
+
+      expect(engine.getDerivedPairs().map(p => `${p.base}/${p.quote}`)).toEqual(['TON/BTC', 'TON/EUR']);
+      expect(engine.resolve(['TON/EUR'])).toEqual(['TON/USD', 'BTC/USD', 'TON/BTC', 'BTC/EUR', 'TON/EUR']);
+    });
+  });
+
+  describe('derive', () => {
+    const engine = new CrossRateEngine([pair('TON/USD'), pair('BTC/USD'), TON_BTC]);
+
+    it('multiplies the legs, inverting where told', () => {
+      const legs = new Map([
+        ['TON/USD', aggregate('TON/USD', 5)],
+        ['BTC/USD', aggregate('BTC/USD', 50_000)]
+      ]);
+
+      const derived = engine.derive(TON_BTC, legs);
+      expect(derived.price).toBeCloseTo(0.0001, 12);
+      expect(derived.derivedFrom).toEqual(['TON/USD', 'BTC/USD']);
+    });
+
+    it('multiplies confidences and takes the oldest leg timestamp and smallest source count', () => {
+      const legs = new Map([
+        ['TON/USD', aggregate('TON/USD', 5, { confidence: 90, timestamp: 1_700_000_005_000, sources: ['pyth', 'binance'] })],
+        ['BTC/USD', aggregate('BTC/USD', 50_000, { confidence: 80, timestamp: 1_700_000_001_000, sourceCount: 2 })]
+      ]);
+
+      const derived = engine.derive(TON_BTC, legs);
+      expect(derived.confidence).toBeCloseTo(72, 10);
+      expect(derived.timestamp).toBe(1_700_000_001_000);
+      expect(derived.sourceCount).toBe(2);
+      expect(derived.sources).toEqual(['pyth', 'binance']);
+    });
+
+    it('adds relative deviations in quadrature', () => {
+      const legs = new Map([
+        ['TON/USD', aggregate('TON/USD', 5, { standardDeviation: 0.15 })],
+        ['BTC/USD', aggregate('BTC/USD', 50_000, { standardDeviation: 2000 })]
+      ]);
+
+      const derived = engine.derive(TON_BTC, legs);
+      expect(derived.standardDeviation / derived.price).toBeCloseTo(0.05, 10);
+    });
+
+    it('fails when a leg has no aggregate this cycle', () => {
+      const legs = new Map([['TON/USD', aggregate('TON/USD', 5)]]);
+
+      expect(() => engine.derive(TON_BTC, legs)).toThrow(ValidationError);
+      expect(() => engine.derive(TON_BTC, legs)).toThrow('Missing leg BTC/USD for TON/BTC');
+    });
+
+    it("holds the derived price to the pair's range", () => {
+      const bounded = pair('TON/BTC', TON_BTC.derivation, { minPrice: 0.00005, maxPrice: 0.0002 });
+      const derive = (btc: number) => engine.derive(bounded, new Map([
+        ['TON/USD', aggregate('TON/USD', 5)],
+        ['BTC/USD', aggregate('BTC/USD', btc)]
+      ]));
+
+      expect(derive(50_000).price).toBeCloseTo(0.0001, 12);
+      expect(() => derive(500_000)).toThrow(/^Derived price out of range for TON\/BTC: .* \(valid: 0.00005-0.0002\)$/);
+      expect(() => derive(5_000)).toThrow(ValidationError);
+    });
+  });
+});
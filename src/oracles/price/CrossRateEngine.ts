@@ -0,0 +1,163 @@
+import { AggregatedPriceData, TradingPair, ConfigurationError, ValidationError } from '@/types';
+
+/**
+ * Derives pairs no source quotes directly from other pairs' aggregates.
+ * The derivation graph is checked on construction: every leg must be a
+ * supported pair, legs must chain from the pair's base to its quote, and
+ * derivations must not depend on themselves.
+ */
+export class CrossRateEngine {
+  private pairs: Map<string, TradingPair> = new Map();
+  private order: TradingPair[] = [];
+
+  constructor(pairs: TradingPair[]) {
+    for (const pair of pairs) {
+      this.pairs.set(CrossRateEngine.key(pair), pair);
+    }
+
+    for (const pair of pairs) {
+      if (pair.derivation) {
+        this.validateLegs(pair);
+      }
+    }
+
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+    for (const pair of pairs) {
+      this.visit(pair, visiting, visited, []);
+    }
+  }
+
+  isDerived(pairKey: string): boolean {
+    return !!this.pairs.get(pairKey)?.derivation;
+  }
+
+  /**
+   * Derived pairs, each after the derived pairs it depends on
+   */
+  getDerivedPairs(): TradingPair[] {
+    return [...this.order];
+  }
+
+  /**
+   * Every pair the given pairs need, themselves included, legs first
+   */
+  resolve(pairKeys: string[]): string[] {
+    const resolved = new Set<string>();
+
+    const add = (pairKey: string) => {
+      if (resolved.has(pairKey)) return;
+      for (const leg of this.pairs.get(pairKey)?.derivation || []) {
+        add(leg.pair);
+      }
+      resolved.add(pairKey);
+    };
+
+    pairKeys.forEach(add);
+    return Array.from(resolved);
+  }
+
+  /**
+   * Multiply the legs' aggregates. Confidence is the product of the legs'
+   * confidences, the timestamp is the oldest leg's, and relative deviations
+   * add in quadrature. A result outside the pair's price range is rejected,
+   * as a direct pair's source prices would be.
+   */
+  derive(pair: TradingPair, legs: Map<string, AggregatedPriceData>): AggregatedPriceData {
+    const pairKey = CrossRateEngine.key(pair);
+    let price = 1;
+    let confidence = 1;
+    let relativeVariance = 0;
+    let timestamp = Infinity;
+    let sourceCount = Infinity;
+    const sources = new Set<string>();
+
+    for (const leg of pair.derivation || []) {
+      const data = legs.get(leg.pair);
+      if (!data) {
+        throw new ValidationError(`Missing leg ${leg.pair} for ${pairKey}`, { pair: pairKey });
+      }
+
+      price *= leg.invert ? 1 / data.price : data.price;
+      confidence *= data.confidence / 100;
+      relativeVariance += Math.pow(data.standardDeviation / data.price, 2);
+      timestamp = Math.min(timestamp, data.timestamp);
+      sourceCount = Math.min(sourceCount, data.sourceCount);
+      data.sources.forEach(source => sources.add(source));
+    }
+
+    if (price < pair.minPrice || price > pair.maxPrice) {
+      throw new ValidationError(
+        `Derived price out of range for ${pairKey}: ${price} (valid: ${pair.minPrice}-${pair.maxPrice})`,
+        { pair: pairKey, price }
+      );
+    }
+
+    return {
+      base: pair.base,
+      quote: pair.quote,
+      price,
+      timestamp,
+      sources: Array.from(sources),
+      sourceCount,
+      standardDeviation: price * Math.sqrt(relativeVariance),
+      confidence: confidence * 100,
+      outliers: [],
+      derivedFrom: (pair.derivation || []).map(leg => leg.pair)
+    };
+  }
+
+  private validateLegs(pair: TradingPair): void {
+    const pairKey = CrossRateEngine.key(pair);
+    if (pair.derivation!.length === 0) {
+      throw new ConfigurationError(`Empty derivation for ${pairKey}`);
+    }
+
+    // Walk the units: each leg must start in the previous leg's quote
+    let unit = pair.base;
+    for (const leg of pair.derivation!) {
+      const legPair = this.pairs.get(leg.pair);
+      if (!legPair) {
+        throw new ConfigurationError(`Derivation of ${pairKey} uses unsupported pair ${leg.pair}`);
+      }
+      if (!legPair.isActive && pair.isActive) {
+        throw new ConfigurationError(`Derivation of ${pairKey} uses inactive pair ${leg.pair}`);
+      }
+
+      const [from, to] = leg.invert ? [legPair.quote, legPair.base] : [legPair.base, legPair.quote];
+      if (from !== unit) {
+        throw new ConfigurationError(
+          `Derivation of ${pairKey} breaks at ${leg.pair}${leg.invert ? ' (inverted)' : ''}: expected ${unit}, got ${from}`
+        );
+      }
+      unit = to;
+    }
+
+    if (unit !== pair.quote) {
+      throw new ConfigurationError(`Derivation of ${pairKey} ends in ${unit} instead of ${pair.quote}`);
+    }
+  }
+
+  private visit(pair: TradingPair, visiting: Set<string>, visited: Set<string>, path: string[]): void {
+    const pairKey = CrossRateEngine.key(pair);
+    if (visited.has(pairKey)) return;
+    if (visiting.has(pairKey)) {
+      throw new ConfigurationError(`Cyclic derivation: ${[...path, pairKey].join(' -> ')}`);
+    }
+
+    visiting.add(pairKey);
+    for (const leg of pair.derivation || []) {
+      this.visit(this.pairs.get(leg.pair)!, visiting, visited, [...path, pairKey]);
+    }
+    visiting.delete(pairKey);
+    visited.add(pairKey);
+
+    if (pair.derivation) {
+      this.order.push(pair);
+    }
+  }
+
+  private static key(pair: TradingPair): string {
+    return `${pair.base}/${pair.quote}`;
+  }
+}
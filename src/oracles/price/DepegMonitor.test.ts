@@ -0,0 +1,109 @@
+import { DepegMonitor } from './DepegMonitor';
+import { AggregatedPriceData, DepegConfig, Logger, MetricsCollector, PriceData } from '@/types';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+const config: DepegConfig = {
+  assets: ['USDT', 'usdc'],
+  warningThreshold: 0.5,
+  criticalThreshold: 2,
+  action: 'reduce_confidence'
+};
+
+function aggregate(pairKey: string, price: number, confidence = 90): AggregatedPriceData {
+  const [base, quote] = pairKey.split('/');
+  return {
+    base, quote, price, timestamp: 0, sources: ['pyth'], sourceCount: 2, standardDeviation: 0, confidence, outliers: []
+  };
+}
+
+function point(source: string, price: number): PriceData {
+  return { base: 'USDT', quote: 'USD', price, timestamp: 0, source };
+}
+
+describe('DepegMonitor', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('watches the configured stablecoins against USD', () => {
+    const monitor = new DepegMonitor(config, logger, metrics);
+
+    expect(monitor.getAssets()).toEqual(['USDT', 'USDC']);
+    expect(monitor.isPegPair('USDT/USD')).toBe(true);
+    expect(monitor.isPegPair('USDT/EUR')).toBe(false);
+    expect(monitor.isPegPair('TON/USD')).toBe(false);
+  });
+
+  it('moves through the bands and alerts on each change', () => {
+    const monitor = new DepegMonitor(config, logger, metrics);
+
+    monitor.update(aggregate('USDT/USD', 0.999), [point('binance', 0.999)]);
+    expect(monitor.getStatus().USDT.state).toBe('normal');
+    expect(metrics.increment).not.toHaveBeenCalledWith('price_oracle.depeg_alert', expect.anything());
+
+    monitor.update(aggregate('USDT/USD', 0.993), [point('binance', 0.99), point('kraken', 0.996)]);
+    expect(monitor.getStatus().USDT).toMatchObject({ state: 'warning', price: 0.993 });
+    expect(logger.warn).toHaveBeenCalledWith('USDT drifting off its peg', expect.objectContaining({ deviation: '0.700%' }));
+
+    monitor.update(aggregate('USDT/USD', 0.97), [point('binance', 0.96), point('kraken', 0.98)]);
+    const critical = monitor.getStatus().USDT;
+    expect(critical.state).toBe('critical');
+    expect(critical.deviation).toBeCloseTo(3, 10);
+    expect(critical.sourceDeviations.binance).toBeCloseTo(4, 10);
+    expect(critical.sourceDeviations.kraken).toBeCloseTo(2, 10);
+    expect(logger.error).toHaveBeenCalledWith('USDT depegged past the critical band', expect.anything());
+
+    monitor.update(aggregate('USDT/USD', 1.001), [point('binance', 1.001)]);
+    expect(monitor.getStatus().USDT.state).toBe('normal');
+    expect(logger.info).toHaveBeenCalledWith('USDT back on its peg', expect.anything());
+
+    for (const state of ['warning', 'critical', 'normal']) {
+      expect(metrics.increment).toHaveBeenCalledWith('price_oracle.depeg_alert', { asset: 'USDT', state });
+    }
+    expect(monitor.getStatus().USDC.state).toBe('unknown');
+  });
+
+  it('flags dependent pairs with reduced confidence per critical stablecoin', () => {
+    const monitor = new DepegMonitor({ ...config, confidencePenalty: 0.4 }, logger, metrics);
+    monitor.update(aggregate('USDT/USD', 0.95), []);
+    monitor.update(aggregate('USDC/USD', 1.03), []);
+
+    const one = monitor.apply('TON/USD', aggregate('TON/USD', 5), ['USDT']);
+    expect(one.reason).toBeUndefined();
+    expect(one.data).toMatchObject({ price: 5, depegged: ['USDT'] });
+    expect(one.data.confidence).toBeCloseTo(36, 10);
+
+    const both = monitor.apply('TON/USD', aggregate('TON/USD', 5), ['USDT', 'USDC', 'USDT']);
+    expect(both.data.depegged).toEqual(['USDT', 'USDC']);
+    expect(both.data.confidence).toBeCloseTo(90 * 0.4 * 0.4, 10);
+    expect(metrics.increment).toHaveBeenCalledWith('price_oracle.depeg_action', {
+      pair: 'TON/USD',
+      asset: 'USDC',
+      action: 'reduce_confidence'
+    });
+  });
+
+  it('halts dependent pairs when configured to', () => {
+    const monitor = new DepegMonitor({ ...config, action: 'halt' }, logger, metrics);
+    monitor.update(aggregate('USDT/USD', 0.95), []);
+
+    const held = monitor.apply('TON/USD', aggregate('TON/USD', 5), ['USDT']);
+    expect(held.reason).toBe('Depegged stablecoin: USDT 5.00%');
+    expect(held.data).toMatchObject({ confidence: 90, depegged: ['USDT'] });
+  });
+
+  it('leaves pairs alone while their stablecoins are only drifting', () => {
+    const monitor = new DepegMonitor({ ...config, action: 'halt' }, logger, metrics);
+    monitor.update(aggregate('USDT/USD', 0.99), []);
+    const data = aggregate('TON/USD', 5);
+
+    expect(monitor.apply('TON/USD', data, ['USDT', 'USDC'])).toEqual({ data });
+  });
+
+  it('rejects inverted bands and an out-of-range penalty', () => {
+    expect(() => new DepegMonitor({ ...config, criticalThreshold: 0.1 }, logger, metrics))
+      .toThrow('Invalid depeg bands: warning 0.5%, critical 0.1%');
+    expect(() => new DepegMonitor({ ...config, confidencePenalty: 1.5 }, logger, metrics))
+      .toThrow('Depeg confidence penalty must be within [0, 1]: 1.5');
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  AggregatedPriceData,
+  DepegConfig,
+  PegState,
+  PegStatus,
+  PriceData,
+  Logger,
+  MetricsCollector,
+  ConfigurationError
+} from '@/types';
+
+const PEG_QUOTE = 'USD';
+const DEFAULT_CONFIDENCE_PENALTY = 0.5;
+const STATE_LEVELS: Record<PegState, number> = { unknown: -1, normal: 0, warning: 1, critical: 2 };
+
+/**
+ * Tracks how far each watched stablecoin trades from $1, from the oracle's
+ * own ASSET/USD aggregates. Pairs that depend on a stablecoin past the
+ * critical band are published with reduced confidence or held back.
+ */
+export class DepegMonitor {
+  private config: DepegConfig;
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private pegs: Map<string, PegStatus> = new Map();
+
+  constructor(config: DepegConfig, logger: Logger, metrics: MetricsCollector) {
+    if (!(config.warningThreshold > 0) || config.criticalThreshold < config.warningThreshold) {
+      throw new ConfigurationError(
+        `Invalid depeg bands: warning ${config.warningThreshold}%, critical ${config.criticalThreshold}%`
+      );
+    }
+    const penalty = config.confidencePenalty ?? DEFAULT_CONFIDENCE_PENALTY;
+    if (penalty < 0 || penalty > 1) {
+      throw new ConfigurationError(`Depeg confidence penalty must be within [0, 1]: ${penalty}`);
+    }
+
+    this.config = config;
+    this.logger = logger;
+    this.metrics = metrics;
+
+    for (const asset of config.assets) {
+      this.pegs.set(asset.toUpperCase(), { asset: asset.toUpperCase(), state: 'unknown', sourceDeviations: {} });
+    }
+  }
+
+  getAssets(): string[] {
+    return Array.from(this.pegs.keys());
+  }
+
+  /**
+   * Whether the pair prices a watched stablecoin against the peg
+   */
+  isPegPair(pairKey: string): boolean {
+    const [base, quote] = pairKey.split('/');
+    return quote === PEG_QUOTE && this.pegs.has(base);
+  }
+
+  /**
+   * Update a stablecoin's peg from its pair's aggregate and the points
+   * that went into it
+   */
+  update(aggregate: AggregatedPriceData, points: PriceData[]): void {
+    const peg = this.pegs.get(aggregate.base);
+    if (!peg) return;
+
+    const sourceDeviations: Record<string, number> = {};
+    for (const point of points) {
+      sourceDeviations[point.source] = this.deviation(point.price);
+    }
+
+    const deviation = this.deviation(aggregate.price);
+    const state = this.classify(deviation);
+    const previous = peg.state;
+
+    peg.price = aggregate.price;
+    peg.deviation = deviation;
+    peg.sourceDeviations = sourceDeviations;
+    peg.updatedAt = Date.now();
+
+    this.metrics.gauge('price_oracle.peg_deviation', deviation, { asset: peg.asset });
+    this.metrics.gauge('price_oracle.peg_state', STATE_LEVELS[state], { asset: peg.asset });
+
+    if (state === previous) return;
+    peg.state = state;
+    peg.since = Date.now();
+
+    const context = { price: aggregate.price, deviation: `${deviation.toFixed(3)}%`, sources: sourceDeviations };
+    if (state === 'critical') {
+      this.logger.error(`${peg.asset} depegged past the critical band`, context);
+    } else if (state === 'warning') {
+      this.logger.warn(`${peg.asset} drifting off its peg`, context);
+    } else if (previous !== 'unknown') {
+      this.logger.info(`${peg.asset} back on its peg`, context);
+    }
+
+    if (previous !== 'unknown' || state !== 'normal') {
+      this.metrics.increment('price_oracle.depeg_alert', { asset: peg.asset, state });
+    }
+  }
+
+  /**
+   * Apply the configured action when any of the stablecoins a pair
+   * depends on is critical. Returns a reason when the pair must be held.
+   */
+  apply(pairKey: string, data: AggregatedPriceData, assets: Iterable<string>): { data: AggregatedPriceData; reason?: string } {
+    const critical = Array.from(new Set(assets))
+      .map(asset => this.pegs.get(asset))
+      .filter((peg): peg is PegStatus => peg?.state === 'critical');
+    if (critical.length === 0) {
+      return { data };
+    }
+
+    const flagged = { ...data, depegged: critical.map(peg => peg.asset) };
+    for (const peg of critical) {
+      this.metrics.increment('price_oracle.depeg_action', { pair: pairKey, asset: peg.asset, action: this.config.action });
+    }
+
+    if (this.config.action === 'halt') {
+      const detail = critical.map(peg => `${peg.asset} ${peg.deviation!.toFixed(2)}%`).join(', ');
+      return { data: flagged, reason: `Depegged stablecoin: ${detail}` };
+    }
+
+    const penalty = Math.pow(this.config.confidencePenalty ?? DEFAULT_CONFIDENCE_PENALTY, critical.length);
+    return { data: { ...flagged, confidence: data.confidence * penalty } };
+  }
+
+  getStatus(): Record<string, PegStatus> {
+    const status: Record<string, PegStatus> = {};
+    for (const [asset, peg] of this.pegs) {
+      status[asset] = { ...peg, sourceDeviations: { ...peg.sourceDeviations } };
+    }
+    return status;
+  }
+
+  private deviation(price: number): number {
+    return Math.abs(price - 1) * 100;
+  }
+
+  private classify(deviation: number): PegState {
+    if (deviation >= this.config.criticalThreshold) return 'critical';
+    if (deviation >= this.config.warningThreshold) return 'warning';
+    return 'normal';
+  }
+}
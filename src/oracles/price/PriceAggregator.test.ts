@@ -0,0 +1,108 @@
+import { PriceAggregator } from './PriceAggregator';
+import { PriceData, ValidationError } from '@/types';
+
+function quotes(prices: number[], volumes: number[] = []): PriceData[] {
+  return prices.map((price, i) => ({
+    base: 'TON',
+    quote: 'USD',
+    price,
+    timestamp: 1_700_000_000_000,
+    source: `source${i}`,
+    volume24h: volumes[i]
+  }));
+}
+
+describe('PriceAggregator', () => {
+  const aggregator = new PriceAggregator({ outlierThreshold: 3, trimRatio: 0.2 });
+
+  describe('a single outlier', () => {
+    const data = quotes([5.01, 5.02, 4.99, 5.0, 50]);
+
+    it('is rejected by MAD filtering', () => {
+      const { accepted, outliers } = aggregator.removeOutliers('mad', data);
+      expect(outliers.map(d => d.price)).toEqual([50]);
+      expect(accepted).toHaveLength(4);
+    });
+
+    it('barely moves the median and trimmed mean', () => {
+      expect(aggregator.aggregate('median', data)).toBe(5.01);
+      expect(aggregator.aggregate('trimmed_mean', data)).toBeCloseTo(5.01, 2);
+      expect(aggregator.aggregate('average', data)).toBeGreaterThan(14);
+    });
+
+    it('is not caught by the z-score with three sources, where MAD still catches it', () => {
+      const three = quotes([5.0, 5.01, 7.5]);
+      expect(aggregator.removeOutliers('zscore', three).outliers).toHaveLength(0);
+      expect(aggregator.removeOutliers('mad', three).outliers.map(d => d.price)).toEqual([7.5]);
+    });
+  });
+
+  describe('a colluding minority', () => {
+    // Two of five sources report the same manipulated price
+    const data = quotes([5.0, 5.01, 5.02, 6.5, 6.5]);
+
+    it('is rejected by MAD filtering', () => {
+      const { accepted, outliers } = aggregator.removeOutliers('mad', data);
+      expect(outliers.map(d => d.price)).toEqual([6.5, 6.5]);
+      expect(accepted.map(d => d.price)).toEqual([5.0, 5.01, 5.02]);
+    });
+
+    it('does not move the median', () => {
+      expect(aggregator.aggregate('median', data)).toBe(5.02);
+    });
+
+    it('cannot move the volume-weighted median without majority volume', () => {
+      const weighted = quotes([5.0, 5.01, 5.02, 6.5, 6.5], [300, 300, 300, 200, 200]);
+      expect(aggregator.aggregate('volume_weighted_median', weighted)).toBe(5.02);
+    });
+  });
+
+  describe('all sources equal', () => {
+    const data = quotes([5, 5, 5, 5]);
+
+    it('keeps every source although the MAD is zero', () => {
+      expect(aggregator.medianAbsoluteDeviation(data.map(d => d.price))).toBe(0);
+      expect(aggregator.removeOutliers('mad', data).outliers).toHaveLength(0);
+      expect(aggregator.removeOutliers('zscore', data).outliers).toHaveLength(0);
+    });
+
+    it('rejects a tiny deviation only beyond the MAD floor', () => {
+      const { outliers } = aggregator.removeOutliers('mad', quotes([5, 5, 5, 5, 5.001]));
+      expect(outliers).toHaveLength(0);
+
+      const far = aggregator.removeOutliers('mad', quotes([5, 5, 5, 5, 5.1]));
+      expect(far.outliers.map(d => d.price)).toEqual([5.1]);
+    });
+
+    it('aggregates to that price with every method', () => {
+      for (const method of ['median', 'average', 'weighted', 'trimmed_mean', 'volume_weighted_median'] as const) {
+        expect(aggregator.aggregate(method, data)).toBe(5);
+      }
+    });
+  });
+
+  describe('too few sources', () => {
+    it('does not filter two sources, since neither can be told apart as wrong', () => {
+      for (const mode of ['mad', 'zscore'] as const) {
+        const { accepted, outliers } = aggregator.removeOutliers(mode, quotes([5, 50]));
+        expect(accepted).toHaveLength(2);
+        expect(outliers).toHaveLength(0);
+      }
+    });
+
+    it('leaves fewer sources than a pair may require once outliers are gone', () => {
+      // A pair requiring three sources cannot be published from what is left
+      const { accepted, outliers } = aggregator.removeOutliers('mad', quotes([5.0, 5.01, 7.5]));
+      expect(outliers).toHaveLength(1);
+      expect(accepted.length).toBeLessThan(3);
+    });
+
+    it('refuses to aggregate an empty set', () => {
+      expect(() => aggregator.aggregate('median', [])).toThrow(ValidationError);
+    });
+  });
+
+  it('rejects a trim ratio that would drop every value', () => {
+    expect(() => new PriceAggregator({ trimRatio: 0.5 })).toThrow(ValidationError);
+  });
+});
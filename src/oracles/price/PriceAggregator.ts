@@ -0,0 +1,209 @@
+import { PriceData, AggregationMethod, OutlierDetectionMode, ValidationError } from '@/types';
+
+// Scales the median absolute deviation to a standard deviation estimate
+// for normally distributed data
+const MAD_SCALE = 1.4826;
+
+// Lower bound on the MAD relative to the median, so that a majority of
+// identical quotes doesn't turn every tiny difference into an outlier
+const MAD_FLOOR_RATIO = 0.0005;
+
+export interface AggregatorOptions {
+  outlierThreshold: number;  // Deviations (standard or scaled MAD) to reject
+  trimRatio: number;         // Share trimmed from each end for trimmed mean
+}
+
+export interface OutlierFilterResult {
+  accepted: PriceData[];
+  outliers: PriceData[];
+}
+
+/**
+ * Statistical building blocks for combining quotes from several sources
+ */
+export class PriceAggregator {
+  private options: AggregatorOptions;
+
+  constructor(options: Partial<AggregatorOptions> = {}) {
+    this.options = {
+      outlierThreshold: options.outlierThreshold ?? 2.0,
+      trimRatio: options.trimRatio ?? 0.2
+    };
+
+    if (this.options.trimRatio < 0 || this.options.trimRatio >= 0.5) {
+      throw new ValidationError(`trimRatio must be in [0, 0.5): ${this.options.trimRatio}`);
+    }
+  }
+
+  /**
+   * Aggregate prices with the given method. Weights are looked up by source
+   * name and only used by the weighted average.
+   */
+  aggregate(
+    method: AggregationMethod,
+    data: PriceData[],
+    weights: Map<string, number> = new Map()
+  ): number {
+    if (data.length === 0) {
+      throw new ValidationError('Cannot aggregate an empty price set');
+    }
+
+    const prices = data.map(d => d.price);
+
+    switch (method) {
+      case 'median':
+        return this.median(prices);
+      case 'weighted':
+        return this.weightedAverage(data, weights);
+      case 'trimmed_mean':
+        return this.trimmedMean(prices);
+      case 'volume_weighted_median':
+        return this.volumeWeightedMedian(data);
+      case 'average':
+        return this.mean(prices);
+      default:
+        throw new ValidationError(`Unknown aggregation method: ${method}`);
+    }
+  }
+
+  /**
+   * Split data into accepted points and rejected outliers
+   */
+  removeOutliers(mode: OutlierDetectionMode, data: PriceData[]): OutlierFilterResult {
+    switch (mode) {
+      case 'none':
+        return { accepted: [...data], outliers: [] };
+      case 'mad':
+        return this.removeOutliersByMad(data);
+      case 'zscore':
+        return this.removeOutliersByZScore(data);
+      default:
+        throw new ValidationError(`Unknown outlier detection mode: ${mode}`);
+    }
+  }
+
+  mean(values: number[]): number {
+    return values.reduce((sum, val) => sum + val, 0) / values.length;
+  }
+
+  median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+
+    if (sorted.length % 2 === 0) {
+      return (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+    return sorted[mid];
+  }
+
+  standardDeviation(values: number[]): number {
+    const mean = this.mean(values);
+    const squaredDiffs = values.map(val => Math.pow(val - mean, 2));
+    return Math.sqrt(this.mean(squaredDiffs));
+  }
+
+  medianAbsoluteDeviation(values: number[]): number {
+    const median = this.median(values);
+    return this.median(values.map(val => Math.abs(val - median)));
+  }
+
+  /**
+   * Mean after dropping the lowest and highest trimRatio share of values.
+   * Falls back to the median when trimming would leave nothing.
+   */
+  trimmedMean(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const trim = Math.floor(sorted.length * this.options.trimRatio);
+    const kept = sorted.slice(trim, sorted.length - trim);
+
+    return kept.length > 0 ? this.mean(kept) : this.median(sorted);
+  }
+
+  weightedAverage(data: PriceData[], weights: Map<string, number>): number {
+    let totalWeight = 0;
+    let weightedSum = 0;
+
+    for (const priceData of data) {
+      const weight = weights.get(priceData.source) ?? 1;
+
+      totalWeight += weight;
+      weightedSum += priceData.price * weight;
+    }
+
+    return totalWeight > 0 ? weightedSum / totalWeight : 0;
+  }
+
+  /**
+   * Price at which cumulative 24h volume reaches half the total. Sources
+   * without volume get no weight; without any volume this is the median.
+   */
+  volumeWeightedMedian(data: PriceData[]): number {
+    const points = data
+      .map(d => ({ price: d.price, volume: d.volume24h && d.volume24h > 0 ? d.volume24h : 0 }))
+      .sort((a, b) => a.price - b.price);
+    const totalVolume = points.reduce((sum, p) => sum + p.volume, 0);
+
+    if (totalVolume === 0) {
+      return this.median(points.map(p => p.price));
+    }
+
+    let cumulative = 0;
+    for (let i = 0; i < points.length; i++) {
+      cumulative += points[i].volume;
+
+      // Exactly half: average with the next price carrying volume
+      if (cumulative === totalVolume / 2) {
+        const next = points.slice(i + 1).find(p => p.volume > 0);
+        return next ? (points[i].price + next.price) / 2 : points[i].price;
+      }
+      if (cumulative > totalVolume / 2) {
+        return points[i].price;
+      }
+    }
+
+    return points[points.length - 1].price;
+  }
+
+  private removeOutliersByZScore(data: PriceData[]): OutlierFilterResult {
+    if (data.length <= 2) return { accepted: [...data], outliers: [] };
+
+    const prices = data.map(d => d.price);
+    const mean = this.mean(prices);
+    const stdDev = this.standardDeviation(prices);
+
+    // All sources agree
+    if (stdDev === 0) return { accepted: [...data], outliers: [] };
+
+    return this.partition(data, d => Math.abs(d.price - mean) / stdDev);
+  }
+
+  private removeOutliersByMad(data: PriceData[]): OutlierFilterResult {
+    if (data.length <= 2) return { accepted: [...data], outliers: [] };
+
+    const prices = data.map(d => d.price);
+    const median = this.median(prices);
+    const mad = Math.max(
+      this.medianAbsoluteDeviation(prices),
+      Math.abs(median) * MAD_FLOOR_RATIO
+    );
+
+    if (mad === 0) return { accepted: [...data], outliers: [] };
+
+    return this.partition(data, d => Math.abs(d.price - median) / (MAD_SCALE * mad));
+  }
+
+  private partition(data: PriceData[], score: (d: PriceData) => number): OutlierFilterResult {
+    const accepted: PriceData[] = [];
+    const outliers: PriceData[] = [];
+
+    for (const d of data) {
+      if (score(d) <= this.options.outlierThreshold) {
+        accepted.push(d);
+      } else {
+        outliers.push(d);
+      }
+    }
+
+    return { accepted, outliers };
+  }
+}
@@ -0,0 +1,279 @@
+import { PriceOracle } from './PriceOracle';
+import { PriceAggregator } from './PriceAggregator';
+import { SourceRegistry } from '@/services/SourceRegistry';
+import { TONClientService } from '@/services/TONClient';
+import { DEFAULT_BATCH_LIMITS, decodePriceBatch, encodePriceBatch, encodePriceUpdate } from '@/contracts/PriceUpdateMessage';
+import {
+  Logger,
+  MetricsCollector,
+  PriceData,
+  PriceOracleConfig,
+  PriceSource,
+  PriceSourceConfig,
+  TradingPair,
+  TransactionMonitor,
+  TransactionRequest,
+  TransactionStatus
+} from '@/types';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+/**
+ * Source quoting the prices in a shared table, keyed 'source:BASE/QUOTE'
+ * or 'BASE/QUOTE' for every source; a missing entry fails the fetch
+ */
+class StubSource implements PriceSource {
+  name: string;
+  isOnline = true;
+  private prices: Record<string, number>;
+
+  constructor(name: string, prices: Record<string, number>) {
+    this.name = name;
+    this.prices = prices;
+  }
+
+  async fetchPrice(base: string, quote: string): Promise<PriceData> {
+    const price = this.prices[`${this.name}:${base}/${quote}`] ?? this.prices[`${base}/${quote}`];
+    if (price === undefined) {
+      throw new Error(`No price for ${base}/${quote}`);
+    }
+    return { base, quote, price, timestamp: Date.now(), source: this.name, confidence: 100 };
+  }
+
+  async fetchMultiplePrices(): Promise<PriceData[]> {
+    return [];
+  }
+
+  async getSupportedPairs(): Promise<TradingPair[]> {
+    return [];
+  }
+
+  supportsPair(): boolean {
+    return true;
+  }
+
+  async getStatus() {
+    return { name: this.name, isOnline: true, lastSuccessfulFetch: 0, errorCount: 0, averageResponseTime: 0 };
+  }
+}
+
+/**
+ * TON client that accepts every transaction and confirms it right away
+ */
+function stubClient() {
+  let sent = 0;
+  return {
+    sendTransaction: jest.fn(async (request: TransactionRequest) => ({
+      hash: `message-${sent++}`,
+      success: true,
+      gasUsed: 0,
+      timestamp: Date.now()
+    })),
+    monitorTransaction: jest.fn(async (hash: string): Promise<TransactionMonitor> => ({
+      hash,
+      status: TransactionStatus.CONFIRMED,
+      confirmations: 1,
+      submittedAt: Date.now(),
+      maxWaitTime: 60000,
+      result: { hash, success: true, gasUsed: 0, timestamp: Date.now(), txHash: `tx-${hash}`, fees: '1000000' }
+    })),
+    createMessageCell: jest.fn(encodePriceUpdate),
+    createBatchMessageCell: jest.fn(encodePriceBatch)
+  };
+}
+
+/**
+ * Oracle whose scheduled cycles the spec runs by hand
+ */
+class TestPriceOracle extends PriceOracle {
+  tick(): Promise<void> {
+    return this.requestUpdate('time');
+  }
+}
+
+function pair(key: string): TradingPair {
+  const [base, quote] = key.split('/');
+  return { base, quote, symbol: `${base}${quote}`, isActive: true, minPrice: 0.0001, maxPrice: 1_000_000, decimalPlaces: 6 };
+}
+
+function source(name: string): PriceSourceConfig {
+  return {
+    name,
+    type: 'stub',
+    enabled: true,
+    weight: 1,
+    rateLimit: 60,
+    timeout: 1000,
+    endpoints: { baseUrl: '', priceEndpoint: '' }
+  };
+}
+
+describe('PriceOracle', () => {
+  let prices: Record<string, number>;
+  let client: ReturnType<typeof stubClient>;
+
+  function oracle(pairs: string[], overrides: Partial<PriceOracleConfig> = {}): TestPriceOracle {
+    const registry = new SourceRegistry();
+    registry.register('stub', config => new StubSource(config.name, prices));
+
+    const config: PriceOracleConfig = {
+      supportedPairs: pairs.map(pair),
+      sources: [source('alpha'), source('beta')],
+      aggregationMethod: 'median',
+      outlierThreshold: 3,
+      minSourcesRequired: 2,
+      maxPriceAge: 300,
+      updateInterval: 60,
+      deviationThreshold: 1,
+      triggers: [{ kind: 'deviation', cooldown: 5 }],
+      contractAddress: 'EQAvlWFDxGF2lXm67y4yzC17wYKD9A0guwPkMs1gOsM__NOT',
+      ...overrides
+    };
+    return new TestPriceOracle(config, client as unknown as TONClientService, logger, metrics, registry);
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prices = {};
+    client = stubClient();
+  });
+
+  it('publishes the other pairs when one pair fails', async () => {
+    prices = { 'TON/USD': 5.5, 'BTC/USD': 65000 };
+    const priceOracle = oracle(['TON/USD', 'ETH/USD', 'BTC/USD']);
+
+    await priceOracle.forceUpdate();
+
+    const { lastCycle, errorCount } = await priceOracle.getStatus();
+    expect(errorCount).toBe(0);
+    expect(Object.fromEntries(lastCycle!.results.map(r => [r.key, r.status]))).toEqual({
+      'TON/USD': 'submitted',
+      'ETH/USD': 'failed',
+      'BTC/USD': 'submitted'
+    });
+    expect(lastCycle!.results.find(r => r.key === 'ETH/USD')!.error).toMatch(/Insufficient data sources for ETH\/USD/);
+    expect(priceOracle.getPublishedPrice('TON', 'USD')!.data.price).toBe(5.5);
+    expect(priceOracle.getPublishedPrice('BTC', 'USD')!.data.price).toBe(65000);
+    expect(priceOracle.getPublishedPrice('ETH', 'USD')).toBeNull();
+  });
+
+  it('sends one transaction per batch and publishes every pair in it', async () => {
+    const pairs = Array.from({ length: DEFAULT_BATCH_LIMITS.maxEntries + 6 }, (_, i) => `T${i}/USD`);
+    pairs.forEach((key, i) => prices[key] = i + 1);
+    const priceOracle = oracle(pairs);
+
+    await priceOracle.forceUpdate();
+
+    expect(client.sendTransaction).toHaveBeenCalledTimes(2);
+    const batches = client.sendTransaction.mock.calls.map(([request]) => decodePriceBatch(request.data!));
+    expect(batches.map(batch => batch.updates.length)).toEqual([DEFAULT_BATCH_LIMITS.maxEntries, 6]);
+    expect(batches[1].queryId).toBe(batches[0].queryId + 1n);
+
+    // Each pair is published with the wallet transaction of its own batch
+    batches.forEach((batch, i) => {
+      for (const update of batch.updates) {
+        const published = priceOracle.getPublishedPrice(update.base, update.quote)!;
+        expect(published.txHash).toBe(`tx-message-${i}`);
+        expect(published.data.price).toBe(update.price);
+      }
+    });
+    expect(priceOracle.getRecentUpdates()).toHaveLength(pairs.length);
+    expect(metrics.histogram).toHaveBeenCalledWith('price_oracle.batch_size', 6);
+  });
+
+  it('aggregates with the adapted source weights', async () => {
+    prices = { 'TON/USD': 5, 'gamma:TON/USD': 5.5 };
+    const priceOracle = oracle(['TON/USD'], {
+      sources: [source('alpha'), source('beta'), source('gamma')],
+      aggregationMethod: 'weighted',
+      adaptiveWeights: {
+        window: 10,
+        minObservations: 2,
+        minWeight: 0.01,
+        maxWeight: 1,
+        deviationScale: 1,
+        latencyScale: 0,
+        stalenessScale: 0
+      }
+    });
+    const weightedAverage = jest.spyOn(PriceAggregator.prototype, 'weightedAverage');
+
+    try {
+      await priceOracle.forceUpdate();
+      await priceOracle.forceUpdate();
+      expect(priceOracle.getPublishedPrice('TON', 'USD')!.data.price).toBeCloseTo(5.5 / 3 + 10 / 3, 10);
+
+      const snapshot = (await priceOracle.getStatus()).sourceWeights['TON/USD'];
+      expect(snapshot.gamma.weight).toBeLessThan(snapshot.alpha.weight);
+
+      await priceOracle.forceUpdate();
+
+      const weights = weightedAverage.mock.calls.at(-1)![1];
+      expect(Object.fromEntries(weights)).toEqual({
+        alpha: snapshot.alpha.weight,
+        beta: snapshot.beta.weight,
+        gamma: snapshot.gamma.weight
+      });
+      expect(priceOracle.getPublishedPrice('TON', 'USD')!.data.price).toBeLessThan(5.5 / 3 + 10 / 3);
+    } finally {
+      weightedAverage.mockRestore();
+    }
+  });
+
+  describe('on a scheduled cycle', () => {
+    let now: number;
+    let priceOracle: TestPriceOracle;
+
+    beforeEach(async () => {
+      now = 1_700_000_000_000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+      prices = { 'TON/USD': 5.5 };
+      priceOracle = oracle(['TON/USD'], { heartbeatInterval: 600 });
+
+      // The first cycle publishes, as nothing is on-chain yet
+      await priceOracle.start();
+      expect(client.sendTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    afterEach(async () => {
+      await priceOracle.stop();
+      jest.restoreAllMocks();
+    });
+
+    const lastTrigger = () => priceOracle.getRecentUpdates().at(-1)!.trigger;
+
+    it('skips a move below the threshold while the heartbeat is not due', async () => {
+      prices['TON/USD'] = 5.52;
+      now += 599_000;
+
+      await priceOracle.tick();
+
+      expect(client.sendTransaction).toHaveBeenCalledTimes(1);
+      expect((await priceOracle.getStatus()).lastCycle!.results[0].status).toBe('skipped');
+      expect(priceOracle.getPublishedPrice('TON', 'USD')!.data.price).toBe(5.5);
+    });
+
+    it('publishes on heartbeat once the last publication is old enough', async () => {
+      prices['TON/USD'] = 5.52;
+      now += 600_000;
+
+      await priceOracle.tick();
+
+      expect(client.sendTransaction).toHaveBeenCalledTimes(2);
+      expect(lastTrigger()).toBe('time');
+      expect(priceOracle.getPublishedPrice('TON', 'USD')).toMatchObject({ data: { price: 5.52 }, publishedAt: now });
+    });
+
+    it('publishes a move past the deviation threshold right away', async () => {
+      prices['TON/USD'] = 5.56;
+      now += 1_000;
+
+      await priceOracle.tick();
+
+      expect(client.sendTransaction).toHaveBeenCalledTimes(2);
+      expect(lastTrigger()).toBe('threshold');
+      expect(priceOracle.getPublishedPrice('TON', 'USD')!.data.price).toBe(5.56);
+    });
+  });
+});
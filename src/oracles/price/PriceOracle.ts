@@ -1,4 +1,12 @@
 import { OracleBase } from '../base/OracleBase';
+import { PriceAggregator } from './PriceAggregator';
+import { PriceSmoother } from './PriceSmoother';
+import { PriceCircuitBreaker } from './CircuitBreaker';
+import { SourceQuarantine } from './SourceQuarantine';
+import { AdaptiveSourceWeights } from './SourceWeighting';
+import { CrossRateEngine } from './CrossRateEngine';
+import { QuoteNormalizer } from './QuoteNormalizer';
+import { DepegMonitor } from './DepegMonitor';
 import { 
   PriceData, 
   AggregatedPriceData, 
@@ -6,26 +14,52 @@ import {
   PriceOracleConfig,
   OracleData,
   ValidationResult,
+  UpdateResult,
   Logger,
   MetricsCollector,
   ValidationError,
-  PriceSource
+  PriceSource,
+  PriceUpdateMessage,
+  PriceOracleStatus,
+  PublishedPrice,
+  PriceUpdate,
+  UpdateTrigger,
+  TransactionStatus,
+  ContractError
 } from '@/types';
+import { Cell } from '@ton/core';
 import { TONClientService } from '@/services/TONClient';
-import { CoinGeckoFetcher, BinanceFetcher, CoinMarketCapFetcher } from '@/services/DataFetcher';
+import { createPriceUpdateMessage, splitPriceBatches } from '@/contracts/PriceUpdateMessage';
+import { SourceRegistry, defaultSourceRegistry } from '@/services/SourceRegistry';
+import { defaultSymbolRegistry } from '@/services/SymbolRegistry';
 
-export class PriceOracle extends OracleBase<PriceData> {
+const MAX_RECENT_UPDATES = 100;
+const STREAM_TRIGGER_COOLDOWN = 5;   // Default seconds between stream-triggered cycles per pair
+
+export class PriceOracle extends OracleBase<PriceData, AggregatedPriceData> {
   private priceConfig: PriceOracleConfig;
   private tonClient: TONClientService;
+  private sourceRegistry: SourceRegistry;
   private dataSources: Map<string, PriceSource> = new Map();
   private supportedPairs: TradingPair[] = [];
-  private lastPrices: Map<string, PriceData> = new Map();
+  private lastPrices: Map<string, PublishedPrice> = new Map();
+  private recentUpdates: PriceUpdate[] = [];
+  private aggregator: PriceAggregator;
+  private smoother: PriceSmoother = new PriceSmoother();
+  private circuitBreaker?: PriceCircuitBreaker;
+  private quarantine?: SourceQuarantine;
+  private sourceWeights?: AdaptiveSourceWeights;
+  private crossRates: CrossRateEngine;
+  private quoteNormalizer?: QuoteNormalizer;
+  private depegMonitor?: DepegMonitor;
+  private latestAggregates: Map<string, AggregatedPriceData> = new Map(); // Last aggregate per pair, published or not
 
   constructor(
     priceConfig: PriceOracleConfig,
     tonClient: TONClientService,
     logger: Logger,
-    metrics: MetricsCollector
+    metrics: MetricsCollector,
+    sourceRegistry: SourceRegistry = defaultSourceRegistry
   ) {
     // Convert PriceOracleConfig to OracleConfig for base class
     const oracleConfig = {
@@ -35,13 +69,47 @@ export class PriceOracle extends OracleBase<PriceData> {
       maxOutlierDeviation: priceConfig.outlierThreshold,
       gasLimit: 1000000,
       retryAttempts: 3,
-      enabled: true
+      enabled: true,
+      triggers: priceConfig.triggers || [
+        { kind: 'interval' as const, seconds: priceConfig.updateInterval },
+        { kind: 'deviation' as const, cooldown: STREAM_TRIGGER_COOLDOWN }
+      ]
     };
 
     super(oracleConfig, logger, metrics);
     this.priceConfig = priceConfig;
     this.tonClient = tonClient;
+    this.sourceRegistry = sourceRegistry;
     this.supportedPairs = priceConfig.supportedPairs;
+    this.crossRates = new CrossRateEngine(priceConfig.supportedPairs);
+    this.aggregator = new PriceAggregator({
+      outlierThreshold: priceConfig.outlierThreshold,
+      trimRatio: priceConfig.trimRatio
+    });
+
+    if (priceConfig.circuitBreaker) {
+      // Only cycles about one update interval apart confirm a move
+      this.circuitBreaker = new PriceCircuitBreaker({
+        ...priceConfig.circuitBreaker,
+        confirmationSpacing: priceConfig.circuitBreaker.confirmationSpacing ?? priceConfig.updateInterval
+      }, logger, metrics);
+    }
+
+    if (priceConfig.quarantine) {
+      this.quarantine = new SourceQuarantine(priceConfig.quarantine, logger, metrics);
+    }
+
+    if (priceConfig.adaptiveWeights) {
+      this.sourceWeights = new AdaptiveSourceWeights(priceConfig.adaptiveWeights);
+    }
+
+    if (priceConfig.quoteNormalization) {
+      this.quoteNormalizer = new QuoteNormalizer(priceConfig.quoteNormalization, logger, metrics);
+    }
+
+    if (priceConfig.depeg) {
+      this.depegMonitor = new DepegMonitor(priceConfig.depeg, logger, metrics);
+    }
     
     this.initializeDataSources();
   }
@@ -51,76 +119,105 @@ export class PriceOracle extends OracleBase<PriceData> {
   }
 
   private initializeDataSources(): void {
-    // Initialize CoinGecko
-    const coinGeckoConfig = this.priceConfig.sources.find(s => s.name === 'coingecko');
-    if (coinGeckoConfig?.enabled) {
-      this.dataSources.set('coingecko', new CoinGeckoFetcher(
-        {
-          baseUrl: 'https://api.coingecko.com/api/v3',
-          apiKey: coinGeckoConfig.apiKey,
-          timeout: 10000,
-          rateLimit: coinGeckoConfig.rateLimit
-        },
-        this.logger,
-        this.metrics
-      ));
-    }
-
-    // Initialize Binance
-    const binanceConfig = this.priceConfig.sources.find(s => s.name === 'binance');
-    if (binanceConfig?.enabled) {
-      this.dataSources.set('binance', new BinanceFetcher(
-        {
-          baseUrl: 'https://api.binance.com/api/v3',
-          apiKey: binanceConfig.apiKey,
-          timeout: 10000,
-          rateLimit: binanceConfig.rateLimit
-        },
-        this.logger,
-        this.metrics
-      ));
-    }
-
-    // Initialize CoinMarketCap
-    const cmcConfig = this.priceConfig.sources.find(s => s.name === 'coinmarketcap');
-    if (cmcConfig?.enabled) {
-      this.dataSources.set('coinmarketcap', new CoinMarketCapFetcher(
-        {
-          baseUrl: 'https://pro-api.coinmarketcap.com',
-          apiKey: cmcConfig.apiKey,
-          timeout: 10000,
-          rateLimit: cmcConfig.rateLimit
-        },
-        this.logger,
-        this.metrics
-      ));
+    this.dataSources = this.sourceRegistry.createAll(this.priceConfig.sources, {
+      logger: this.logger,
+      metrics: this.metrics,
+      tonClient: this.tonClient,
+      symbols: defaultSymbolRegistry,
+      pairs: this.getActivePairs().filter(p => !p.derivation)
+    });
+
+    for (const [sourceName, source] of this.dataSources) {
+      source.onPrice?.(price => this.handleStreamPrice(sourceName, price));
     }
 
     this.logger.info(`Initialized ${this.dataSources.size} data sources`, {
       sources: Array.from(this.dataSources.keys())
     });
+
+    const sources = Array.from(this.dataSources.values());
+    for (const pair of this.getActivePairs()) {
+      if (!pair.derivation && !sources.some(source => source.supportsPair(pair.base, pair.quote))) {
+        this.logger.warn(`No data source has a mapping for ${pair.base}/${pair.quote}`);
+      }
+    }
   }
 
-  async fetchData(): Promise<OracleData<PriceData>[]> {
+  protected async onStart(): Promise<void> {
+    for (const source of this.dataSources.values()) {
+      await source.start?.();
+    }
+  }
+
+  protected async onStop(): Promise<void> {
+    for (const source of this.dataSources.values()) {
+      await source.stop?.();
+    }
+  }
+
+  /**
+   * Update a pair as soon as a streamed price crosses the deviation
+   * threshold against the published price, instead of at the next poll
+   */
+  private handleStreamPrice(sourceName: string, streamed: PriceData): void {
+    const pairKey = `${streamed.base}/${streamed.quote}`;
+    const published = this.lastPrices.get(pairKey);
+    const pair = this.findPair(pairKey);
+    if (!this.isRunning || !published || !pair) return;
+
+    // Compare in the pair's quote, as the published price was
+    let price = streamed;
+    if (this.quoteNormalizer) {
+      const [normalized] = this.quoteNormalizer.normalize(
+        pair,
+        [{ value: streamed, timestamp: streamed.timestamp, source: sourceName }],
+        this.latestAggregates
+      );
+      if (!normalized) return;
+      price = normalized.value;
+    }
+
+    if (!this.shouldUpdate(published.data.price, price.price)) return;
+
+    if (this.signalDeviation(pairKey)) {
+      this.logger.info(`Streamed price for ${pairKey} crossed deviation threshold`, {
+        source: sourceName,
+        publishedPrice: published.data.price,
+        price: price.price
+      });
+      this.metrics.increment('price_oracle.stream_trigger', { source: sourceName, pair: pairKey });
+    }
+  }
+
+  async fetchData(keys?: string[]): Promise<OracleData<PriceData>[]> {
     const allPriceData: OracleData<PriceData>[] = [];
 
-    for (const pair of this.supportedPairs) {
-      if (!pair.isActive) continue;
+    for (const pair of this.getCyclePairs(keys)) {
+      if (pair.derivation) continue;
 
       const pairKey = `${pair.base}/${pair.quote}`;
       this.logger.debug(`Fetching prices for ${pairKey}`);
 
       for (const [sourceName, source] of this.dataSources) {
+        if (!source.supportsPair(pair.base, pair.quote)) continue;
+
+        if (this.quarantine?.isQuarantined(sourceName)) {
+          this.logger.debug(`Skipping quarantined source ${sourceName} for ${pairKey}`);
+          continue;
+        }
+
         try {
+          const startTime = Date.now();
           const priceData = await source.fetchPrice(pair.base, pair.quote);
           
           allPriceData.push({
-            value: priceData,
+            value: { ...priceData, source: sourceName },
             timestamp: priceData.timestamp,
             source: sourceName,
             metadata: {
               pair: pairKey,
-              confidence: priceData.confidence
+              confidence: priceData.confidence,
+              latency: Date.now() - startTime
             }
           });
 
@@ -146,52 +243,35 @@ export class PriceOracle extends OracleBase<PriceData> {
     return allPriceData;
   }
 
-  async validateData(data: OracleData<PriceData>[]): Promise<ValidationResult> {
+  async validateData(data: OracleData<PriceData>[], keys?: string[]): Promise<ValidationResult> {
     const errors: string[] = [];
     const warnings: string[] = [];
 
     // Group data by trading pair
     const dataByPair = this.groupDataByPair(data);
 
-    for (const [pairKey, pairData] of dataByPair) {
-      const pair = this.supportedPairs.find(p => `${p.base}/${p.quote}` === pairKey);
-      if (!pair) {
+    for (const pairKey of dataByPair.keys()) {
+      if (!this.findPair(pairKey)) {
         errors.push(`Unsupported trading pair: ${pairKey}`);
-        continue;
       }
+    }
 
-      // Check minimum sources requirement
-      if (pairData.length < this.priceConfig.minSourcesRequired) {
-        errors.push(`Insufficient data sources for ${pairKey}: ${pairData.length} < ${this.priceConfig.minSourcesRequired}`);
-        continue;
-      }
+    // Pair-level problems only fail that pair during processing
+    let validPairs = 0;
+    for (const pair of this.getCyclePairs(keys)) {
+      if (pair.derivation) continue;
 
-      // Validate individual price data
-      for (const oracleData of pairData) {
-        const priceData = oracleData.value;
-        
-        // Price range validation
-        if (priceData.price < pair.minPrice || priceData.price > pair.maxPrice) {
-          errors.push(`Price out of range for ${pairKey}: ${priceData.price} (valid: ${pair.minPrice}-${pair.maxPrice})`);
-        }
+      const pairKey = `${pair.base}/${pair.quote}`;
+      const pairValidation = this.validatePairData(pair, dataByPair.get(pairKey) || []);
 
-        // Timestamp validation
-        const now = Date.now();
-        const maxAge = this.priceConfig.maxPriceAge * 1000;
-        if (now - priceData.timestamp > maxAge) {
-          warnings.push(`Stale data for ${pairKey} from ${priceData.source}: ${now - priceData.timestamp}ms old`);
-        }
+      warnings.push(...pairValidation.errors, ...pairValidation.warnings);
+      if (pairValidation.isValid) {
+        validPairs++;
       }
+    }
 
-      // Price deviation validation
-      const prices = pairData.map(d => d.value.price);
-      const deviation = this.calculateStandardDeviation(prices);
-      const mean = prices.reduce((sum, price) => sum + price, 0) / prices.length;
-      const deviationPercent = (deviation / mean) * 100;
-
-      if (deviationPercent > this.priceConfig.outlierThreshold * 10) { // 10% threshold
-        warnings.push(`High price deviation for ${pairKey}: ${deviationPercent.toFixed(2)}%`);
-      }
+    if (validPairs === 0) {
+      errors.push('No trading pair has valid price data');
     }
 
     return {
@@ -201,72 +281,98 @@ export class PriceOracle extends OracleBase<PriceData> {
     };
   }
 
-  async processData(data: OracleData<PriceData>[]): Promise<PriceData> {
+  async processData(data: OracleData<PriceData>[], keys?: string[]): Promise<UpdateResult<AggregatedPriceData>[]> {
     const dataByPair = this.groupDataByPair(data);
-    
-    for (const [pairKey, pairData] of dataByPair) {
-      const pair = this.supportedPairs.find(p => `${p.base}/${p.quote}` === pairKey);
-      if (!pair || pairData.length === 0) continue;
+    const cyclePairs = this.getCyclePairs(keys);
+    const aggregates = new Map<string, AggregatedPriceData>();
+    const pegDependencies = new Map<string, Set<string>>();
+    const results: UpdateResult<AggregatedPriceData>[] = [];
+
+    // Quote rate and stablecoin peg pairs first so the others normalise and
+    // check pegs with this cycle's rates, then the remaining direct pairs,
+    // then cross rates in dependency order
+    const direct = cyclePairs.filter(p => !p.derivation);
+    const isReferencePair = (p: TradingPair) => {
+      const pairKey = `${p.base}/${p.quote}`;
+      return !!(this.quoteNormalizer?.isRatePair(pairKey) || this.depegMonitor?.isPegPair(pairKey));
+    };
+    const pairs = [
+      ...direct.filter(isReferencePair),
+      ...direct.filter(p => !isReferencePair(p)),
+      ...this.crossRates.getDerivedPairs().filter(p => cyclePairs.includes(p))
+    ];
 
-      // Remove outliers
-      const cleanedData = this.removeOutliers(pairData);
-      
-      if (cleanedData.length < this.priceConfig.minSourcesRequired) {
-        this.logger.warn(`Insufficient data after outlier removal for ${pairKey}`);
-        continue;
-      }
+    for (const pair of pairs) {
+      const pairKey = `${pair.base}/${pair.quote}`;
 
-      // Calculate median price from clean data
-      const prices = cleanedData.map(d => d.value.price);
-      prices.sort((a, b) => a - b);
-      const medianPrice = prices[Math.floor(prices.length / 2)];
-      
-      // Create aggregated price result
-      const result: PriceData = {
-        base: pair.base,
-        quote: pair.quote,
-        price: medianPrice,
-        timestamp: Date.now(),
-        source: 'aggregated',
-        volume24h: cleanedData.reduce((sum, d) => sum + (d.value.volume24h || 0), 0) / cleanedData.length,
-        change24h: cleanedData.reduce((sum, d) => sum + (d.value.change24h || 0), 0) / cleanedData.length
-      };
+      try {
+        let pairData = dataByPair.get(pairKey) || [];
+        if (this.quoteNormalizer && !pair.derivation) {
+          pairData = this.quoteNormalizer.normalize(pair, pairData, this.latestAggregates);
+        }
 
-      this.metrics.gauge('price_oracle.aggregated_price', result.price, {
-        pair: pairKey
-      });
-      
-      return result;
+        const result = pair.derivation
+          ? this.applySmoothing(pair, this.crossRates.derive(pair, aggregates))
+          : this.processPair(pair, pairData);
+        aggregates.set(pairKey, result);
+        this.latestAggregates.set(pairKey, result);
+        pegDependencies.set(pairKey, this.getPegDependencies(pair, pairData, pegDependencies));
+
+        if (this.depegMonitor?.isPegPair(pairKey)) {
+          this.depegMonitor.update(result, pairData.map(d => d.value));
+        }
+
+        const decision = this.circuitBreaker
+          ? this.circuitBreaker.evaluate(pairKey, this.lastPrices.get(pairKey)?.data.price, result)
+          : { allow: true };
+
+        if (!decision.allow) {
+          results.push({ key: pairKey, status: 'skipped', data: result, reason: decision.reason });
+          continue;
+        }
+
+        const peg = this.depegMonitor
+          ? this.depegMonitor.apply(pairKey, result, pegDependencies.get(pairKey)!)
+          : { data: result };
+
+        if (peg.reason) {
+          results.push({ key: pairKey, status: 'skipped', data: peg.data, reason: peg.reason });
+        } else {
+          results.push({ key: pairKey, status: 'pending', data: peg.data });
+        }
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Failed to process ${pairKey}`, { error: message });
+        this.metrics.increment('price_oracle.process_error', { pair: pairKey });
+        results.push({ key: pairKey, status: 'failed', error: message });
+      }
     }
 
-    throw new ValidationError('No valid aggregated price data available');
+    // Legs pulled in for a cross rate are not part of a keyed cycle
+    return keys ? results.filter(r => keys.includes(r.key)) : results;
   }
 
-  async submitToBlockchain(processedData: PriceData): Promise<string> {
-    try {
-      const pairKey = `${processedData.base}/${processedData.quote}`;
-      
-      // Check if price change exceeds threshold
-      const lastPrice = this.lastPrices.get(pairKey);
-      if (lastPrice && !this.shouldUpdate(lastPrice.price, processedData.price)) {
-        this.logger.debug(`Price change below threshold for ${pairKey}, skipping blockchain update`);
-        return 'skipped';
-      }
+  async submitToBlockchain(processedData: AggregatedPriceData): Promise<string> {
+    const pairKey = `${processedData.base}/${processedData.quote}`;
 
-      // Create transaction data (simplified)
+    try {
       const transactionData = {
-        to: 'oracle_contract_address', // Would be actual contract address
+        to: this.priceConfig.contractAddress,
         value: '0',
         data: this.createPriceUpdateData(processedData)
       };
 
       // Submit to TON blockchain
       const result = await this.tonClient.sendTransaction(transactionData);
+      const txHash = await this.confirmSubmission(result.hash);
       
       this.logger.info(`Price update submitted to blockchain`, {
         pair: pairKey,
         price: processedData.price,
-        txHash: result.hash
+        confidence: processedData.confidence,
+        sources: processedData.sources,
+        txHash
       });
 
       this.metrics.increment('price_oracle.blockchain_update', {
@@ -274,11 +380,11 @@ export class PriceOracle extends OracleBase<PriceData> {
         status: 'success'
       });
 
-      return result.hash;
+      return txHash;
 
     } catch (error) {
       this.metrics.increment('price_oracle.blockchain_update', {
-        pair: `${processedData.base}/${processedData.quote}`,
+        pair: pairKey,
         status: 'error'
       });
 
@@ -286,13 +392,173 @@ export class PriceOracle extends OracleBase<PriceData> {
     }
   }
 
+  /**
+   * Pack every pair that crossed its threshold into batch update messages
+   */
+  protected async submitBatch(results: UpdateResult<AggregatedPriceData>[]): Promise<void> {
+    const queryIdBase = BigInt(Date.now());
+    const resultsByPair = new Map(results.map(r => [r.key, r]));
+    const messages: PriceUpdateMessage[] = [];
+
+    for (const result of results) {
+      try {
+        messages.push(this.createPriceUpdateMessage(result.data!, queryIdBase));
+      } catch (error) {
+        this.recordFailure(result, error);
+      }
+    }
+
+    let batches: PriceUpdateMessage[][];
+    try {
+      batches = splitPriceBatches(messages);
+    } catch (error) {
+      messages.forEach(m => this.recordFailure(resultsByPair.get(`${m.base}/${m.quote}`)!, error));
+      return;
+    }
+
+    // Sent together so the client can pack several into one wallet transfer
+    await Promise.all(batches.map(async (batch, i) => {
+      const batchResults = batch.map(m => resultsByPair.get(`${m.base}/${m.quote}`)!);
+
+      try {
+        const result = await this.tonClient.sendTransaction({
+          to: this.priceConfig.contractAddress,
+          value: '0',
+          data: this.tonClient.createBatchMessageCell({
+            queryId: queryIdBase + BigInt(i),
+            updates: batch
+          })
+        });
+
+        const txHash = await this.confirmSubmission(result.hash);
+
+        for (const batchResult of batchResults) {
+          batchResult.status = 'submitted';
+          batchResult.txHash = txHash;
+        }
+
+        this.logger.info(`Batch price update submitted to blockchain`, {
+          pairs: batchResults.map(r => r.key),
+          txHash
+        });
+
+        this.metrics.increment('price_oracle.blockchain_batch_update', { status: 'success' });
+        this.metrics.histogram('price_oracle.batch_size', batch.length);
+
+      } catch (error) {
+        this.metrics.increment('price_oracle.blockchain_batch_update', { status: 'error' });
+
+        for (const batchResult of batchResults) {
+          this.recordFailure(batchResult, error);
+        }
+      }
+    }));
+  }
+
+  /**
+   * Wait for a sent update to be processed by the oracle contract. Returns
+   * the wallet transaction hash, or the message hash when confirmation
+   * timed out; throws when the transaction failed on-chain.
+   */
+  private async confirmSubmission(messageHash: string): Promise<string> {
+    const monitor = await this.tonClient.monitorTransaction(messageHash);
+
+    if (monitor.status === TransactionStatus.FAILED) {
+      throw new ContractError(`Price update failed on-chain: ${monitor.result?.error}`, {
+        hash: messageHash,
+        lt: monitor.result?.lt,
+        exitCode: monitor.result?.exitCode
+      });
+    }
+
+    if (monitor.status !== TransactionStatus.CONFIRMED) {
+      this.logger.warn('Price update not confirmed before timeout', { hash: messageHash });
+      return messageHash;
+    }
+
+    this.metrics.histogram('price_oracle.update_fees', Number(monitor.result!.fees));
+    return monitor.result!.txHash!;
+  }
+
+  /**
+   * Publish on deviation from the last published price, or on heartbeat
+   * once the last publication is older than heartbeatInterval
+   */
+  protected getSubmitTrigger(
+    processedData: AggregatedPriceData, 
+    cycleTrigger: UpdateTrigger
+  ): UpdateTrigger | null {
+    if (cycleTrigger === 'manual') return 'manual';
+
+    const pairKey = `${processedData.base}/${processedData.quote}`;
+    const published = this.lastPrices.get(pairKey);
+    if (!published) return 'time';
+
+    if (this.shouldUpdate(published.data.price, processedData.price)) {
+      return 'threshold';
+    }
+
+    const heartbeat = this.priceConfig.heartbeatInterval;
+    if (heartbeat && Date.now() - published.publishedAt >= heartbeat * 1000) {
+      return 'time';
+    }
+
+    this.logger.debug(`Price change below threshold for ${pairKey}, skipping blockchain update`);
+    return null;
+  }
+
+  protected onPublished(result: UpdateResult<AggregatedPriceData>): void {
+    const data = result.data!;
+    const pair = this.findPair(result.key)!;
+    const previous = this.lastPrices.get(result.key);
+    const publishedAt = Date.now();
+
+    this.lastPrices.set(result.key, {
+      data,
+      txHash: result.txHash!,
+      publishedAt
+    });
+
+    const oldPrice = previous ? previous.data.price : 0;
+    this.recentUpdates.push({
+      pair,
+      oldPrice,
+      newPrice: data.price,
+      change: oldPrice > 0 ? ((data.price - oldPrice) / oldPrice) * 100 : 0,
+      timestamp: publishedAt,
+      trigger: result.trigger || 'time',
+      transactionHash: result.txHash
+    });
+    if (this.recentUpdates.length > MAX_RECENT_UPDATES) {
+      this.recentUpdates.shift();
+    }
+
+    this.metrics.increment('price_oracle.published', { 
+      pair: result.key, 
+      trigger: result.trigger || 'time' 
+    });
+  }
+
+  async getStatus(): Promise<PriceOracleStatus> {
+    const status = await super.getStatus();
+
+    return {
+      ...status,
+      circuitBreakers: this.circuitBreaker ? this.circuitBreaker.getStates() : {},
+      published: Object.fromEntries(this.lastPrices),
+      quarantinedSources: this.quarantine ? this.quarantine.getQuarantined() : {},
+      sourceWeights: this.sourceWeights ? this.sourceWeights.getSnapshot(this.getBaseWeights()) : {},
+      pegs: this.depegMonitor ? this.depegMonitor.getStatus() : {}
+    };
+  }
+
   protected async getSourcesStatus(): Promise<any[]> {
     const statuses = [];
     
     for (const [name, source] of this.dataSources) {
       try {
         const status = await source.getStatus();
-        statuses.push(status);
+        statuses.push({ ...status, quarantinedUntil: this.quarantine?.getQuarantinedUntil(name) });
       } catch (error) {
         statuses.push({
           name,
@@ -306,13 +572,25 @@ export class PriceOracle extends OracleBase<PriceData> {
   }
 
   // Public methods for external access
-  async getCurrentPrice(base: string, quote: string): Promise<PriceData | null> {
-    const pairKey = `${base}/${quote}`;
-    return this.lastPrices.get(pairKey) || null;
+  /**
+   * Latest aggregate for the pair, published or not, with its TWAP and EMA
+   * brought up to now. getPublishedPrice returns what is on-chain.
+   */
+  async getCurrentPrice(base: string, quote: string): Promise<AggregatedPriceData | null> {
+    return this.getLatestPrice(`${base}/${quote}`);
+  }
+
+  async getAllCurrentPrices(): Promise<Map<string, AggregatedPriceData>> {
+    const pairKeys = new Set([...this.lastPrices.keys(), ...this.latestAggregates.keys()]);
+    return new Map(Array.from(pairKeys, pairKey => [pairKey, this.getLatestPrice(pairKey)!]));
   }
 
-  async getAllCurrentPrices(): Promise<Map<string, PriceData>> {
-    return new Map(this.lastPrices);
+  getPublishedPrice(base: string, quote: string): PublishedPrice | null {
+    return this.lastPrices.get(`${base}/${quote}`) || null;
+  }
+
+  getRecentUpdates(): PriceUpdate[] {
+    return [...this.recentUpdates];
   }
 
   getSupportedPairs(): TradingPair[] {
@@ -320,6 +598,151 @@ export class PriceOracle extends OracleBase<PriceData> {
   }
 
   // Private helper methods
+  /**
+   * Active pairs a cycle for the given keys needs, including the legs
+   * of cross rates among them
+   */
+  private getCyclePairs(keys?: string[]): TradingPair[] {
+    return this.getActivePairs(keys && this.crossRates.resolve(keys));
+  }
+
+  /**
+   * Active pairs, limited to the given 'BASE/QUOTE' keys when provided
+   */
+  private getActivePairs(keys?: string[]): TradingPair[] {
+    return this.supportedPairs.filter(p => p.isActive && (!keys || keys.includes(`${p.base}/${p.quote}`)));
+  }
+
+  private getLatestPrice(pairKey: string): AggregatedPriceData | null {
+    const aggregate = this.latestAggregates.get(pairKey) ?? this.lastPrices.get(pairKey)?.data;
+    if (!aggregate) return null;
+
+    const smoothing = this.findPair(pairKey)?.smoothing;
+    const smoothed = smoothing && this.smoother.getCurrent(pairKey, smoothing.window);
+    if (!smoothed) return aggregate;
+
+    const smoothedPrice = smoothing.mode === 'twap' ? smoothed.twap : smoothed.ema;
+    return {
+      ...aggregate,
+      price: smoothing.publish === 'smoothed' ? smoothedPrice : aggregate.price,
+      twap: smoothed.twap,
+      ema: smoothed.ema
+    };
+  }
+
+  private findPair(pairKey: string): TradingPair | undefined {
+    return this.supportedPairs.find(p => `${p.base}/${p.quote}` === pairKey);
+  }
+
+  private validatePairData(pair: TradingPair, pairData: OracleData<PriceData>[]): ValidationResult {
+    const pairKey = `${pair.base}/${pair.quote}`;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Check minimum sources requirement
+    if (pairData.length < this.priceConfig.minSourcesRequired) {
+      errors.push(`Insufficient data sources for ${pairKey}: ${pairData.length} < ${this.priceConfig.minSourcesRequired}`);
+      return { isValid: false, errors, warnings };
+    }
+
+    // Validate individual price data
+    for (const oracleData of pairData) {
+      const priceData = oracleData.value;
+      
+      // Price range validation
+      if (priceData.price < pair.minPrice || priceData.price > pair.maxPrice) {
+        errors.push(`Price out of range for ${pairKey}: ${priceData.price} (valid: ${pair.minPrice}-${pair.maxPrice})`);
+      }
+
+      // Timestamp validation
+      const now = Date.now();
+      const maxAge = this.priceConfig.maxPriceAge * 1000;
+      if (now - priceData.timestamp > maxAge) {
+        warnings.push(`Stale data for ${pairKey} from ${priceData.source}: ${now - priceData.timestamp}ms old`);
+      }
+    }
+
+    // Price deviation validation
+    const prices = pairData.map(d => d.value.price);
+    const deviation = this.calculateStandardDeviation(prices);
+    const mean = prices.reduce((sum, price) => sum + price, 0) / prices.length;
+    const deviationPercent = (deviation / mean) * 100;
+
+    if (deviationPercent > this.priceConfig.outlierThreshold * 10) { // 10% threshold
+      warnings.push(`High price deviation for ${pairKey}: ${deviationPercent.toFixed(2)}%`);
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  private processPair(pair: TradingPair, pairData: OracleData<PriceData>[]): AggregatedPriceData {
+    const pairKey = `${pair.base}/${pair.quote}`;
+
+    const validation = this.validatePairData(pair, pairData);
+    if (!validation.isValid) {
+      throw new ValidationError(validation.errors.join(', '), { pair: pairKey });
+    }
+
+    // Remove outliers using the pair's detection mode
+    const { accepted, outliers } = this.aggregator.removeOutliers(
+      pair.outlierDetection || 'zscore',
+      pairData.map(d => d.value)
+    );
+    this.quarantine?.record(pairKey, accepted, outliers);
+
+    for (const outlier of outliers) {
+      this.logger.warn(`Outlier rejected for ${pairKey}`, {
+        source: outlier.source,
+        price: outlier.price
+      });
+      this.metrics.increment('price_oracle.outlier', { pair: pairKey, source: outlier.source });
+    }
+    
+    if (accepted.length < this.priceConfig.minSourcesRequired) {
+      throw new ValidationError(`Insufficient data after outlier removal for ${pairKey}`, { 
+        pair: pairKey,
+        outliers
+      });
+    }
+
+    const result = this.applySmoothing(pair, this.aggregatePrices(accepted, outliers));
+    this.recordSourceAccuracy(pairKey, result.spotPrice ?? result.price, pairData);
+
+    this.metrics.gauge('price_oracle.aggregated_price', result.price, {
+      pair: pairKey
+    });
+    this.metrics.gauge('price_oracle.confidence', result.confidence, {
+      pair: pairKey
+    });
+
+    return result;
+  }
+
+  /**
+   * Stablecoins a pair's price is implicitly denominated in: its quote,
+   * quotes sources listed in that were not normalised away, and those of
+   * its cross rate legs
+   */
+  private getPegDependencies(
+    pair: TradingPair,
+    pairData: OracleData<PriceData>[],
+    dependencies: Map<string, Set<string>>
+  ): Set<string> {
+    const assets = new Set<string>([pair.quote]);
+
+    for (const data of pairData) {
+      if (data.value.listedQuote && !data.metadata?.quoteAdjustment) {
+        assets.add(data.value.listedQuote);
+      }
+    }
+    for (const leg of pair.derivation || []) {
+      dependencies.get(leg.pair)?.forEach(asset => assets.add(asset));
+    }
+
+    assets.delete(pair.base);
+    return assets;
+  }
+
   private groupDataByPair(data: OracleData<PriceData>[]): Map<string, OracleData<PriceData>[]> {
     const grouped = new Map<string, OracleData<PriceData>[]>();
     
@@ -336,41 +759,20 @@ export class PriceOracle extends OracleBase<PriceData> {
     return grouped;
   }
 
-  private removeOutliers(data: OracleData<PriceData>[]): OracleData<PriceData>[] {
-    if (data.length <= 2) return data;
-
-    const prices = data.map(d => d.value.price);
-    const mean = prices.reduce((sum, price) => sum + price, 0) / prices.length;
-    const stdDev = this.calculateStandardDeviation(prices);
-    const threshold = this.priceConfig.outlierThreshold;
-
-    return data.filter(d => {
-      const zScore = Math.abs((d.value.price - mean) / stdDev);
-      return zScore <= threshold;
-    });
-  }
-
-  private aggregatePrices(data: OracleData<PriceData>[]): AggregatedPriceData {
-    const prices = data.map(d => d.value.price);
+  private aggregatePrices(
+    data: PriceData[], 
+    outliers: PriceData[] = []
+  ): AggregatedPriceData {
+    const prices = data.map(d => d.price);
     const sources = data.map(d => d.source);
-    const timestamps = data.map(d => d.value.timestamp);
+    const timestamps = data.map(d => d.timestamp);
     
-    let aggregatedPrice: number;
-    
-    switch (this.priceConfig.aggregationMethod) {
-      case 'median':
-        aggregatedPrice = this.calculateMedian(prices);
-        break;
-      case 'weighted':
-        aggregatedPrice = this.calculateWeightedAverage(data);
-        break;
-      case 'average':
-      default:
-        aggregatedPrice = prices.reduce((sum, price) => sum + price, 0) / prices.length;
-    }
+    const aggregatedPrice = this.priceConfig.aggregationMethod === 'weighted'
+      ? this.calculateWeightedAverage(data)
+      : this.aggregator.aggregate(this.priceConfig.aggregationMethod, data);
 
-    const standardDeviation = this.calculateStandardDeviation(prices);
-    const firstPrice = data[0].value;
+    const standardDeviation = this.aggregator.standardDeviation(prices);
+    const firstPrice = data[0];
 
     return {
       base: firstPrice.base,
@@ -381,50 +783,82 @@ export class PriceOracle extends OracleBase<PriceData> {
       sourceCount: data.length,
       standardDeviation,
       confidence: this.calculateConfidence(data),
-      outliers: [] // Would contain removed outliers
+      outliers
     };
   }
 
-  private calculateMedian(values: number[]): number {
-    const sorted = [...values].sort((a, b) => a - b);
-    const mid = Math.floor(sorted.length / 2);
-    
-    if (sorted.length % 2 === 0) {
-      return (sorted[mid - 1] + sorted[mid]) / 2;
-    }
-    return sorted[mid];
+  private applySmoothing(pair: TradingPair, aggregate: AggregatedPriceData): AggregatedPriceData {
+    if (!pair.smoothing) return aggregate;
+
+    const pairKey = `${pair.base}/${pair.quote}`;
+    const { twap, ema } = this.smoother.update(
+      pairKey,
+      aggregate.price,
+      aggregate.timestamp,
+      pair.smoothing.window
+    );
+
+    this.metrics.gauge('price_oracle.twap', twap, { pair: pairKey });
+    this.metrics.gauge('price_oracle.ema', ema, { pair: pairKey });
+
+    const smoothedPrice = pair.smoothing.mode === 'twap' ? twap : ema;
+
+    return {
+      ...aggregate,
+      price: pair.smoothing.publish === 'smoothed' ? smoothedPrice : aggregate.price,
+      spotPrice: aggregate.price,
+      twap,
+      ema
+    };
   }
 
-  private calculateWeightedAverage(data: OracleData<PriceData>[]): number {
-    let totalWeight = 0;
-    let weightedSum = 0;
+  private calculateWeightedAverage(data: PriceData[]): number {
+    const pairKey = `${data[0].base}/${data[0].quote}`;
+    const weights = this.sourceWeights
+      ? this.sourceWeights.getWeights(pairKey, this.getBaseWeights())
+      : this.getBaseWeights();
 
-    for (const oracleData of data) {
-      const sourceConfig = this.priceConfig.sources.find(s => s.name === oracleData.source);
-      const weight = sourceConfig?.weight || 1;
-      
-      totalWeight += weight;
-      weightedSum += oracleData.value.price * weight;
+    for (const [source, weight] of weights) {
+      this.metrics.gauge('price_oracle.source_weight', weight, { pair: pairKey, source });
     }
 
-    return totalWeight > 0 ? weightedSum / totalWeight : 0;
+    return this.aggregator.weightedAverage(data, weights);
+  }
+
+  private getBaseWeights(): Map<string, number> {
+    return new Map(this.priceConfig.sources.map(s => [s.name, s.weight || 1]));
+  }
+
+  /**
+   * Score every source that reported for the pair, outliers included,
+   * against the price the cycle settled on
+   */
+  private recordSourceAccuracy(pairKey: string, aggregatePrice: number, pairData: OracleData<PriceData>[]): void {
+    if (!this.sourceWeights) return;
+
+    const now = Date.now();
+    for (const data of pairData) {
+      this.sourceWeights.record(pairKey, data.source, {
+        timestamp: now,
+        deviation: Math.abs(data.value.price - aggregatePrice) / aggregatePrice * 100,
+        latency: data.metadata?.latency,
+        staleness: Math.max(now - data.value.timestamp, 0) / 1000
+      });
+    }
   }
 
   private calculateStandardDeviation(values: number[]): number {
-    const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
-    const squaredDiffs = values.map(val => Math.pow(val - mean, 2));
-    const variance = squaredDiffs.reduce((sum, diff) => sum + diff, 0) / values.length;
-    return Math.sqrt(variance);
+    return this.aggregator.standardDeviation(values);
   }
 
-  private calculateConfidence(data: OracleData<PriceData>[]): number {
+  private calculateConfidence(data: PriceData[]): number {
     // Simple confidence calculation based on source count and agreement
     const baseConfidence = Math.min(data.length / this.priceConfig.minSourcesRequired, 1) * 100;
     
     // Reduce confidence based on price variance
-    const prices = data.map(d => d.value.price);
+    const prices = data.map(d => d.price);
     const stdDev = this.calculateStandardDeviation(prices);
-    const mean = prices.reduce((sum, price) => sum + price, 0) / prices.length;
+    const mean = this.aggregator.mean(prices);
     const coefficient = stdDev / mean;
     
     // Higher variance reduces confidence
@@ -438,19 +872,20 @@ export class PriceOracle extends OracleBase<PriceData> {
     return changePercent >= this.priceConfig.deviationThreshold;
   }
 
-  private createPriceUpdateData(priceData: PriceData): any {
-    // This would create the actual contract call data
-    // For now, returning a placeholder
-    return {
-      method: 'updatePrice',
-      params: {
-        base: priceData.base,
-        quote: priceData.quote,
-        price: priceData.price,
-        timestamp: priceData.timestamp,
-        source: priceData.source,
-        confidence: priceData.confidence
-      }
-    };
+  private createPriceUpdateData(priceData: PriceData | AggregatedPriceData): Cell {
+    return this.tonClient.createMessageCell(this.createPriceUpdateMessage(priceData));
+  }
+
+  private createPriceUpdateMessage(
+    priceData: PriceData | AggregatedPriceData,
+    queryId?: bigint
+  ): PriceUpdateMessage {
+    const pairKey = `${priceData.base}/${priceData.quote}`;
+    const pair = this.findPair(pairKey);
+    if (!pair) {
+      throw new ValidationError(`Unsupported trading pair: ${pairKey}`);
+    }
+
+    return createPriceUpdateMessage(priceData, pair, queryId);
   }
 }
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { PriceSmoother } from './PriceSmoother';
+
+const T0 = 1_700_000_000_000;
+const at = (seconds: number) => T0 + seconds * 1000;
+
+describe('PriceSmoother', () => {
+  let smoother: PriceSmoother;
+
+  beforeEach(() => {
+    smoother = new PriceSmoother();
+  });
+
+  it('starts both averages at the first price', () => {
+    expect(smoother.update('TON/USD', 5, at(0), 60)).toEqual({ twap: 5, ema: 5 });
+  });
+
+  it('gives the latest sample zero weight in the TWAP until time passes', () => {
+    smoother.update('TON/USD', 100, at(0), 60);
+
+    expect(smoother.update('TON/USD', 200, at(10), 60).twap).toBe(100);
+    expect(smoother.getCurrent('TON/USD', 60, at(20))!.twap).toBe(150);
+  });
+
+  it('clips the last sample before the window to the window start', () => {
+    smoother.update('TON/USD', 100, at(0), 60);
+    smoother.update('TON/USD', 200, at(50), 60);
+
+    // Window starts at 40s: 100 holds for 10s, 200 for 50s
+    expect(smoother.update('TON/USD', 300, at(100), 60).twap).toBeCloseTo((100 * 10 + 200 * 50) / 60, 10);
+  });
+
+  it('evicts samples that can no longer hold at the window start', () => {
+    for (let second = 0; second <= 300; second += 10) {
+      smoother.update('TON/USD', 100 + second, at(second), 60);
+    }
+
+    // The window starts at 240s; the sample before it is kept
+    const samples = smoother['states'].get('TON/USD')!.samples;
+    expect(samples.map(sample => (sample.timestamp - T0) / 1000)).toEqual([230, 240, 250, 260, 270, 280, 290, 300]);
+    expect(smoother.getCurrent('TON/USD', 60, at(300))!.twap).toBeCloseTo(365, 10);
+  });
+
+  it('moves the EMA by 1 - e^(-dt/window)', () => {
+    smoother.update('TON/USD', 100, at(0), 60);
+
+    const { ema } = smoother.update('TON/USD', 200, at(60), 60);
+    expect(ema).toBeCloseTo(100 + (1 - Math.exp(-1)) * 100, 10);
+  });
+
+  it('ignores out-of-order samples', () => {
+    smoother.update('TON/USD', 100, at(0), 60);
+    const before = smoother.update('TON/USD', 200, at(30), 60);
+
+    expect(smoother.update('TON/USD', 1000, at(20), 60)).toEqual(before);
+    expect(smoother.update('TON/USD', 1000, at(30), 60)).toEqual(before);
+  });
+
+  it('has no current values before the first sample', () => {
+    expect(smoother.getCurrent('TON/USD', 60)).toBeUndefined();
+  });
+
+  it('rejects a non-positive window', () => {
+    expect(() => smoother.update('TON/USD', 5, at(0), 0)).toThrow('Smoothing window must be positive: 0');
+  });
+});
@@ -0,0 +1,118 @@
+import { ValidationError } from '@/types';
+
+interface PriceSample {
+  price: number;
+  timestamp: number;
+}
+
+interface SmoothingState {
+  samples: PriceSample[];
+  ema?: number;
+  lastTimestamp?: number;
+}
+
+export interface SmoothedPrice {
+  twap: number;
+  ema: number;
+}
+
+/**
+ * Rolling per-pair TWAP and EMA over aggregated spot prices
+ */
+export class PriceSmoother {
+  private states: Map<string, SmoothingState> = new Map();
+
+  /**
+   * Record a spot price and return the smoothed values including it.
+   * window is in seconds: the TWAP span and the EMA time constant.
+   */
+  update(key: string, price: number, timestamp: number, window: number): SmoothedPrice {
+    if (window <= 0) {
+      throw new ValidationError(`Smoothing window must be positive: ${window}`);
+    }
+
+    const state = this.states.get(key) || { samples: [] };
+    const windowMs = window * 1000;
+
+    // Ignore out-of-order samples, they would corrupt both averages
+    if (state.lastTimestamp !== undefined && timestamp <= state.lastTimestamp) {
+      return {
+        twap: this.calculateTwap(state.samples, state.lastTimestamp, windowMs),
+        ema: state.ema!
+      };
+    }
+
+    if (state.ema === undefined || state.lastTimestamp === undefined) {
+      state.ema = price;
+    } else {
+      const alpha = 1 - Math.exp(-(timestamp - state.lastTimestamp) / windowMs);
+      state.ema = state.ema + alpha * (price - state.ema);
+    }
+
+    state.samples.push({ price, timestamp });
+    state.lastTimestamp = timestamp;
+    this.prune(state, timestamp - windowMs);
+    this.states.set(key, state);
+
+    return {
+      twap: this.calculateTwap(state.samples, timestamp, windowMs),
+      ema: state.ema
+    };
+  }
+
+  /**
+   * Smoothed values as of now rather than as of the last sample, so the
+   * latest price counts for the time it has held since. Undefined before
+   * the pair's first sample.
+   */
+  getCurrent(key: string, window: number, now: number = Date.now()): SmoothedPrice | undefined {
+    const state = this.states.get(key);
+    if (!state || state.ema === undefined || state.lastTimestamp === undefined) {
+      return undefined;
+    }
+
+    return {
+      twap: this.calculateTwap(state.samples, Math.max(now, state.lastTimestamp), window * 1000),
+      ema: state.ema
+    };
+  }
+
+  /**
+   * Each sample's price holds until the next sample; the span before the
+   * first retained sample is clipped to the window start.
+   */
+  private calculateTwap(samples: PriceSample[], now: number, windowMs: number): number {
+    if (samples.length === 0) return NaN;
+
+    const windowStart = now - windowMs;
+    let weightedSum = 0;
+    let totalTime = 0;
+
+    for (let i = 0; i < samples.length; i++) {
+      const start = Math.max(samples[i].timestamp, windowStart);
+      const end = i + 1 < samples.length ? samples[i + 1].timestamp : now;
+      const duration = Math.max(end - start, 0);
+
+      weightedSum += samples[i].price * duration;
+      totalTime += duration;
+    }
+
+    return totalTime > 0 ? weightedSum / totalTime : samples[samples.length - 1].price;
+  }
+
+  /**
+   * Drop samples older than the window, keeping the last one before its
+   * start since its price still holds at the start of the window
+   */
+  private prune(state: SmoothingState, windowStart: number): void {
+    let firstInWindow = state.samples.findIndex(s => s.timestamp >= windowStart);
+    if (firstInWindow === -1) {
+      firstInWindow = state.samples.length;
+    }
+
+    const keepFrom = Math.max(firstInWindow - 1, 0);
+    if (keepFrom > 0) {
+      state.samples = state.samples.slice(keepFrom);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { QuoteNormalizer } from './QuoteNormalizer';
+import { AggregatedPriceData, Logger, MetricsCollector, OracleData, PriceData, TradingPair } from '@/types';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+const T0 = 1_700_000_000_000;
+
+const TON_USD: TradingPair = {
+  base: 'TON', quote: 'USD', symbol: 'TONUSD', isActive: true, minPrice: 0.01, maxPrice: 1000, decimalPlaces: 6
+};
+
+function point(source: string, price: number, listedQuote?: string): OracleData<PriceData> {
+  return {
+    value: { base: 'TON', quote: 'USD', price, timestamp: T0, source, listedQuote },
+    timestamp: T0,
+    source,
+    metadata: { pair: 'TON/USD', latency: 12 }
+  };
+}
+
+function rate(pairKey: string, price: number, timestamp = T0): AggregatedPriceData {
+  const [base, quote] = pairKey.split('/');
+  return {
+    base, quote, price, timestamp, sources: ['pyth'], sourceCount: 3, standardDeviation: 0, confidence: 99, outliers: []
+  };
+}
+
+describe('QuoteNormalizer', () => {
+  let normalizer: QuoteNormalizer;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: T0 + 30_000 });
+    jest.clearAllMocks();
+    normalizer = new QuoteNormalizer({ ratePairs: ['USDT/USD', 'USD/EUR'], maxRateAge: 60 }, logger, metrics);
+  });
+  afterEach(() => jest.useRealTimers());
+
+  it('converts a price listed in another quote and records the adjustment', () => {
+    const rates = new Map([['USDT/USD', rate('USDT/USD', 0.998)]]);
+
+    const [converted] = normalizer.normalize(TON_USD, [point('binance', 5, 'USDT')], rates);
+
+    expect(converted.value).toMatchObject({ quote: 'USD', listedQuote: 'USDT' });
+    expect(converted.value.price).toBeCloseTo(4.99, 10);
+    expect(converted.metadata).toEqual({
+      pair: 'TON/USD',
+      latency: 12,
+      quoteAdjustment: { from: 'USDT', to: 'USD', ratePair: 'USDT/USD', rate: 0.998, rateTimestamp: T0, originalPrice: 5 }
+    });
+    expect(metrics.gauge).toHaveBeenCalledWith('price_oracle.quote_adjustment', 0.998, { pair: 'TON/USD', source: 'binance' });
+  });
+
+  it('inverts a rate pair quoted the other way round', () => {
+    const rates = new Map([['USD/EUR', rate('USD/EUR', 0.8)]]);
+
+    const [converted] = normalizer.normalize(TON_USD, [point('kraken', 4, 'EUR')], rates);
+
+    expect(converted.value.price).toBeCloseTo(5, 10);
+    expect(converted.metadata!.quoteAdjustment).toMatchObject({ ratePair: 'USD/EUR', rate: 1.25 });
+  });
+
+  it('passes through points already in the pair quote', () => {
+    const points = [point('pyth', 5), point('coingecko', 5.01, 'USD')];
+
+    expect(normalizer.normalize(TON_USD, points, new Map())).toEqual(points);
+  });
+
+  it('refuses to convert with a stale rate', () => {
+    const rates = new Map([['USDT/USD', rate('USDT/USD', 0.998, T0 - 31_000)]]);
+
+    const normalized = normalizer.normalize(TON_USD, [point('pyth', 5), point('binance', 5, 'USDT')], rates);
+
+    expect(normalized.map(d => d.source)).toEqual(['pyth']);
+    expect(logger.warn).toHaveBeenCalledWith('Dropping binance price for TON/USD: USDT/USD rate is stale (61s old)');
+    expect(metrics.increment).toHaveBeenCalledWith('price_oracle.quote_normalization_rejected', {
+      pair: 'TON/USD',
+      source: 'binance',
+      quote: 'USDT'
+    });
+  });
+
+  it('drops points without a usable rate', () => {
+    const points = [point('binance', 5, 'USDT'), point('bybit', 5, 'USDC'), point('odd', 1, 'TON')];
+
+    expect(normalizer.normalize(TON_USD, points, new Map())).toEqual([]);
+    expect(logger.warn).toHaveBeenCalledWith('Dropping binance price for TON/USD: no USDT/USD rate available');
+    expect(logger.warn).toHaveBeenCalledWith('Dropping bybit price for TON/USD: no rate pair configured between USDC and USD');
+    expect(logger.warn).toHaveBeenCalledWith('Dropping odd price for TON/USD: odd prices TON in itself');
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  AggregatedPriceData,
+  OracleData,
+  PriceData,
+  QuoteAdjustment,
+  QuoteNormalizationConfig,
+  TradingPair,
+  Logger,
+  MetricsCollector
+} from '@/types';
+
+/**
+ * Converts prices a venue listed in another quote, e.g. USDT for a USD
+ * pair, into the pair's canonical quote using the oracle's own aggregates
+ * for the configured rate pairs. Points whose rate is missing or older
+ * than maxRateAge are dropped rather than converted.
+ */
+export class QuoteNormalizer {
+  private ratePairs: Set<string>;
+  private maxRateAge: number;
+  private logger: Logger;
+  private metrics: MetricsCollector;
+
+  constructor(config: QuoteNormalizationConfig, logger: Logger, metrics: MetricsCollector) {
+    this.ratePairs = new Set(config.ratePairs);
+    this.maxRateAge = config.maxRateAge;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  isRatePair(pairKey: string): boolean {
+    return this.ratePairs.has(pairKey);
+  }
+
+  /**
+   * Pair data in the pair's quote, with the adjustment recorded in each
+   * converted point's metadata
+   */
+  normalize(
+    pair: TradingPair,
+    pairData: OracleData<PriceData>[],
+    rates: Map<string, AggregatedPriceData>
+  ): OracleData<PriceData>[] {
+    const pairKey = `${pair.base}/${pair.quote}`;
+    const normalized: OracleData<PriceData>[] = [];
+
+    for (const data of pairData) {
+      const listedQuote = data.value.listedQuote;
+      if (!listedQuote || listedQuote === pair.quote) {
+        normalized.push(data);
+        continue;
+      }
+
+      const conversion = listedQuote === pair.base
+        ? `${data.source} prices ${pair.base} in itself`
+        : this.findRate(listedQuote, pair.quote, rates);
+
+      if (typeof conversion === 'string') {
+        this.logger.warn(`Dropping ${data.source} price for ${pairKey}: ${conversion}`);
+        this.metrics.increment('price_oracle.quote_normalization_rejected', {
+          pair: pairKey,
+          source: data.source,
+          quote: listedQuote
+        });
+        continue;
+      }
+
+      const adjustment: QuoteAdjustment = {
+        from: listedQuote,
+        to: pair.quote,
+        ratePair: conversion.ratePair,
+        rate: conversion.rate,
+        rateTimestamp: conversion.timestamp,
+        originalPrice: data.value.price
+      };
+
+      normalized.push({
+        ...data,
+        value: { ...data.value, quote: pair.quote, price: data.value.price * conversion.rate },
+        metadata: { ...data.metadata, quoteAdjustment: adjustment }
+      });
+      this.metrics.gauge('price_oracle.quote_adjustment', conversion.rate, {
+        pair: pairKey,
+        source: data.source
+      });
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Multiplier from one quote to another, or why there is none
+   */
+  private findRate(
+    from: string,
+    to: string,
+    rates: Map<string, AggregatedPriceData>
+  ): { ratePair: string; rate: number; timestamp: number } | string {
+    const direct = `${from}/${to}`;
+    const inverse = `${to}/${from}`;
+    const ratePair = this.ratePairs.has(direct) ? direct : this.ratePairs.has(inverse) ? inverse : undefined;
+    if (!ratePair) {
+      return `no rate pair configured between ${from} and ${to}`;
+    }
+
+    const aggregate = rates.get(ratePair);
+    if (!aggregate || !(aggregate.price > 0)) {
+      return `no ${ratePair} rate available`;
+    }
+
+    const age = (Date.now() - aggregate.timestamp) / 1000;
+    if (age > this.maxRateAge) {
+      return `${ratePair} rate is stale (${Math.round(age)}s old)`;
+    }
+
+    return {
+      ratePair,
+      rate: ratePair === direct ? aggregate.price : 1 / aggregate.price,
+      timestamp: aggregate.timestamp
+    };
+  }
+}
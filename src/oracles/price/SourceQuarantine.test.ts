@@ -0,0 +1,71 @@
+import { SourceQuarantine } from './SourceQuarantine';
+import { Logger, MetricsCollector, PriceData } from '@/types';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+const T0 = 1_700_000_000_000;
+
+function price(source: string, value = 5): PriceData {
+  return { base: 'TON', quote: 'USD', price: value, timestamp: T0, source };
+}
+
+describe('SourceQuarantine', () => {
+  let quarantine: SourceQuarantine;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: T0 });
+    jest.clearAllMocks();
+    quarantine = new SourceQuarantine({ maxConsecutiveOutliers: 3, duration: 60 }, logger, metrics);
+  });
+  afterEach(() => jest.useRealTimers());
+
+  const outlier = (source: string, pairKey = 'TON/USD') =>
+    quarantine.record(pairKey, [price('binance')], [price(source, 9)]);
+
+  it('quarantines a source after consecutive outliers for one pair', () => {
+    outlier('okx');
+    outlier('okx');
+    expect(quarantine.isQuarantined('okx')).toBe(false);
+
+    outlier('okx');
+    expect(quarantine.isQuarantined('okx')).toBe(true);
+    expect(quarantine.getQuarantined()).toEqual({ okx: T0 + 60_000 });
+    expect(metrics.increment).toHaveBeenCalledWith('price_oracle.source_quarantined', { source: 'okx', pair: 'TON/USD' });
+  });
+
+  it('restarts the streak when the source is accepted', () => {
+    outlier('okx');
+    outlier('okx');
+    quarantine.record('TON/USD', [price('okx')], []);
+    outlier('okx');
+
+    expect(quarantine.isQuarantined('okx')).toBe(false);
+  });
+
+  it('counts streaks per pair', () => {
+    outlier('okx', 'TON/USD');
+    outlier('okx', 'BTC/USD');
+    outlier('okx', 'TON/USD');
+
+    expect(quarantine.isQuarantined('okx')).toBe(false);
+  });
+
+  it('releases the source once the quarantine expires, with a fresh streak', () => {
+    outlier('okx');
+    outlier('okx');
+    outlier('okx');
+
+    jest.advanceTimersByTime(59_999);
+    expect(quarantine.getQuarantinedUntil('okx')).toBe(T0 + 60_000);
+
+    jest.advanceTimersByTime(1);
+    expect(quarantine.isQuarantined('okx')).toBe(false);
+    expect(quarantine.getQuarantined()).toEqual({});
+    expect(metrics.gauge).toHaveBeenLastCalledWith('price_oracle.source_quarantine', 0, { source: 'okx' });
+
+    // One more outlier does not send it straight back
+    outlier('okx');
+    expect(quarantine.isQuarantined('okx')).toBe(false);
+  });
+});
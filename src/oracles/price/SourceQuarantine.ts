@@ -0,0 +1,87 @@
+import { PriceData, QuarantineConfig, Logger, MetricsCollector } from '@/types';
+
+/**
+ * Leaves out sources whose prices keep being rejected as outliers for a
+ * pair, until the quarantine expires
+ */
+export class SourceQuarantine {
+  private config: QuarantineConfig;
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private streaks: Map<string, number> = new Map();      // 'source|pair' -> consecutive rejections
+  private quarantined: Map<string, number> = new Map();  // Source -> quarantine end in ms
+
+  constructor(config: QuarantineConfig, logger: Logger, metrics: MetricsCollector) {
+    this.config = config;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  /**
+   * Record the outcome of a pair's outlier check
+   */
+  record(pairKey: string, accepted: PriceData[], outliers: PriceData[]): void {
+    for (const data of accepted) {
+      this.streaks.delete(`${data.source}|${pairKey}`);
+    }
+
+    for (const data of outliers) {
+      const key = `${data.source}|${pairKey}`;
+      const streak = (this.streaks.get(key) || 0) + 1;
+      this.streaks.set(key, streak);
+
+      if (streak >= this.config.maxConsecutiveOutliers && !this.isQuarantined(data.source)) {
+        this.quarantine(data.source, pairKey, streak);
+      }
+    }
+  }
+
+  isQuarantined(source: string): boolean {
+    const until = this.quarantined.get(source);
+    if (until === undefined) return false;
+
+    if (Date.now() >= until) {
+      this.release(source);
+      return false;
+    }
+    return true;
+  }
+
+  getQuarantinedUntil(source: string): number | undefined {
+    return this.isQuarantined(source) ? this.quarantined.get(source) : undefined;
+  }
+
+  getQuarantined(): Record<string, number> {
+    const result: Record<string, number> = {};
+    for (const source of Array.from(this.quarantined.keys())) {
+      const until = this.getQuarantinedUntil(source);
+      if (until !== undefined) {
+        result[source] = until;
+      }
+    }
+    return result;
+  }
+
+  private quarantine(source: string, pairKey: string, streak: number): void {
+    const until = Date.now() + this.config.duration * 1000;
+    this.quarantined.set(source, until);
+
+    this.logger.warn(`Source ${source} quarantined after ${streak} consecutive outliers for ${pairKey}`, {
+      until: new Date(until).toISOString()
+    });
+    this.metrics.increment('price_oracle.source_quarantined', { source, pair: pairKey });
+    this.metrics.gauge('price_oracle.source_quarantine', 1, { source });
+  }
+
+  private release(source: string): void {
+    this.quarantined.delete(source);
+    for (const key of Array.from(this.streaks.keys())) {
+      if (key.startsWith(`${source}|`)) {
+        this.streaks.delete(key);
+      }
+    }
+
+    this.logger.info(`Source ${source} released from quarantine`);
+    this.metrics.gauge('price_oracle.source_quarantine', 0, { source });
+  }
+}
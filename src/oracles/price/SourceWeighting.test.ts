@@ -0,0 +1,88 @@
+import { AdaptiveSourceWeights } from './SourceWeighting';
+import { AdaptiveWeightConfig, SourceObservation } from '@/types';
+
+const config: AdaptiveWeightConfig = {
+  window: 4,
+  minObservations: 2,
+  minWeight: 0.1,
+  maxWeight: 2,
+  deviationScale: 1,
+  latencyScale: 500,
+  stalenessScale: 30
+};
+
+const BASE = new Map([['binance', 1], ['okx', 1.5]]);
+
+function observation(fields: Partial<SourceObservation> = {}): SourceObservation {
+  return { timestamp: 0, deviation: 0, latency: 0, staleness: 0, ...fields };
+}
+
+describe('AdaptiveSourceWeights', () => {
+  let weights: AdaptiveSourceWeights;
+
+  beforeEach(() => {
+    weights = new AdaptiveSourceWeights(config);
+  });
+
+  it('keeps the configured weight until a source has enough history', () => {
+    weights.record('TON/USD', 'okx', observation({ deviation: 5 }));
+
+    expect(weights.getWeights('TON/USD', BASE)).toEqual(BASE);
+  });
+
+  it('halves a factor when its mean equals the scale', () => {
+    weights.record('TON/USD', 'okx', observation({ deviation: 0.5 }));
+    weights.record('TON/USD', 'okx', observation({ deviation: 1.5, latency: 500 }));
+
+    const okx = weights.getSnapshot(BASE)['TON/USD'].okx;
+    expect(okx).toMatchObject({ accuracy: 0.5, freshness: 1 });
+    expect(okx.latency).toBeCloseTo(2 / 3, 10);
+    expect(okx.weight).toBeCloseTo(1.5 * 0.5 * (2 / 3), 10);
+  });
+
+  it('decays a source that keeps deviating and recovers it as the window moves on', () => {
+    for (let i = 0; i < 4; i++) {
+      weights.record('TON/USD', 'okx', observation({ deviation: 3 }));
+    }
+    expect(weights.getWeights('TON/USD', BASE).get('okx')).toBeCloseTo(1.5 / 4, 10);
+
+    weights.record('TON/USD', 'okx', observation());
+    weights.record('TON/USD', 'okx', observation());
+    expect(weights.getWeights('TON/USD', BASE).get('okx')).toBeCloseTo(1.5 / 2.5, 10);
+
+    weights.record('TON/USD', 'okx', observation());
+    weights.record('TON/USD', 'okx', observation());
+    expect(weights.getWeights('TON/USD', BASE).get('okx')).toBe(1.5);
+  });
+
+  it('counts stale data against freshness', () => {
+    weights.record('TON/USD', 'binance', observation({ staleness: 90 }));
+    weights.record('TON/USD', 'binance', observation({ staleness: 90 }));
+
+    expect(weights.getWeights('TON/USD', BASE).get('binance')).toBeCloseTo(0.25, 10);
+  });
+
+  it('clamps weights to the configured bounds', () => {
+    const wide = new AdaptiveSourceWeights({ ...config, maxWeight: 1.2 });
+    for (let i = 0; i < 2; i++) {
+      wide.record('TON/USD', 'binance', observation({ deviation: 100 }));
+      wide.record('TON/USD', 'okx', observation());
+    }
+
+    const adapted = wide.getWeights('TON/USD', BASE);
+    expect(adapted.get('binance')).toBe(0.1);
+    expect(adapted.get('okx')).toBe(1.2);
+  });
+
+  it('keeps weights per pair', () => {
+    weights.record('TON/USD', 'okx', observation({ deviation: 3 }));
+    weights.record('TON/USD', 'okx', observation({ deviation: 3 }));
+
+    expect(weights.getWeights('BTC/USD', BASE).get('okx')).toBe(1.5);
+  });
+
+  it('rejects inconsistent bounds and windows', () => {
+    expect(() => new AdaptiveSourceWeights({ ...config, minWeight: 3 })).toThrow('Invalid weight bounds: [3, 2]');
+    expect(() => new AdaptiveSourceWeights({ ...config, minObservations: 5 })).toThrow('Invalid weighting window: 5 of 4');
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  AdaptiveWeightConfig,
+  SourceObservation,
+  SourceWeight,
+  ValidationError
+} from '@/types';
+
+/**
+ * Per-pair source weights scaled by each source's recent track record:
+ * deviation from the final aggregate, fetch latency and data staleness.
+ * Each factor scores 1 / (1 + mean / scale), so a mean equal to its scale
+ * halves that factor; the weight is the configured weight times the
+ * product of the factors, clamped to the configured bounds.
+ */
+export class AdaptiveSourceWeights {
+  private config: AdaptiveWeightConfig;
+  private history: Map<string, Map<string, SourceObservation[]>> = new Map(); // Pair -> source -> window
+
+  constructor(config: AdaptiveWeightConfig) {
+    if (config.minWeight < 0 || config.maxWeight < config.minWeight) {
+      throw new ValidationError(`Invalid weight bounds: [${config.minWeight}, ${config.maxWeight}]`);
+    }
+    if (config.window < 1 || config.minObservations > config.window) {
+      throw new ValidationError(`Invalid weighting window: ${config.minObservations} of ${config.window}`);
+    }
+
+    this.config = config;
+  }
+
+  /**
+   * Record how a source's data compared with the pair's final aggregate
+   */
+  record(pairKey: string, source: string, observation: SourceObservation): void {
+    let sources = this.history.get(pairKey);
+    if (!sources) {
+      sources = new Map();
+      this.history.set(pairKey, sources);
+    }
+
+    const window = sources.get(source) || [];
+    window.push(observation);
+    if (window.length > this.config.window) {
+      window.splice(0, window.length - this.config.window);
+    }
+    sources.set(source, window);
+  }
+
+  /**
+   * Weights for the pair's sources; sources without enough history keep
+   * their configured weight
+   */
+  getWeights(pairKey: string, baseWeights: Map<string, number>): Map<string, number> {
+    const weights = new Map(baseWeights);
+
+    for (const [source, observations] of this.history.get(pairKey) || []) {
+      weights.set(source, this.evaluate(baseWeights.get(source) ?? 1, observations).weight);
+    }
+
+    return weights;
+  }
+
+  getSnapshot(baseWeights: Map<string, number>): Record<string, Record<string, SourceWeight>> {
+    const snapshot: Record<string, Record<string, SourceWeight>> = {};
+
+    for (const [pairKey, sources] of this.history) {
+      snapshot[pairKey] = {};
+      for (const [source, observations] of sources) {
+        snapshot[pairKey][source] = this.evaluate(baseWeights.get(source) ?? 1, observations);
+      }
+    }
+
+    return snapshot;
+  }
+
+  private evaluate(baseWeight: number, observations: SourceObservation[]): SourceWeight {
+    const latencies = observations.filter(o => o.latency !== undefined).map(o => o.latency!);
+
+    const accuracy = this.factor(this.mean(observations.map(o => o.deviation)), this.config.deviationScale);
+    const latency = this.factor(this.mean(latencies), this.config.latencyScale);
+    const freshness = this.factor(this.mean(observations.map(o => o.staleness)), this.config.stalenessScale);
+    const score = accuracy * latency * freshness;
+
+    const weight = observations.length < this.config.minObservations
+      ? baseWeight
+      : Math.min(Math.max(baseWeight * score, this.config.minWeight), this.config.maxWeight);
+
+    return {
+      baseWeight,
+      weight,
+      score,
+      accuracy,
+      latency,
+      freshness,
+      observations: [...observations]
+    };
+  }
+
+  private factor(mean: number, scale: number): number {
+    return scale > 0 ? 1 / (1 + mean / scale) : 1;
+  }
+
+  private mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  }
+}
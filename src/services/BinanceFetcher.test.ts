@@ -0,0 +1,75 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { BinanceFetcher } from './DataFetcher';
+import { RateLimiterRegistry } from './RateLimiter';
+import { Logger, MetricsCollector } from '@/types';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+describe('BinanceFetcher', () => {
+  let server: Server;
+  let failing: boolean;
+  let requests: string[];
+  let fetcher: BinanceFetcher;
+
+  beforeEach(async () => {
+    failing = false;
+    requests = [];
+    server = createServer((request, response) => {
+      requests.push(new URL(request.url!, 'http://binance.test').pathname);
+      response.setHeader('Content-Type', 'application/json');
+      if (failing) {
+        response.statusCode = 500;
+        response.end('{}');
+      } else if (request.url!.startsWith('/ticker/price')) {
+        response.end(JSON.stringify({ symbol: 'TONUSDT', price: '5.4321' }));
+      } else {
+        response.end(JSON.stringify({ symbol: 'TONUSDT', volume: '1000000', priceChangePercent: '-1.5' }));
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    fetcher = new BinanceFetcher(
+      {
+        baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        rateLimit: 1200,
+        health: { failureThreshold: 1, openDuration: 50 }
+      },
+      logger,
+      metrics,
+      undefined,
+      new RateLimiterRegistry()
+    );
+  });
+
+  afterEach(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('joins price and 24h stats', async () => {
+    await expect(fetcher.fetchPrice('TON', 'USD')).resolves.toMatchObject({
+      base: 'TON',
+      quote: 'USD',
+      price: 5.4321,
+      volume24h: 1000000,
+      change24h: -1.5,
+      listedQuote: 'USDT'
+    });
+    expect(requests).toEqual(['/ticker/price', '/ticker/24hr']);
+  });
+
+  it('recovers through a single half-open trial', async () => {
+    failing = true;
+    await expect(fetcher.fetchPrice('TON', 'USD')).rejects.toThrow('Request failed for binance');
+    await expect(fetcher.fetchPrice('TON', 'USD')).rejects.toThrow('Circuit open for binance, request not sent');
+    expect(requests).toHaveLength(1);
+
+    failing = false;
+    jest.clearAllMocks();
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    await expect(fetcher.fetchPrice('TON', 'USD')).resolves.toMatchObject({ price: 5.4321 });
+    expect(requests).toHaveLength(3);
+    expect((await fetcher.getStatus()).health!.state).toBe('closed');
+    expect(metrics.increment).not.toHaveBeenCalledWith('data_fetcher.circuit_rejected', expect.anything());
+  });
+});
@@ -7,8 +7,15 @@ import {
   PriceSourceType,
   Logger, 
   MetricsCollector,
-  NetworkError 
+  NetworkError,
+  SourceHealthConfig,
+  SourceBreakerState
 } from '@/types';
+import { SymbolRegistry, defaultSymbolRegistry } from './SymbolRegistry';
+import { RateLimiterRegistry, TokenBucket, defaultRateLimiters, parseRetryAfter } from './RateLimiter';
+import { SourceCircuitBreaker } from './SourceHealth';
+
+const DEFAULT_RATE_LIMIT_BACKOFF = 60000; // ms to back off on 429/418 without Retry-After
 
 export abstract class DataFetcher implements PriceSource {
   protected client: AxiosInstance;
@@ -20,25 +27,42 @@ export abstract class DataFetcher implements PriceSource {
   };
   protected logger: Logger;
   protected metrics: MetricsCollector;
+  protected symbols: SymbolRegistry;
   protected requestCount: number = 0;
   protected lastRequestTime: number = 0;
+  protected lastSuccessfulFetch: number = 0;
   protected errorCount: number = 0;
+  protected breaker: SourceCircuitBreaker;
+  protected sourceType: PriceSourceType = PriceSourceType.CENTRALIZED_EXCHANGE;
+  protected endpointWeights: Record<string, number> = {}; // Request weight by url, 1 when missing
+  private rateLimiters: RateLimiterRegistry;
+  private limiter?: TokenBucket;
 
   abstract name: string;
-  abstract isOnline: boolean;
 
   constructor(
-    config: { baseUrl: string; apiKey?: string; timeout?: number; rateLimit?: number },
+    config: {
+      baseUrl: string;
+      apiKey?: string;
+      timeout?: number;
+      rateLimit?: number;
+      health?: Partial<SourceHealthConfig>;
+    },
     logger: Logger,
-    metrics: MetricsCollector
+    metrics: MetricsCollector,
+    symbols: SymbolRegistry = defaultSymbolRegistry,
+    rateLimiters: RateLimiterRegistry = defaultRateLimiters
   ) {
     this.config = {
       timeout: 10000,
-      rateLimit: 60, // requests per minute
+      rateLimit: 60, // request weight per minute
       ...config
     };
     this.logger = logger;
     this.metrics = metrics;
+    this.symbols = symbols;
+    this.rateLimiters = rateLimiters;
+    this.breaker = new SourceCircuitBreaker(config.health);
 
     this.client = axios.create({
       baseURL: this.config.baseUrl,
@@ -57,28 +81,61 @@ export abstract class DataFetcher implements PriceSource {
   abstract fetchMultiplePrices(pairs: TradingPair[]): Promise<PriceData[]>;
   abstract getSupportedPairs(): Promise<TradingPair[]>;
 
+  /**
+   * Whether the symbol registry maps the pair to a symbol on this venue
+   */
+  supportsPair(base: string, quote: string): boolean {
+    return this.symbols.supportsPair(this.name, base, quote);
+  }
+
+  /**
+   * Online unless the request breaker is open
+   */
+  get isOnline(): boolean {
+    return !this.breaker.isOpen();
+  }
+
   async getStatus(): Promise<SourceStatus> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    const isOnline = await this.checkConnection();
+    // Probe connectivity until requests have established a track record
+    const isOnline = this.requestCount > 0 ? this.isOnline : await this.checkConnection();
+    const rateLimit = this.getLimiter().getState();
+    const health = this.breaker.getStatus();
 
     return {
       name: this.name,
-      type: 'cex',
+      type: this.sourceType,
       isOnline,
-      lastSuccessfulFetch: this.lastRequestTime,
+      lastSuccessfulFetch: this.lastSuccessfulFetch,
       errorCount: this.errorCount,
-      averageResponseTime: 0, // Would need to track this
+      averageResponseTime: health.averageResponseTime,
+      health,
       rateLimit: {
-        current: this.requestCount,
-        limit: this.config.rateLimit,
-        resetTime: now + (60 * 1000) // Reset every minute
+        current: rateLimit.capacity - rateLimit.available,
+        limit: rateLimit.capacity,
+        resetTime: rateLimit.refillTime,
+        blockedUntil: rateLimit.blockedUntil || undefined
       }
     };
   }
 
-  protected async makeRequest<T>(config: AxiosRequestConfig): Promise<T> {
-    await this.checkRateLimit();
+  /**
+   * Request through the source's breaker and the shared rate limit budget.
+   * weight defaults to the endpoint's weight.
+   */
+  protected async makeRequest<T>(config: AxiosRequestConfig, weight?: number): Promise<T> {
+    if (!this.breaker.allowRequest()) {
+      this.metrics.increment('data_fetcher.circuit_rejected', { source: this.name });
+      throw new NetworkError(`Circuit open for ${this.name}, request not sent`, {
+        source: this.name,
+        retryAt: this.breaker.getRetryTime()
+      });
+    }
+
+    const waited = await this.getLimiter().acquire(weight ?? this.endpointWeights[config.url || ''] ?? 1);
+    if (waited > 0) {
+      this.logger.debug(`Rate limiting: waited ${waited}ms`, { source: this.name });
+      this.metrics.timing('data_fetcher.rate_limit_wait', waited, { source: this.name });
+    }
     
     const startTime = Date.now();
     
@@ -88,6 +145,8 @@ export abstract class DataFetcher implements PriceSource {
       
       const response = await this.client.request<T>(config);
       const duration = Date.now() - startTime;
+      this.lastSuccessfulFetch = Date.now();
+      this.recordBreakerOutcome(this.breaker.recordSuccess(duration));
       
       this.metrics.timing(`data_fetcher.request_duration`, duration, { 
         source: this.name,
@@ -105,6 +164,8 @@ export abstract class DataFetcher implements PriceSource {
     } catch (error) {
       this.errorCount++;
       const duration = Date.now() - startTime;
+      this.handleRateLimitResponse(error);
+      this.recordBreakerOutcome(this.breaker.recordFailure(duration));
       
       this.metrics.timing(`data_fetcher.request_duration`, duration, { 
         source: this.name,
@@ -135,16 +196,42 @@ export abstract class DataFetcher implements PriceSource {
     }
   }
 
-  private async checkRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    const minInterval = (60 * 1000) / this.config.rateLimit; // ms between requests
-    
-    if (timeSinceLastRequest < minInterval) {
-      const waitTime = minInterval - timeSinceLastRequest;
-      this.logger.debug(`Rate limiting: waiting ${waitTime}ms`, { source: this.name });
-      await this.sleep(waitTime);
+  private recordBreakerOutcome(state: SourceBreakerState | null): void {
+    if (!state) return;
+
+    if (state === 'open') {
+      this.logger.warn(`Circuit opened for ${this.name}`, this.breaker.getStatus());
+    } else {
+      this.logger.info(`Circuit ${state} for ${this.name}`);
+    }
+    this.metrics.increment('data_fetcher.circuit_state', { source: this.name, state });
+    this.metrics.gauge('data_fetcher.circuit_open', state === 'open' ? 1 : 0, { source: this.name });
+  }
+
+  /**
+   * Budget shared by every fetcher of this venue using the same API key
+   */
+  private getLimiter(): TokenBucket {
+    if (!this.limiter) {
+      const budgetKey = `${this.name}:${this.config.apiKey || 'public'}`;
+      this.limiter = this.rateLimiters.get(budgetKey, this.config.rateLimit);
     }
+    return this.limiter;
+  }
+
+  /**
+   * Back off the whole budget when the venue reports we exceeded it;
+   * 418 is Binance's temporary ban after ignoring 429s
+   */
+  private handleRateLimitResponse(error: any): void {
+    const status = error?.response?.status;
+    if (status !== 429 && status !== 418) return;
+
+    const retryAfter = parseRetryAfter(error.response.headers?.['retry-after']) ?? DEFAULT_RATE_LIMIT_BACKOFF;
+    this.getLimiter().block(Date.now() + retryAfter);
+
+    this.logger.warn(`Rate limited by ${this.name}, backing off for ${retryAfter}ms`, { status });
+    this.metrics.increment('data_fetcher.rate_limited', { source: this.name, status });
   }
 
   private setupInterceptors(): void {
@@ -189,28 +276,29 @@ export abstract class DataFetcher implements PriceSource {
       volume24h: data.volume24h,
       change24h: data.change24h,
       marketCap: data.marketCap,
-      confidence: data.confidence || 100
+      confidence: data.confidence ?? 100,
+      listedQuote: this.getListedQuote(data.quote)
     };
   }
+
+  /**
+   * Quote the venue lists in place of the canonical one, if different
+   */
+  protected getListedQuote(quote: string): string | undefined {
+    if (!this.symbols.hasVenue(this.name)) return undefined;
+
+    const listed = this.symbols.getQuote(this.name, quote);
+    return listed !== quote.toUpperCase() ? listed : undefined;
+  }
 }
 
 // CoinGecko Implementation
 export class CoinGeckoFetcher extends DataFetcher {
   name = 'coingecko';
-  isOnline = true;
-
-  private coinIdMap: Map<string, string> = new Map([
-    ['BTC', 'bitcoin'],
-    ['ETH', 'ethereum'],
-    ['TON', 'the-open-network'],
-    ['USDT', 'tether']
-  ]);
+  protected sourceType = PriceSourceType.PRICE_AGGREGATOR;
 
   async fetchPrice(base: string, quote: string): Promise<PriceData> {
-    const coinId = this.coinIdMap.get(base.toUpperCase());
-    if (!coinId) {
-      throw new Error(`Unsupported coin: ${base}`);
-    }
+    const coinId = this.symbols.getAssetId(this.name, base);
 
     const response = await this.makeRequest({
       url: '/simple/price',
@@ -256,7 +344,7 @@ export class CoinGeckoFetcher extends DataFetcher {
   }
 
   async getSupportedPairs(): Promise<TradingPair[]> {
-    return Array.from(this.coinIdMap.keys()).map(base => ({
+    return this.symbols.getAssets(this.name).filter(base => this.supportsPair(base, 'USD')).map(base => ({
       base,
       quote: 'USD',
       symbol: `${base}USD`,
@@ -271,21 +359,25 @@ export class CoinGeckoFetcher extends DataFetcher {
 // Binance Implementation  
 export class BinanceFetcher extends DataFetcher {
   name = 'binance';
-  isOnline = true;
+  protected endpointWeights = {
+    '/ticker/price': 2,
+    '/ticker/24hr': 2,
+    '/exchangeInfo': 20
+  };
 
   async fetchPrice(base: string, quote: string): Promise<PriceData> {
-    const symbol = `${base.toUpperCase()}${quote.toUpperCase()}`;
+    const symbol = this.symbols.getSymbol(this.name, base, quote);
     
-    const [priceResponse, statsResponse] = await Promise.all([
-      this.makeRequest<{price: string}>({
-        url: '/ticker/price',
-        params: { symbol }
-      }),
-      this.makeRequest<{volume: string, priceChangePercent: string}>({
-        url: '/ticker/24hr',
-        params: { symbol }
-      })
-    ]);
+    // One after the other: a half-open breaker lets only one trial request
+    // through, and the second request must wait for it to close again
+    const priceResponse = await this.makeRequest<{price: string}>({
+      url: '/ticker/price',
+      params: { symbol }
+    });
+    const statsResponse = await this.makeRequest<{volume: string, priceChangePercent: string}>({
+      url: '/ticker/24hr',
+      params: { symbol }
+    });
 
     return this.validatePriceData({
       base: base.toUpperCase(),
@@ -299,25 +391,27 @@ export class BinanceFetcher extends DataFetcher {
   }
 
   async fetchMultiplePrices(pairs: TradingPair[]): Promise<PriceData[]> {
-    const symbols = pairs.map(p => `${p.base.toUpperCase()}${p.quote.toUpperCase()}`);
+    const pairsBySymbol = new Map(pairs.map(p => [this.symbols.getSymbol(this.name, p.base, p.quote), p]));
     
+    // Weight 4 when querying several symbols at once
     const response = await this.makeRequest<Array<{symbol: string, price: string}>>({
       url: '/ticker/price',
-      params: { symbols: JSON.stringify(symbols) }
-    });
-
-    return response.map((item: any) => {
-      const base = item.symbol.slice(0, -4); // Assuming quote is always 4 chars (USDT)
-      const quote = item.symbol.slice(-4);
-      
-      return this.validatePriceData({
-        base,
-        quote,
-        price: parseFloat(item.price),
-        timestamp: Date.now(),
-        confidence: 98
+      params: { symbols: JSON.stringify(Array.from(pairsBySymbol.keys())) }
+    }, 4);
+
+    return response
+      .filter(item => pairsBySymbol.has(item.symbol))
+      .map(item => {
+        const pair = pairsBySymbol.get(item.symbol)!;
+        
+        return this.validatePriceData({
+          base: pair.base.toUpperCase(),
+          quote: pair.quote.toUpperCase(),
+          price: parseFloat(item.price),
+          timestamp: Date.now(),
+          confidence: 98
+        });
       });
-    });
   }
 
   async getSupportedPairs(): Promise<TradingPair[]> {
@@ -342,25 +436,15 @@ export class BinanceFetcher extends DataFetcher {
 // CoinMarketCap Implementation
 export class CoinMarketCapFetcher extends DataFetcher {
   name = 'coinmarketcap';
-  isOnline = true;
-
-  private symbolIdMap: Map<string, number> = new Map([
-    ['BTC', 1],
-    ['ETH', 1027],
-    ['TON', 11419],
-    ['USDT', 825]
-  ]);
+  protected sourceType = PriceSourceType.PRICE_AGGREGATOR;
 
   async fetchPrice(base: string, quote: string): Promise<PriceData> {
-    const id = this.symbolIdMap.get(base.toUpperCase());
-    if (!id) {
-      throw new Error(`Unsupported coin: ${base}`);
-    }
+    const id = this.symbols.getAssetId(this.name, base);
 
     const response = await this.makeRequest<{data: any}>({
       url: '/v1/cryptocurrency/quotes/latest',
       params: {
-        id: id.toString(),
+        id,
         convert: quote.toUpperCase()
       }
     });
@@ -396,7 +480,7 @@ export class CoinMarketCapFetcher extends DataFetcher {
   }
 
   async getSupportedPairs(): Promise<TradingPair[]> {
-    return Array.from(this.symbolIdMap.keys()).map(base => ({
+    return this.symbols.getAssets(this.name).filter(base => this.supportsPair(base, 'USD')).map(base => ({
       base,
       quote: 'USD',
       symbol: `${base}USD`,
@@ -406,4 +490,404 @@ export class CoinMarketCapFetcher extends DataFetcher {
       decimalPlaces: 6
     }));
   }
-}
\ No newline at end of file
+}
+
+// Kraken Implementation
+export class KrakenFetcher extends DataFetcher {
+  name = 'kraken';
+
+  async fetchPrice(base: string, quote: string): Promise<PriceData> {
+    const symbol = this.symbols.getSymbol(this.name, base, quote);
+
+    const response = await this.makeRequest<{
+      error: string[];
+      result: Record<string, { c: [string, string]; v: [string, string]; o: string }>;
+    }>({
+      url: '/0/public/Ticker',
+      params: { pair: symbol }
+    });
+
+    if (response.error?.length > 0) {
+      throw new Error(`Kraken error for ${symbol}: ${response.error.join(', ')}`);
+    }
+
+    // Results are keyed by Kraken's internal pair name, e.g. XXBTZUSD
+    const ticker = Object.values(response.result || {})[0];
+    if (!ticker) {
+      throw new Error(`No data found for ${base}/${quote}`);
+    }
+
+    const price = parseFloat(ticker.c[0]);
+    const open = parseFloat(ticker.o);
+
+    return this.validatePriceData({
+      base: base.toUpperCase(),
+      quote: quote.toUpperCase(),
+      price,
+      volume24h: parseFloat(ticker.v[1]),
+      change24h: open > 0 ? ((price - open) / open) * 100 : undefined,
+      timestamp: Date.now(),
+      confidence: 97
+    });
+  }
+
+  async fetchMultiplePrices(pairs: TradingPair[]): Promise<PriceData[]> {
+    const results: PriceData[] = [];
+    
+    for (const pair of pairs) {
+      try {
+        results.push(await this.fetchPrice(pair.base, pair.quote));
+      } catch (error) {
+        this.logger.warn(`Failed to fetch ${pair.base}/${pair.quote} from Kraken`, { error });
+      }
+    }
+    
+    return results;
+  }
+
+  async getSupportedPairs(): Promise<TradingPair[]> {
+    return this.symbols.getAssets(this.name).filter(base => this.supportsPair(base, 'USD')).map(base => ({
+      base,
+      quote: 'USD',
+      symbol: this.symbols.getSymbol(this.name, base, 'USD'),
+      isActive: true,
+      minPrice: 0.000001,
+      maxPrice: 1000000,
+      decimalPlaces: 6
+    }));
+  }
+
+  protected async checkConnection(): Promise<boolean> {
+    try {
+      await this.client.get('/0/public/Time', { timeout: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// OKX Implementation
+export class OKXFetcher extends DataFetcher {
+  name = 'okx';
+
+  async fetchPrice(base: string, quote: string): Promise<PriceData> {
+    const instId = this.symbols.getSymbol(this.name, base, quote);
+
+    const response = await this.makeRequest<{
+      code: string;
+      msg: string;
+      data: Array<{ instId: string; last: string; open24h: string; vol24h: string; ts: string }>;
+    }>({
+      url: '/api/v5/market/ticker',
+      params: { instId }
+    });
+
+    if (response.code !== '0') {
+      throw new Error(`OKX error for ${instId}: ${response.msg}`);
+    }
+
+    const ticker = response.data?.[0];
+    if (!ticker) {
+      throw new Error(`No data found for ${base}/${quote}`);
+    }
+
+    const price = parseFloat(ticker.last);
+    const open = parseFloat(ticker.open24h);
+
+    return this.validatePriceData({
+      base: base.toUpperCase(),
+      quote: quote.toUpperCase(),
+      price,
+      volume24h: parseFloat(ticker.vol24h),
+      change24h: open > 0 ? ((price - open) / open) * 100 : undefined,
+      timestamp: parseInt(ticker.ts) || Date.now(),
+      confidence: 97
+    });
+  }
+
+  async fetchMultiplePrices(pairs: TradingPair[]): Promise<PriceData[]> {
+    const results: PriceData[] = [];
+    
+    for (const pair of pairs) {
+      try {
+        results.push(await this.fetchPrice(pair.base, pair.quote));
+      } catch (error) {
+        this.logger.warn(`Failed to fetch ${pair.base}/${pair.quote} from OKX`, { error });
+      }
+    }
+    
+    return results;
+  }
+
+  async getSupportedPairs(): Promise<TradingPair[]> {
+    return this.symbols.getAssets(this.name).filter(base => this.supportsPair(base, 'USD')).map(base => ({
+      base,
+      quote: 'USD',
+      symbol: this.symbols.getSymbol(this.name, base, 'USD'),
+      isActive: true,
+      minPrice: 0.000001,
+      maxPrice: 1000000,
+      decimalPlaces: 6
+    }));
+  }
+
+  protected async checkConnection(): Promise<boolean> {
+    try {
+      await this.client.get('/api/v5/public/time', { timeout: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Bybit Implementation
+export class BybitFetcher extends DataFetcher {
+  name = 'bybit';
+
+  async fetchPrice(base: string, quote: string): Promise<PriceData> {
+    const symbol = this.symbols.getSymbol(this.name, base, quote);
+
+    const response = await this.makeRequest<{
+      retCode: number;
+      retMsg: string;
+      time: number;
+      result: { list: Array<{ symbol: string; lastPrice: string; volume24h: string; price24hPcnt: string }> };
+    }>({
+      url: '/v5/market/tickers',
+      params: { category: 'spot', symbol }
+    });
+
+    if (response.retCode !== 0) {
+      throw new Error(`Bybit error for ${symbol}: ${response.retMsg}`);
+    }
+
+    const ticker = response.result?.list?.[0];
+    if (!ticker) {
+      throw new Error(`No data found for ${base}/${quote}`);
+    }
+
+    return this.validatePriceData({
+      base: base.toUpperCase(),
+      quote: quote.toUpperCase(),
+      price: parseFloat(ticker.lastPrice),
+      volume24h: parseFloat(ticker.volume24h),
+      change24h: parseFloat(ticker.price24hPcnt) * 100, // Reported as a fraction
+      timestamp: response.time || Date.now(),
+      confidence: 97
+    });
+  }
+
+  async fetchMultiplePrices(pairs: TradingPair[]): Promise<PriceData[]> {
+    const results: PriceData[] = [];
+    
+    for (const pair of pairs) {
+      try {
+        results.push(await this.fetchPrice(pair.base, pair.quote));
+      } catch (error) {
+        this.logger.warn(`Failed to fetch ${pair.base}/${pair.quote} from Bybit`, { error });
+      }
+    }
+    
+    return results;
+  }
+
+  async getSupportedPairs(): Promise<TradingPair[]> {
+    return this.symbols.getAssets(this.name).filter(base => this.supportsPair(base, 'USD')).map(base => ({
+      base,
+      quote: 'USD',
+      symbol: this.symbols.getSymbol(this.name, base, 'USD'),
+      isActive: true,
+      minPrice: 0.000001,
+      maxPrice: 1000000,
+      decimalPlaces: 6
+    }));
+  }
+
+  protected async checkConnection(): Promise<boolean> {
+    try {
+      await this.client.get('/v5/market/time', { timeout: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Pyth Hermes Implementation
+export interface HermesPrice {
+  price: string;             // Integer price scaled by 10^expo
+  conf: string;              // Confidence interval, same scale as price
+  expo: number;
+  publish_time: number;      // Unix timestamp in seconds
+}
+
+export interface HermesParsedUpdate {
+  id: string;                // Feed id, hex without 0x prefix
+  price: HermesPrice;
+  ema_price: HermesPrice;
+}
+
+export interface HermesLatestPriceResponse {
+  parsed?: HermesParsedUpdate[];
+}
+
+export class PythFetcher extends DataFetcher {
+  name = 'pyth';
+  protected sourceType = PriceSourceType.ORACLE_NETWORK;
+
+  // Confidence points lost per basis point of relative confidence interval
+  private static readonly CONFIDENCE_PENALTY_PER_BP = 1;
+  private static readonly DEFAULT_MAX_AGE = 60;
+
+  private maxAge: number;                             // Seconds since publish_time before an update is refused
+  private feedIds: Map<string, string> = new Map();   // 'BASE/QUOTE' -> feed id
+  private pairsByFeed: Map<string, { base: string; quote: string }> = new Map();
+
+  constructor(
+    config: { 
+      baseUrl: string; 
+      apiKey?: string; 
+      timeout?: number; 
+      rateLimit?: number; 
+      health?: Partial<SourceHealthConfig>;
+      priceIds: Record<string, string>;  // 'BASE/QUOTE' -> Pyth feed id
+      maxAge?: number;
+    },
+    logger: Logger,
+    metrics: MetricsCollector
+  ) {
+    super(config, logger, metrics);
+    this.maxAge = config.maxAge ?? PythFetcher.DEFAULT_MAX_AGE;
+
+    for (const [pairKey, feedId] of Object.entries(config.priceIds)) {
+      const [base, quote] = pairKey.toUpperCase().split('/');
+      if (!base || !quote) {
+        throw new Error(`Invalid Pyth pair key: ${pairKey}`);
+      }
+
+      const id = PythFetcher.normalizeFeedId(feedId);
+      this.feedIds.set(`${base}/${quote}`, id);
+      this.pairsByFeed.set(id, { base, quote });
+    }
+  }
+
+  async fetchPrice(base: string, quote: string): Promise<PriceData> {
+    const [priceData] = await this.fetchFeeds([this.getFeedId(base, quote)]);
+    if (!priceData) {
+      throw new Error(`No data found for ${base}/${quote}`);
+    }
+    return priceData;
+  }
+
+  async fetchMultiplePrices(pairs: TradingPair[]): Promise<PriceData[]> {
+    const feedIds = pairs
+      .map(p => this.feedIds.get(`${p.base.toUpperCase()}/${p.quote.toUpperCase()}`))
+      .filter((id): id is string => !!id);
+
+    if (feedIds.length === 0) return [];
+    return this.fetchFeeds(feedIds);
+  }
+
+  supportsPair(base: string, quote: string): boolean {
+    return this.feedIds.has(`${base.toUpperCase()}/${quote.toUpperCase()}`);
+  }
+
+  async getSupportedPairs(): Promise<TradingPair[]> {
+    return Array.from(this.pairsByFeed.values()).map(({ base, quote }) => ({
+      base,
+      quote,
+      symbol: `${base}${quote}`,
+      isActive: true,
+      minPrice: 0.000001,
+      maxPrice: 1000000,
+      decimalPlaces: 6
+    }));
+  }
+
+  /**
+   * Convert a Hermes latest-price response into price data, skipping
+   * feeds that aren't mapped to a pair and updates older than maxAge
+   */
+  parseLatestPrices(response: HermesLatestPriceResponse): PriceData[] {
+    const results: PriceData[] = [];
+
+    for (const update of response.parsed || []) {
+      const pair = this.pairsByFeed.get(PythFetcher.normalizeFeedId(update.id));
+      if (!pair) {
+        this.logger.debug(`Ignoring unmapped Pyth feed ${update.id}`);
+        continue;
+      }
+
+      const age = Date.now() / 1000 - update.price.publish_time;
+      if (age > this.maxAge) {
+        this.logger.warn(`Stale Pyth update for ${pair.base}/${pair.quote}`, { age: Math.round(age), maxAge: this.maxAge });
+        this.metrics.increment('data_fetcher.stale_rejected', { source: this.name, pair: `${pair.base}/${pair.quote}` });
+        continue;
+      }
+
+      const price = PythFetcher.scale(update.price.price, update.price.expo);
+      const interval = PythFetcher.scale(update.price.conf, update.price.expo);
+
+      results.push(this.validatePriceData({
+        base: pair.base,
+        quote: pair.quote,
+        price,
+        timestamp: update.price.publish_time * 1000,
+        confidence: PythFetcher.toConfidenceScore(price, interval)
+      }));
+    }
+
+    return results;
+  }
+
+  protected async checkConnection(): Promise<boolean> {
+    try {
+      await this.client.get('/live', { timeout: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async fetchFeeds(feedIds: string[]): Promise<PriceData[]> {
+    const response = await this.makeRequest<HermesLatestPriceResponse>({
+      url: '/v2/updates/price/latest',
+      params: {
+        ids: feedIds.map(id => `0x${id}`),
+        parsed: true,
+        encoding: 'hex'
+      }
+    });
+
+    return this.parseLatestPrices(response);
+  }
+
+  private getFeedId(base: string, quote: string): string {
+    const feedId = this.feedIds.get(`${base.toUpperCase()}/${quote.toUpperCase()}`);
+    if (!feedId) {
+      throw new Error(`Unsupported pair: ${base}/${quote}`);
+    }
+    return feedId;
+  }
+
+  private static normalizeFeedId(feedId: string): string {
+    return feedId.toLowerCase().replace(/^0x/, '');
+  }
+
+  private static scale(value: string, expo: number): number {
+    // Dividing by an exact power of ten keeps e.g. 6512345678e-8 exact
+    return expo < 0
+      ? Number(value) / Math.pow(10, -expo)
+      : Number(value) * Math.pow(10, expo);
+  }
+
+  private static toConfidenceScore(price: number, interval: number): number {
+    if (price <= 0) return 0;
+
+    const intervalBps = (interval / price) * 10000;
+    const score = 100 - intervalBps * PythFetcher.CONFIDENCE_PENALTY_PER_BP;
+    return Math.min(Math.max(score, 0), 100);
+  }
+}
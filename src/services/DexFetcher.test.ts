@@ -0,0 +1,118 @@
+import { Address, TupleItem, TupleReader, beginCell } from '@ton/core';
+import { DedustPoolFetcher, GetMethodRunner, StonfiPoolFetcher } from './DexFetcher';
+import { DexPoolConfig, Logger, MetricsCollector, PriceSourceType, ValidationError } from '@/types';
+
+const POOL = 'EQCD39VS5jcptHL8vMjEXrzGaRcCVYto7HUn4bpAOg8xqB2N';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+function int(value: bigint): TupleItem {
+  return { type: 'int', value };
+}
+
+function address(raw: string): TupleItem {
+  return { type: 'slice', cell: beginCell().storeAddress(Address.parse(raw)).endCell() };
+}
+
+// get_pool_data: reserve0, reserve1, token0 wallet, token1 wallet, lp fee,
+// protocol fee, ref fee, protocol fee address, collected protocol fees
+function stonfiPoolData(reserve0: bigint, reserve1: bigint): TupleItem[] {
+  return [
+    int(reserve0),
+    int(reserve1),
+    address('EQBynBO23ywHy_CgarY9NK9FTz0yDsG82PtcbSTQgGoXwiuA'),
+    address('EQAvlWFDxGF2lXm67y4yzC17wYKD9A0guwPkMs1gOsM__NOT'),
+    int(20n),
+    int(10n),
+    int(10n),
+    address(POOL),
+    int(0n),
+    int(0n)
+  ];
+}
+
+// get_reserves: reserve0, reserve1
+function dedustReserves(reserve0: bigint, reserve1: bigint): TupleItem[] {
+  return [int(reserve0), int(reserve1)];
+}
+
+function runner(stack: TupleItem[]): GetMethodRunner & { runGetMethod: jest.Mock } {
+  return { runGetMethod: jest.fn(async () => new TupleReader(stack)) };
+}
+
+function pool(overrides: Partial<DexPoolConfig> = {}): DexPoolConfig {
+  return {
+    base: 'JETTON',
+    quote: 'TON',
+    address: POOL,
+    baseDecimals: 9,
+    quoteDecimals: 9,
+    baseIsToken0: true,
+    minLiquidity: 1000,
+    ...overrides
+  };
+}
+
+describe('DexPoolFetcher', () => {
+  it('decodes STON.fi reserves from get_pool_data', async () => {
+    // 2,000,000 JETTON against 50,000 TON
+    const client = runner(stonfiPoolData(2_000_000n * 10n ** 9n, 50_000n * 10n ** 9n));
+    const fetcher = new StonfiPoolFetcher([pool()], client, logger, metrics);
+
+    const price = await fetcher.fetchPrice('JETTON', 'TON');
+
+    expect(client.runGetMethod).toHaveBeenCalledWith(POOL, 'get_pool_data');
+    expect(price).toMatchObject({ base: 'JETTON', quote: 'TON', price: 0.025, source: 'stonfi' });
+    expect((await fetcher.getStatus()).type).toBe(PriceSourceType.DECENTRALIZED_EXCHANGE);
+  });
+
+  it('decodes DeDust reserves from get_reserves in the pool token order', async () => {
+    // The pool holds TON first: 50,000 TON against 2,000,000 JETTON
+    const client = runner(dedustReserves(50_000n * 10n ** 9n, 2_000_000n * 10n ** 9n));
+    const fetcher = new DedustPoolFetcher([pool({ baseIsToken0: false })], client, logger, metrics);
+
+    const price = await fetcher.fetchPrice('JETTON', 'TON');
+
+    expect(client.runGetMethod).toHaveBeenCalledWith(POOL, 'get_reserves');
+    expect(price.price).toBe(0.025);
+  });
+
+  it('scales each reserve by its own jetton decimals', async () => {
+    // 1,000 TON (9 decimals) against 5,000 USDT (6 decimals)
+    const client = runner(dedustReserves(1_000n * 10n ** 9n, 5_000n * 10n ** 6n));
+    const fetcher = new DedustPoolFetcher(
+      [pool({ base: 'TON', quote: 'USDT', baseDecimals: 9, quoteDecimals: 6, minLiquidity: 100 })],
+      client,
+      logger,
+      metrics
+    );
+
+    expect((await fetcher.fetchPrice('TON', 'USDT')).price).toBe(5);
+  });
+
+  it('rejects an empty pool', async () => {
+    const fetcher = new DedustPoolFetcher([pool()], runner(dedustReserves(0n, 0n)), logger, metrics);
+
+    await expect(fetcher.fetchPrice('JETTON', 'TON')).rejects.toThrow(ValidationError);
+    await expect(fetcher.fetchPrice('JETTON', 'TON')).rejects.toThrow(/Empty pool/);
+  });
+
+  it('rejects a pool whose quote liquidity is below the floor without hurting source health', async () => {
+    const fetcher = new StonfiPoolFetcher(
+      [pool({ minLiquidity: 1000 })],
+      runner(stonfiPoolData(100_000n * 10n ** 9n, 999n * 10n ** 9n)),
+      logger,
+      metrics
+    );
+
+    await expect(fetcher.fetchPrice('JETTON', 'TON')).rejects.toThrow(/Liquidity below floor/);
+    expect(metrics.increment).toHaveBeenCalledWith('dex_fetcher.low_liquidity', { source: 'stonfi', pair: 'JETTON/TON' });
+    expect((await fetcher.getStatus()).health!.consecutiveFailures).toBe(0);
+  });
+
+  it('refuses pairs without a configured pool', async () => {
+    const fetcher = new DedustPoolFetcher([pool()], runner(dedustReserves(1n, 1n)), logger, metrics);
+    await expect(fetcher.fetchPrice('BTC', 'USD')).rejects.toThrow(/Unsupported pair/);
+  });
+});
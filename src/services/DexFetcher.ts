@@ -0,0 +1,232 @@
+import { TupleReader } from '@ton/core';
+import {
+  PriceData,
+  PriceSource,
+  TradingPair,
+  SourceStatus,
+  PriceSourceType,
+  DexPoolConfig,
+  Logger,
+  MetricsCollector,
+  ValidationError,
+  NetworkError,
+  SourceHealthConfig,
+  SourceBreakerState
+} from '@/types';
+import { TONClientService } from './TONClient';
+import { SourceCircuitBreaker } from './SourceHealth';
+
+export type GetMethodRunner = Pick<TONClientService, 'runGetMethod'>;
+
+export interface PoolReserves {
+  reserve0: bigint;
+  reserve1: bigint;
+}
+
+/**
+ * Prices derived from on-chain DEX pool reserves
+ */
+export abstract class DexPoolFetcher implements PriceSource {
+  protected tonClient: GetMethodRunner;
+  protected logger: Logger;
+  protected metrics: MetricsCollector;
+  protected pools: Map<string, DexPoolConfig> = new Map();
+  protected lastSuccessfulFetch: number = 0;
+  protected errorCount: number = 0;
+  protected breaker: SourceCircuitBreaker;
+
+  abstract name: string;
+
+  constructor(
+    pools: DexPoolConfig[],
+    tonClient: GetMethodRunner,
+    logger: Logger,
+    metrics: MetricsCollector,
+    health?: Partial<SourceHealthConfig>
+  ) {
+    this.tonClient = tonClient;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.breaker = new SourceCircuitBreaker(health);
+
+    for (const pool of pools) {
+      this.pools.set(`${pool.base.toUpperCase()}/${pool.quote.toUpperCase()}`, pool);
+    }
+  }
+
+  /**
+   * Get-method whose result stack starts with reserve0 and reserve1
+   */
+  protected abstract reservesMethod: string;
+
+  /**
+   * Parse the leading reserves from a get-method result stack
+   */
+  static parseReserves(stack: TupleReader): PoolReserves {
+    return {
+      reserve0: stack.readBigNumber(),
+      reserve1: stack.readBigNumber()
+    };
+  }
+
+  /**
+   * Read the pool's raw reserves, in the pool's own token order
+   */
+  protected async readReserves(pool: DexPoolConfig): Promise<PoolReserves> {
+    const stack = await this.tonClient.runGetMethod(pool.address, this.reservesMethod);
+    return DexPoolFetcher.parseReserves(stack);
+  }
+
+  async fetchPrice(base: string, quote: string): Promise<PriceData> {
+    const pool = this.pools.get(`${base.toUpperCase()}/${quote.toUpperCase()}`);
+    if (!pool) {
+      throw new Error(`Unsupported pair: ${base}/${quote}`);
+    }
+
+    if (!this.breaker.allowRequest()) {
+      this.metrics.increment('dex_fetcher.circuit_rejected', { source: this.name });
+      throw new NetworkError(`Circuit open for ${this.name}, request not sent`, {
+        source: this.name,
+        retryAt: this.breaker.getRetryTime()
+      });
+    }
+
+    const startTime = Date.now();
+    let reserves: PoolReserves;
+
+    try {
+      reserves = await this.readReserves(pool);
+    } catch (error) {
+      this.errorCount++;
+      this.logBreakerChange(this.breaker.recordFailure(Date.now() - startTime));
+      this.metrics.increment('dex_fetcher.request_error', { source: this.name });
+      throw error;
+    }
+
+    const duration = Date.now() - startTime;
+    this.lastSuccessfulFetch = Date.now();
+    this.logBreakerChange(this.breaker.recordSuccess(duration));
+    this.metrics.timing('dex_fetcher.request_duration', duration, { source: this.name });
+
+    // Pool-level rejections such as low liquidity don't count against the source's health
+    return this.calculatePrice(pool, reserves);
+  }
+
+  /**
+   * Online unless the request breaker is open
+   */
+  get isOnline(): boolean {
+    return !this.breaker.isOpen();
+  }
+
+  async fetchMultiplePrices(pairs: TradingPair[]): Promise<PriceData[]> {
+    const results: PriceData[] = [];
+
+    for (const pair of pairs) {
+      try {
+        results.push(await this.fetchPrice(pair.base, pair.quote));
+      } catch (error) {
+        this.logger.warn(`Failed to fetch ${pair.base}/${pair.quote} from ${this.name}`, { error });
+      }
+    }
+
+    return results;
+  }
+
+  supportsPair(base: string, quote: string): boolean {
+    return this.pools.has(`${base.toUpperCase()}/${quote.toUpperCase()}`);
+  }
+
+  async getSupportedPairs(): Promise<TradingPair[]> {
+    return Array.from(this.pools.values()).map(pool => ({
+      base: pool.base.toUpperCase(),
+      quote: pool.quote.toUpperCase(),
+      symbol: `${pool.base.toUpperCase()}${pool.quote.toUpperCase()}`,
+      isActive: true,
+      minPrice: 0,
+      maxPrice: Number.MAX_SAFE_INTEGER,
+      decimalPlaces: Math.min(pool.quoteDecimals, 9)
+    }));
+  }
+
+  async getStatus(): Promise<SourceStatus> {
+    const health = this.breaker.getStatus();
+
+    return {
+      name: this.name,
+      type: PriceSourceType.DECENTRALIZED_EXCHANGE,
+      isOnline: this.isOnline,
+      lastSuccessfulFetch: this.lastSuccessfulFetch,
+      errorCount: this.errorCount,
+      averageResponseTime: health.averageResponseTime,
+      health
+    };
+  }
+
+  private logBreakerChange(state: SourceBreakerState | null): void {
+    if (!state) return;
+
+    this.logger[state === 'open' ? 'warn' : 'info'](`Circuit ${state} for ${this.name}`, this.breaker.getStatus());
+    this.metrics.increment('dex_fetcher.circuit_state', { source: this.name, state });
+  }
+
+  /**
+   * Spot price of base in quote from reserves, rejecting pools whose
+   * quote-side liquidity is below the configured floor
+   */
+  calculatePrice(pool: DexPoolConfig, reserves: PoolReserves): PriceData {
+    const pairKey = `${pool.base}/${pool.quote}`;
+    const [baseReserve, quoteReserve] = pool.baseIsToken0
+      ? [reserves.reserve0, reserves.reserve1]
+      : [reserves.reserve1, reserves.reserve0];
+
+    const baseAmount = DexPoolFetcher.toUnits(baseReserve, pool.baseDecimals);
+    const quoteAmount = DexPoolFetcher.toUnits(quoteReserve, pool.quoteDecimals);
+
+    if (baseAmount <= 0 || quoteAmount <= 0) {
+      throw new ValidationError(`Empty pool for ${pairKey}`, { pool: pool.address });
+    }
+
+    if (quoteAmount < pool.minLiquidity) {
+      this.metrics.increment('dex_fetcher.low_liquidity', { source: this.name, pair: pairKey });
+      throw new ValidationError(
+        `Liquidity below floor for ${pairKey}: ${quoteAmount} < ${pool.minLiquidity} ${pool.quote}`,
+        { pool: pool.address }
+      );
+    }
+
+    // Deeper pools are harder to move; each 10x above the floor adds 5 points
+    const depth = pool.minLiquidity > 0 ? Math.log10(quoteAmount / pool.minLiquidity) : 2;
+    const confidence = Math.min(80 + depth * 5, 100);
+
+    return {
+      base: pool.base.toUpperCase(),
+      quote: pool.quote.toUpperCase(),
+      price: quoteAmount / baseAmount,
+      timestamp: Date.now(),
+      source: this.name,
+      confidence,
+      listedQuote: pool.listedQuote?.toUpperCase()
+    };
+  }
+
+  private static toUnits(amount: bigint, decimals: number): number {
+    return Number(amount) / Math.pow(10, decimals);
+  }
+}
+
+// STON.fi Implementation
+export class StonfiPoolFetcher extends DexPoolFetcher {
+  name = 'stonfi';
+
+  // Returns reserve0, reserve1, the router's token wallets and fee settings
+  protected reservesMethod = 'get_pool_data';
+}
+
+// DeDust Implementation
+export class DedustPoolFetcher extends DexPoolFetcher {
+  name = 'dedust';
+
+  // Returns reserve0 and reserve1 in the pool's asset order
+  protected reservesMethod = 'get_reserves';
+}
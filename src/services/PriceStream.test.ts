@@ -0,0 +1,207 @@
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { BinanceStreamProtocol, PriceStream, StreamingFetcher } from './PriceStream';
+import { Logger, MetricsCollector, PriceData, PriceSource, StreamTick } from '@/types';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+function trade(symbol: string, price: string, timestamp: number = Date.now()) {
+  return JSON.stringify({ e: 'trade', s: symbol, p: price, q: '0.5', T: timestamp });
+}
+
+async function waitFor(condition: () => boolean, timeout: number = 3000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Local venue stub recording the frames each connection sends
+ */
+class StubVenue {
+  server: WebSocketServer;
+  sockets: WebSocket[] = [];
+  received: any[] = [];
+
+  constructor(port: number = 0) {
+    this.server = new WebSocketServer({ port, host: '127.0.0.1' });
+    this.server.on('connection', socket => {
+      this.sockets.push(socket);
+      socket.on('message', raw => this.received.push(JSON.parse(raw.toString())));
+    });
+  }
+
+  async listening(): Promise<number> {
+    if (!this.server.address()) {
+      await new Promise(resolve => this.server.once('listening', resolve));
+    }
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  send(frame: string): void {
+    this.sockets[this.sockets.length - 1].send(frame);
+  }
+
+  async close(): Promise<void> {
+    for (const socket of this.server.clients) socket.terminate();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+}
+
+describe('PriceStream', () => {
+  let venue: StubVenue;
+  let stream: PriceStream;
+
+  function createStream(port: number, config: { staleAfter?: number; reconnectDelay?: number } = {}): PriceStream {
+    return new PriceStream(
+      'binance',
+      { url: `ws://127.0.0.1:${port}`, reconnectDelay: 50, maxReconnectDelay: 1000, ...config },
+      new BinanceStreamProtocol(),
+      logger,
+      metrics
+    );
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    venue = new StubVenue();
+  });
+
+  afterEach(async () => {
+    stream?.stop();
+    await venue.close();
+  });
+
+  it('subscribes on connect and caches ticks', async () => {
+    stream = createStream(await venue.listening());
+    const ticks: StreamTick[] = [];
+    stream.on('tick', tick => ticks.push(tick));
+
+    stream.start(['BTCUSDT', 'TONUSDT']);
+    await waitFor(() => venue.received.length > 0);
+
+    expect(venue.received).toEqual([{ method: 'SUBSCRIBE', params: ['btcusdt@trade', 'tonusdt@trade'], id: 1 }]);
+    expect(stream.isConnected()).toBe(true);
+
+    venue.send(trade('BTCUSDT', '65000.5', 1000));
+    venue.send(trade('BTCUSDT', '64000', 900));
+    await waitFor(() => ticks.length > 0);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    // The out-of-order tick is ignored
+    expect(ticks).toHaveLength(1);
+    expect(stream.getLatest('BTCUSDT')).toMatchObject({ symbol: 'BTCUSDT', price: 65000.5, timestamp: 1000, volume: 0.5 });
+  });
+
+  it('reconnects with exponential backoff and resubscribes', async () => {
+    const port = await venue.listening();
+    stream = createStream(port);
+    stream.start(['BTCUSDT']);
+    await waitFor(() => venue.received.length === 1);
+
+    // Refused connections double the delay until the venue is back
+    await venue.close();
+    await waitFor(() => stream.getStatus().reconnects >= 3);
+    venue = new StubVenue(port);
+    await waitFor(() => venue.received.length === 1);
+
+    const delays = (logger.info as jest.Mock).mock.calls
+      .map(([message]) => /in (\d+)ms/.exec(message)?.[1])
+      .filter(Boolean)
+      .map(Number);
+    expect(delays.slice(0, 3)).toEqual([50, 100, 200]);
+    expect(venue.received[0].params).toEqual(['btcusdt@trade']);
+    expect(metrics.increment).toHaveBeenCalledWith('price_stream.disconnected', { source: 'binance' });
+  });
+
+  it('recycles a connection that goes quiet', async () => {
+    stream = createStream(await venue.listening(), { staleAfter: 100 });
+    stream.start(['BTCUSDT']);
+    await waitFor(() => venue.sockets.length === 1);
+
+    await waitFor(() => venue.sockets.length === 2);
+    expect(metrics.increment).toHaveBeenCalledWith('price_stream.stale', { source: 'binance' });
+  });
+
+  it('counts malformed frames without dropping the connection', async () => {
+    stream = createStream(await venue.listening());
+    stream.start(['BTCUSDT']);
+    await waitFor(() => venue.received.length === 1);
+
+    venue.send('not json');
+    venue.send(JSON.stringify({ e: 'trade', p: '1' }));
+    venue.send(trade('BTCUSDT', '-5'));
+    venue.send(trade('BTCUSDT', 'NaN'));
+    venue.send(trade('BTCUSDT', '65000'));
+    await waitFor(() => stream.getLatest('BTCUSDT') !== undefined);
+
+    expect(metrics.increment).toHaveBeenCalledWith('price_stream.parse_error', { source: 'binance' });
+    expect((metrics.increment as jest.Mock).mock.calls.filter(([metric]) => metric === 'price_stream.parse_error')).toHaveLength(1);
+    expect(stream.getLatest('BTCUSDT')?.price).toBe(65000);
+    expect(stream.isConnected()).toBe(true);
+  });
+});
+
+describe('StreamingFetcher', () => {
+  let venue: StubVenue;
+  let stream: PriceStream;
+
+  const restPrice: PriceData = { base: 'BTC', quote: 'USD', price: 64900, timestamp: 1, source: 'binance', listedQuote: 'USDT' };
+  const fallback: PriceSource & { fetchPrice: jest.Mock } = {
+    name: 'binance',
+    isOnline: true,
+    fetchPrice: jest.fn(async () => restPrice),
+    fetchMultiplePrices: jest.fn(async () => [restPrice]),
+    getSupportedPairs: jest.fn(async () => []),
+    supportsPair: jest.fn(() => true),
+    getStatus: jest.fn()
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    venue = new StubVenue();
+    stream = new PriceStream(
+      'binance',
+      { url: `ws://127.0.0.1:${await venue.listening()}` },
+      new BinanceStreamProtocol(),
+      logger,
+      metrics
+    );
+  });
+
+  afterEach(async () => {
+    stream.stop();
+    await venue.close();
+  });
+
+  it('serves fresh stream prices and falls back to REST once they go stale', async () => {
+    const fetcher = new StreamingFetcher(stream, { 'BTC/USD': 'BTCUSDT' }, logger, metrics, {
+      fallback,
+      maxAge: 100,
+      listedQuotes: { 'BTC/USD': 'USDT' }
+    });
+    await fetcher.start();
+    await waitFor(() => venue.received.length === 1);
+
+    venue.send(trade('BTCUSDT', '65000'));
+    await waitFor(() => stream.getLatest('BTCUSDT') !== undefined);
+
+    expect(await fetcher.fetchPrice('BTC', 'USD')).toMatchObject({ price: 65000, quote: 'USD', listedQuote: 'USDT' });
+    expect(fallback.fetchPrice).not.toHaveBeenCalled();
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(await fetcher.fetchPrice('BTC', 'USD')).toBe(restPrice);
+    expect(fallback.fetchPrice).toHaveBeenCalledWith('BTC', 'USD');
+    expect(metrics.increment).toHaveBeenCalledWith('price_stream.cache_miss', { source: 'binance', pair: 'BTC/USD' });
+  });
+
+  it('fails without a fallback when the stream has nothing fresh', async () => {
+    const fetcher = new StreamingFetcher(stream, { 'BTC/USD': 'BTCUSDT' }, logger, metrics);
+
+    await expect(fetcher.fetchPrice('BTC', 'USD')).rejects.toThrow('No fresh stream price for BTC/USD from binance');
+  });
+});
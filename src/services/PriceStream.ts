@@ -0,0 +1,450 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import {
+  PriceData,
+  PriceSource,
+  TradingPair,
+  SourceStatus,
+  StreamStatus,
+  StreamTick,
+  PriceStreamConfig,
+  PriceSourceType,
+  Logger,
+  MetricsCollector,
+  NetworkError
+} from '@/types';
+
+export type StreamUpdate = Omit<StreamTick, 'receivedAt'>;
+
+/**
+ * Venue-specific subscription and message format of a price stream
+ */
+export interface StreamProtocol {
+  subscribeMessages(symbols: string[]): unknown[];
+  parse(message: any): StreamUpdate[];
+}
+
+export interface JsonStreamFormat {
+  subscribe?: unknown;       // Sent once per symbol, with "{symbol}" replaced
+  symbolPath: string;        // Dot paths into each message
+  pricePath: string;
+  timestampPath?: string;    // Event time in ms, receive time when absent
+}
+
+// Binance Implementation
+export class BinanceStreamProtocol implements StreamProtocol {
+  private channel: 'trade' | 'bookTicker';
+
+  constructor(channel: 'trade' | 'bookTicker' = 'trade') {
+    this.channel = channel;
+  }
+
+  subscribeMessages(symbols: string[]): unknown[] {
+    return [{
+      method: 'SUBSCRIBE',
+      params: symbols.map(symbol => `${symbol.toLowerCase()}@${this.channel}`),
+      id: 1
+    }];
+  }
+
+  parse(message: any): StreamUpdate[] {
+    // Combined streams wrap the payload as { stream, data }
+    const data = message?.data ?? message;
+    if (!data?.s) return [];
+
+    if (data.e === 'trade') {
+      return [{
+        symbol: data.s,
+        price: parseFloat(data.p),
+        timestamp: data.T,
+        volume: parseFloat(data.q)
+      }];
+    }
+
+    if (this.channel === 'bookTicker' && data.b !== undefined && data.a !== undefined) {
+      return [{
+        symbol: data.s,
+        price: (parseFloat(data.b) + parseFloat(data.a)) / 2,
+        timestamp: data.E ?? Date.now()
+      }];
+    }
+
+    return [];
+  }
+}
+
+// Generic JSON Implementation
+export class JsonStreamProtocol implements StreamProtocol {
+  private format: JsonStreamFormat;
+
+  constructor(format: JsonStreamFormat) {
+    this.format = format;
+  }
+
+  subscribeMessages(symbols: string[]): unknown[] {
+    if (this.format.subscribe === undefined) return [];
+
+    const template = JSON.stringify(this.format.subscribe);
+    return symbols.map(symbol => JSON.parse(template.split('{symbol}').join(symbol)));
+  }
+
+  parse(message: any): StreamUpdate[] {
+    const symbol = JsonStreamProtocol.read(message, this.format.symbolPath);
+    const price = Number(JsonStreamProtocol.read(message, this.format.pricePath));
+    if (symbol === undefined || isNaN(price)) return [];
+
+    const timestamp = this.format.timestampPath
+      ? Number(JsonStreamProtocol.read(message, this.format.timestampPath))
+      : Date.now();
+
+    return [{ symbol: String(symbol), price, timestamp }];
+  }
+
+  private static read(message: any, path: string): any {
+    return path.split('.').reduce((value, key) => value?.[key], message);
+  }
+}
+
+/**
+ * WebSocket price feed keeping the last tick per symbol, reconnecting
+ * with exponential backoff and recycling connections that go quiet.
+ * Emits 'tick' with every accepted StreamTick.
+ */
+export class PriceStream extends EventEmitter {
+  private config: Required<PriceStreamConfig>;
+  private protocol: StreamProtocol;
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private socket?: WebSocket;
+  private symbols: string[] = [];
+  private cache: Map<string, StreamTick> = new Map();
+  private running: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnects: number = 0;
+  private lastMessageAt: number = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private staleTimer?: NodeJS.Timeout;
+
+  readonly name: string;
+
+  constructor(
+    name: string,
+    config: PriceStreamConfig,
+    protocol: StreamProtocol,
+    logger: Logger,
+    metrics: MetricsCollector
+  ) {
+    super();
+    this.name = name;
+    this.config = {
+      url: config.url,
+      staleAfter: config.staleAfter ?? 30000,
+      reconnectDelay: config.reconnectDelay ?? 1000,
+      maxReconnectDelay: config.maxReconnectDelay ?? 60000
+    };
+    this.protocol = protocol;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  start(symbols: string[]): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.symbols = symbols;
+    this.connect();
+    this.staleTimer = setInterval(() => this.checkStale(), this.config.staleAfter / 2);
+  }
+
+  stop(): void {
+    this.running = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    if (this.staleTimer) {
+      clearInterval(this.staleTimer);
+      this.staleTimer = undefined;
+    }
+
+    const socket = this.socket;
+    this.socket = undefined;
+    socket?.terminate();
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  getLatest(symbol: string): StreamTick | undefined {
+    return this.cache.get(symbol);
+  }
+
+  getStatus(): StreamStatus {
+    return {
+      connected: this.isConnected(),
+      lastMessageAt: this.lastMessageAt,
+      reconnects: this.reconnects,
+      subscriptions: this.symbols.length
+    };
+  }
+
+  private connect(): void {
+    const socket = new WebSocket(this.config.url, { handshakeTimeout: this.config.staleAfter });
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+
+      for (const message of this.protocol.subscribeMessages(this.symbols)) {
+        socket.send(JSON.stringify(message));
+      }
+
+      this.logger.info(`Price stream connected: ${this.name}`, { symbols: this.symbols });
+      this.metrics.increment('price_stream.connected', { source: this.name });
+    });
+
+    socket.on('message', (raw: WebSocket.RawData) => this.handleMessage(raw.toString()));
+
+    socket.on('error', (error: Error) => {
+      this.logger.warn(`Price stream error: ${this.name}`, { error: error.message });
+      this.metrics.increment('price_stream.error', { source: this.name });
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+
+      this.socket = undefined;
+      this.metrics.increment('price_stream.disconnected', { source: this.name });
+      this.scheduleReconnect();
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running) return;
+
+    const delay = Math.min(
+      this.config.reconnectDelay * Math.pow(2, this.reconnectAttempts),
+      this.config.maxReconnectDelay
+    );
+    this.reconnectAttempts++;
+    this.reconnects++;
+
+    this.logger.info(`Reconnecting price stream ${this.name} in ${delay}ms`, { attempt: this.reconnectAttempts });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      if (this.running) this.connect();
+    }, delay);
+  }
+
+  /**
+   * Recycle an open connection that has not delivered anything within
+   * staleAfter; the close handler reconnects it
+   */
+  private checkStale(): void {
+    if (!this.isConnected()) return;
+
+    const silence = Date.now() - this.lastMessageAt;
+    if (silence > this.config.staleAfter) {
+      this.logger.warn(`Price stream ${this.name} is stale, reconnecting`, { silence });
+      this.metrics.increment('price_stream.stale', { source: this.name });
+      this.socket!.terminate();
+    }
+  }
+
+  private handleMessage(raw: string): void {
+    const receivedAt = Date.now();
+    this.lastMessageAt = receivedAt;
+
+    let updates: StreamUpdate[];
+    try {
+      updates = this.protocol.parse(JSON.parse(raw));
+    } catch (error) {
+      this.logger.debug(`Unparseable message on price stream ${this.name}`, { error });
+      this.metrics.increment('price_stream.parse_error', { source: this.name });
+      return;
+    }
+
+    for (const update of updates) {
+      if (!(update.price > 0)) continue;
+
+      // Ignore ticks older than the cached one, venues may deliver out of order
+      const previous = this.cache.get(update.symbol);
+      if (previous && update.timestamp < previous.timestamp) continue;
+
+      const tick: StreamTick = { ...update, receivedAt };
+      this.cache.set(update.symbol, tick);
+      this.emit('tick', tick);
+    }
+  }
+}
+
+/**
+ * Price source served from a live stream's cache. Pairs without a fresh
+ * tick fall back to the wrapped polling source, when there is one.
+ */
+export class StreamingFetcher implements PriceSource {
+  private stream: PriceStream;
+  private symbols: Map<string, string>;
+  private pairsBySymbol: Map<string, string> = new Map();
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private fallback?: PriceSource;
+  private maxAge: number;
+  private confidence: number;
+  private listedQuotes: Record<string, string>;
+
+  name: string;
+
+  constructor(
+    stream: PriceStream,
+    symbols: Record<string, string>,   // 'BASE/QUOTE' -> venue symbol
+    logger: Logger,
+    metrics: MetricsCollector,
+    options: {
+      fallback?: PriceSource;
+      maxAge?: number;
+      confidence?: number;
+      listedQuotes?: Record<string, string>;  // 'BASE/QUOTE' -> quote the stream prices in, if different
+    } = {}
+  ) {
+    this.stream = stream;
+    this.symbols = new Map(Object.entries(symbols).map(([pair, symbol]) => [pair.toUpperCase(), symbol]));
+    this.logger = logger;
+    this.metrics = metrics;
+    this.fallback = options.fallback;
+    this.maxAge = options.maxAge ?? 30000;
+    this.confidence = options.confidence ?? 98;
+    this.listedQuotes = options.listedQuotes || {};
+    this.name = options.fallback?.name ?? stream.name;
+
+    for (const [pair, symbol] of this.symbols) {
+      this.pairsBySymbol.set(symbol, pair);
+    }
+  }
+
+  get isOnline(): boolean {
+    return this.stream.isConnected() || (this.fallback?.isOnline ?? false);
+  }
+
+  async start(): Promise<void> {
+    this.stream.start(Array.from(this.symbols.values()));
+  }
+
+  async stop(): Promise<void> {
+    this.stream.stop();
+  }
+
+  onPrice(listener: (price: PriceData) => void): void {
+    this.stream.on('tick', (tick: StreamTick) => {
+      const pair = this.pairsBySymbol.get(tick.symbol);
+      if (pair) listener(this.toPriceData(pair, tick));
+    });
+  }
+
+  async fetchPrice(base: string, quote: string): Promise<PriceData> {
+    const pair = `${base.toUpperCase()}/${quote.toUpperCase()}`;
+    const cached = this.getCached(pair);
+    if (cached) return cached;
+
+    if (this.fallback) {
+      return this.fallback.fetchPrice(base, quote);
+    }
+    throw new NetworkError(`No fresh stream price for ${pair} from ${this.name}`, { source: this.name });
+  }
+
+  async fetchMultiplePrices(pairs: TradingPair[]): Promise<PriceData[]> {
+    const results: PriceData[] = [];
+    const missing: TradingPair[] = [];
+
+    for (const pair of pairs) {
+      const cached = this.getCached(`${pair.base.toUpperCase()}/${pair.quote.toUpperCase()}`);
+      if (cached) {
+        results.push(cached);
+      } else {
+        missing.push(pair);
+      }
+    }
+
+    if (missing.length > 0 && this.fallback) {
+      try {
+        results.push(...await this.fallback.fetchMultiplePrices(missing));
+      } catch (error) {
+        this.logger.warn(`Fallback fetch failed for ${this.name}`, { error });
+      }
+    }
+
+    return results;
+  }
+
+  supportsPair(base: string, quote: string): boolean {
+    const pair = `${base.toUpperCase()}/${quote.toUpperCase()}`;
+    return this.symbols.has(pair) || (this.fallback?.supportsPair(base, quote) ?? false);
+  }
+
+  async getSupportedPairs(): Promise<TradingPair[]> {
+    if (this.fallback) {
+      return this.fallback.getSupportedPairs();
+    }
+
+    return Array.from(this.symbols.keys()).map(pair => {
+      const [base, quote] = pair.split('/');
+      return {
+        base,
+        quote,
+        symbol: `${base}${quote}`,
+        isActive: true,
+        minPrice: 0,
+        maxPrice: Number.MAX_SAFE_INTEGER,
+        decimalPlaces: 8
+      };
+    });
+  }
+
+  async getStatus(): Promise<SourceStatus> {
+    const stream = this.stream.getStatus();
+    const status: SourceStatus = this.fallback
+      ? await this.fallback.getStatus()
+      : {
+          name: this.name,
+          type: PriceSourceType.CENTRALIZED_EXCHANGE,
+          isOnline: stream.connected,
+          lastSuccessfulFetch: stream.lastMessageAt,
+          errorCount: 0,
+          averageResponseTime: 0
+        };
+
+    return { ...status, isOnline: this.isOnline, stream };
+  }
+
+  /**
+   * Cached stream price for the pair, or null if missing or older than maxAge
+   */
+  private getCached(pair: string): PriceData | null {
+    const symbol = this.symbols.get(pair);
+    const tick = symbol ? this.stream.getLatest(symbol) : undefined;
+
+    if (!tick || Date.now() - tick.receivedAt > this.maxAge) {
+      this.metrics.increment('price_stream.cache_miss', { source: this.name, pair });
+      return null;
+    }
+
+    this.metrics.increment('price_stream.cache_hit', { source: this.name, pair });
+    return this.toPriceData(pair, tick);
+  }
+
+  private toPriceData(pair: string, tick: StreamTick): PriceData {
+    const [base, quote] = pair.split('/');
+    return {
+      base,
+      quote,
+      price: tick.price,
+      timestamp: tick.timestamp,
+      source: this.name,
+      confidence: this.confidence,
+      listedQuote: this.listedQuotes[pair]
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { PythFetcher, HermesLatestPriceResponse } from './DataFetcher';
+import { Logger, MetricsCollector } from '@/types';
+import latestPrice from './__fixtures__/hermes-latest-price.json';
+
+const BTC_FEED = '0xe62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43';
+const ETH_FEED = '0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace';
+const PUBLISHED_AT = 1718000000;
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+function createFetcher(maxAge?: number): PythFetcher {
+  return new PythFetcher(
+    { baseUrl: 'http://hermes.test', priceIds: { 'BTC/USD': BTC_FEED, 'ETH/USD': ETH_FEED }, maxAge },
+    logger,
+    metrics
+  );
+}
+
+describe('PythFetcher', () => {
+  beforeEach(() => jest.useFakeTimers().setSystemTime((PUBLISHED_AT + 5) * 1000));
+  afterEach(() => jest.useRealTimers());
+
+  const response = latestPrice as HermesLatestPriceResponse;
+
+  it('scales prices by the feed exponent', () => {
+    const [btc] = createFetcher(600).parseLatestPrices(response);
+
+    expect(btc).toMatchObject({ base: 'BTC', quote: 'USD', source: 'pyth' });
+    expect(btc.price).toBe(65123.45678901);
+    expect(btc.timestamp).toBe(PUBLISHED_AT * 1000);
+  });
+
+  it('turns the confidence interval into a confidence score', () => {
+    const [btc, eth] = createFetcher(600).parseLatestPrices(response);
+
+    // 32.56 on 65123.46 is 5 bps, costing 5 points
+    expect(btc.confidence).toBeCloseTo(95, 6);
+    expect(eth.confidence).toBeCloseTo(95, 6);
+  });
+
+  it('skips feeds without a mapped pair', () => {
+    const pairs = createFetcher(600).parseLatestPrices(response).map(d => `${d.base}/${d.quote}`);
+    expect(pairs).toEqual(['BTC/USD', 'ETH/USD']);
+  });
+
+  it('rejects updates whose publish_time is older than maxAge', () => {
+    // ETH was published 300s before BTC
+    const fresh = createFetcher(60).parseLatestPrices(response);
+
+    expect(fresh.map(d => d.base)).toEqual(['BTC']);
+    expect(metrics.increment).toHaveBeenCalledWith('data_fetcher.stale_rejected', { source: 'pyth', pair: 'ETH/USD' });
+  });
+
+  it('rejects every update once the whole response is stale', () => {
+    jest.setSystemTime((PUBLISHED_AT + 3600) * 1000);
+    expect(createFetcher(60).parseLatestPrices(response)).toEqual([]);
+  });
+});
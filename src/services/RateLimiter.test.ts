@@ -0,0 +1,116 @@
+import { RateLimiterRegistry, TokenBucket, parseRetryAfter } from './RateLimiter';
+
+const T0 = 1_700_000_000_000;
+
+describe('TokenBucket', () => {
+  beforeEach(() => jest.useFakeTimers({ now: T0 }));
+  afterEach(() => jest.useRealTimers());
+
+  /**
+   * Acquire and record when the weight was granted
+   */
+  function track(bucket: TokenBucket, weight: number, log: string[] = [], label = '') {
+    const granted = jest.fn();
+    bucket.acquire(weight).then(waited => {
+      log.push(label);
+      granted(waited);
+    });
+    return granted;
+  }
+
+  it('refills the per-minute budget continuously', async () => {
+    const bucket = new TokenBucket(60);
+    await expect(bucket.acquire(60)).resolves.toBe(0);
+
+    const granted = track(bucket, 1);
+    await jest.advanceTimersByTimeAsync(999);
+    expect(granted).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(granted).toHaveBeenCalledWith(1000);
+    expect(bucket.getState()).toMatchObject({ available: 0, capacity: 60, refillTime: T0 + 61_000 });
+  });
+
+  it('charges the request weight', async () => {
+    const bucket = new TokenBucket(60);
+    await bucket.acquire(50);
+
+    // 10 left, 10 more refill in 10 seconds
+    const granted = track(bucket, 20);
+    await jest.advanceTimersByTimeAsync(9_999);
+    expect(granted).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(granted).toHaveBeenCalledWith(10_000);
+  });
+
+  it('caps a weight above the capacity so it passes on a full bucket', async () => {
+    const bucket = new TokenBucket(60);
+
+    await expect(bucket.acquire(100)).resolves.toBe(0);
+    expect(bucket.getState().available).toBe(0);
+  });
+
+  it('serves waiters in arrival order', async () => {
+    const bucket = new TokenBucket(60);
+    await bucket.acquire(60);
+    const order: string[] = [];
+
+    const heavy = track(bucket, 30, order, 'heavy');
+    const light = track(bucket, 1, order, 'light');
+
+    // The light request would fit after a second but waits its turn
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(light).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(29_000);
+    expect(heavy).toHaveBeenCalledWith(30_000);
+    expect(light).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(light).toHaveBeenCalledWith(31_000);
+    expect(order).toEqual(['heavy', 'light']);
+  });
+
+  it('spends nothing while blocked and refills from the end of the block', async () => {
+    const bucket = new TokenBucket(60);
+    bucket.block(T0 + 5_000);
+    expect(bucket.getState()).toMatchObject({ available: 0, blockedUntil: T0 + 5_000, refillTime: T0 + 65_000 });
+
+    const granted = track(bucket, 1);
+    await jest.advanceTimersByTimeAsync(5_999);
+    expect(granted).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(granted).toHaveBeenCalledWith(6_000);
+    expect(bucket.getState().blockedUntil).toBe(0);
+  });
+
+  it('rejects a non-positive limit', () => {
+    expect(() => new TokenBucket(0)).toThrow('Rate limit must be positive: 0');
+  });
+});
+
+describe('RateLimiterRegistry', () => {
+  it('shares one bucket per key and keeps the first limit', () => {
+    const registry = new RateLimiterRegistry();
+    const bucket = registry.get('binance:key', 1200);
+
+    expect(registry.get('binance:key', 600)).toBe(bucket);
+    expect(bucket.getState().capacity).toBe(1200);
+    expect(registry.get('binance:other', 600)).not.toBe(bucket);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(new Date(T0 + 7_000).toUTCString(), T0)).toBe(7000);
+    expect(parseRetryAfter(new Date(T0 - 7_000).toUTCString(), T0)).toBe(0);
+  });
+
+  it('ignores a missing or unreadable header', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
@@ -0,0 +1,129 @@
+export interface RateLimitState {
+  available: number;         // Weight that can be spent right now
+  capacity: number;
+  refillTime: number;        // When the bucket is full again, in ms
+  blockedUntil: number;      // Server-imposed backoff end, 0 when not blocked
+}
+
+/**
+ * Token bucket holding a per-minute request weight budget. Requests wait
+ * in arrival order until enough weight has refilled.
+ */
+export class TokenBucket {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private blockedUntil: number = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(weightPerMinute: number) {
+    if (!(weightPerMinute > 0)) {
+      throw new Error(`Rate limit must be positive: ${weightPerMinute}`);
+    }
+
+    this.capacity = weightPerMinute;
+    this.refillPerMs = weightPerMinute / 60000;
+    this.tokens = weightPerMinute;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until the weight can be spent and spend it. Weights above the
+   * capacity are capped so they can still go through on a full bucket.
+   */
+  acquire(weight: number = 1): Promise<number> {
+    const cost = Math.min(weight, this.capacity);
+    const startedAt = Date.now();
+
+    const acquired = this.queue.then(() => this.take(cost));
+    this.queue = acquired;
+    return acquired.then(() => Date.now() - startedAt);
+  }
+
+  /**
+   * Stop spending until the given time and drain the bucket, after the
+   * server rejected a request for exceeding its limit
+   */
+  block(until: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, until);
+    this.tokens = 0;
+    this.lastRefill = Math.max(Date.now(), this.blockedUntil);
+  }
+
+  getState(): RateLimitState {
+    const now = Date.now();
+    this.refill(now);
+
+    const blockedUntil = this.blockedUntil > now ? this.blockedUntil : 0;
+    const refillFrom = Math.max(now, blockedUntil);
+    return {
+      available: Math.floor(this.tokens),
+      capacity: this.capacity,
+      refillTime: refillFrom + Math.ceil((this.capacity - this.tokens) / this.refillPerMs),
+      blockedUntil
+    };
+  }
+
+  private async take(cost: number): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.blockedUntil) {
+        await this.sleep(this.blockedUntil - now);
+        continue;
+      }
+
+      this.refill(now);
+      if (this.tokens >= cost) {
+        this.tokens -= cost;
+        return;
+      }
+
+      await this.sleep(Math.ceil((cost - this.tokens) / this.refillPerMs));
+    }
+  }
+
+  private refill(now: number): void {
+    if (now <= this.lastRefill) return;
+
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Buckets shared by budget key, so fetchers calling the same venue with
+ * the same API key draw from one budget. The first limit registered for
+ * a key is kept.
+ */
+export class RateLimiterRegistry {
+  private buckets: Map<string, TokenBucket> = new Map();
+
+  get(key: string, weightPerMinute: number): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(weightPerMinute);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+}
+
+/**
+ * Parse a Retry-After header, in seconds or as an HTTP date, into ms
+ */
+export function parseRetryAfter(header: string | undefined, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+export const defaultRateLimiters = new RateLimiterRegistry();
@@ -0,0 +1,199 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Address, beginCell, external } from '@ton/core';
+import { RpcPool } from './RpcPool';
+import { Logger, MetricsCollector, NetworkError, OutcomeUnknownError, TONConfig } from '@/types';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+const MESSAGE = external({
+  to: Address.parse('EQBynBO23ywHy_CgarY9NK9FTz0yDsG82PtcbSTQgGoXwiuA'),
+  body: beginCell().storeUint(0, 32).endCell()
+});
+
+type Behaviour =
+  | { seqno: number }
+  | { status: number; headers?: Record<string, string> }
+  | 'hang';
+
+function blockId(seqno: number) {
+  return { '@type': 'ton.blockIdExt', workchain: -1, shard: '-9223372036854775808', seqno, root_hash: '', file_hash: '' };
+}
+
+/**
+ * Fake toncenter JSON-RPC node answering getMasterchainInfo as told
+ */
+class FakeNode {
+  server: Server;
+  behaviour: Behaviour;
+  requests = 0;
+
+  constructor(behaviour: Behaviour) {
+    this.behaviour = behaviour;
+    this.server = createServer((request, response) => {
+      request.resume();
+      request.on('end', () => {
+        this.requests++;
+        const behaviour = this.behaviour;
+        if (behaviour === 'hang') return;
+
+        response.setHeader('Content-Type', 'application/json');
+        if ('status' in behaviour) {
+          response.writeHead(behaviour.status, behaviour.headers);
+          response.end(JSON.stringify({ ok: false, error: `status ${behaviour.status}`, code: behaviour.status }));
+          return;
+        }
+        response.end(JSON.stringify({
+          ok: true,
+          result: { state_root_hash: '', last: blockId(behaviour.seqno), init: blockId(0) }
+        }));
+      });
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/jsonRPC`;
+  }
+
+  close(): Promise<void> {
+    this.server.closeAllConnections();
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+describe('RpcPool', () => {
+  let nodes: FakeNode[] = [];
+
+  async function pool(behaviours: Behaviour[], readQuorum?: number): Promise<RpcPool> {
+    nodes = behaviours.map(behaviour => new FakeNode(behaviour));
+    const urls = await Promise.all(nodes.map(node => node.listen()));
+    const config: TONConfig = {
+      network: 'testnet',
+      endpoint: urls[0],
+      gasLimit: 1000000,
+      gasPrice: 1000000000,
+      maxRetries: 1,
+      retryDelay: 10,
+      endpoints: urls.map((url, index) => ({ url, name: `node${index}` })),
+      readQuorum,
+      requestTimeout: 200
+    };
+    return new RpcPool(config, logger, metrics);
+  }
+
+  const seqno = (rpc: RpcPool) => rpc.call('getMasterchainInfo', client => client.getMasterchainInfo());
+  const quorumSeqno = (rpc: RpcPool) =>
+    rpc.read('getMasterchainInfo', client => client.getMasterchainInfo(), info => String(info.latestSeqno));
+
+  beforeEach(() => jest.clearAllMocks());
+
+  afterEach(async () => {
+    await Promise.all(nodes.map(node => node.close()));
+  });
+
+  it.each<[string, Behaviour]>([
+    ['a timeout', 'hang'],
+    ['a 429', { status: 429 }],
+    ['a 502', { status: 502 }],
+    ['a 503', { status: 503 }]
+  ])('fails over on %s', async (_, behaviour) => {
+    const rpc = await pool([behaviour, { seqno: 42 }]);
+
+    await expect(seqno(rpc)).resolves.toMatchObject({ latestSeqno: 42 });
+    expect(nodes.map(node => node.requests)).toEqual([1, 1]);
+    expect(metrics.increment).toHaveBeenCalledWith('ton_rpc.failover', { method: 'getMasterchainInfo', endpoint: 'node0' });
+  });
+
+  it.each([400, 500])('takes an answered %i as final', async status => {
+    const rpc = await pool([{ status }, { seqno: 42 }]);
+
+    await expect(seqno(rpc)).rejects.toMatchObject({ response: { status } });
+    expect(nodes[1].requests).toBe(0);
+    expect(metrics.increment).toHaveBeenCalledWith('ton_rpc.request_error', {
+      endpoint: 'node0',
+      method: 'getMasterchainInfo',
+      reason: 'answered'
+    });
+  });
+
+  it('reports an unknown outcome when no endpoint answered', async () => {
+    const rpc = await pool(['hang', { status: 504 }]);
+
+    const error = await seqno(rpc).catch(e => e);
+    expect(error).toBeInstanceOf(OutcomeUnknownError);
+    expect(error.code).toBe('OUTCOME_UNKNOWN');
+    expect(Object.keys(error.metadata.errors)).toEqual(['node0', 'node1']);
+  });
+
+  it('reports an unknown send outcome when a node refuses after another never answered', async () => {
+    const rpc = await pool([{ status: 504 }, { status: 500 }]);
+
+    const error = await rpc.send(MESSAGE).catch(e => e);
+    expect(error).toBeInstanceOf(OutcomeUnknownError);
+    expect(Object.keys(error.metadata.errors)).toEqual(['node0', 'node1']);
+
+    nodes[0].behaviour = 'hang';
+    await expect(seqno(rpc)).rejects.toMatchObject({ response: { status: 500 } });
+  });
+
+  it('skips a rate-limited endpoint until Retry-After has passed', async () => {
+    const rpc = await pool([{ status: 429, headers: { 'Retry-After': '2' } }, { seqno: 42 }]);
+    const before = Date.now();
+
+    await seqno(rpc);
+    const limitedUntil = rpc.getStatus()[0].rateLimitedUntil!;
+    expect(limitedUntil).toBeGreaterThanOrEqual(before + 2000);
+    expect(limitedUntil).toBeLessThanOrEqual(Date.now() + 2000);
+
+    nodes[0].behaviour = { seqno: 42 };
+    await seqno(rpc);
+    expect(nodes.map(node => node.requests)).toEqual([1, 2]);
+    expect(rpc.getStatus()[1].rateLimitedUntil).toBeUndefined();
+  });
+
+  it('reports refusals from every endpoint as not accepted', async () => {
+    const rpc = await pool([{ status: 503 }, { status: 429 }]);
+
+    const error = await seqno(rpc).catch(e => e);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).not.toBeInstanceOf(OutcomeUnknownError);
+    expect(error.message).toBe('No RPC endpoint accepted getMasterchainInfo');
+    expect(Object.keys(error.metadata.errors)).toEqual(['node0', 'node1']);
+  });
+
+  it('fails fast when every endpoint is rate limited', async () => {
+    const rpc = await pool([{ status: 429 }]);
+    const first = await seqno(rpc).catch(e => e);
+    expect(first).not.toBeInstanceOf(OutcomeUnknownError);
+    expect(first.metadata.retryAt).toBe(rpc.getStatus()[0].rateLimitedUntil);
+
+    const error = await seqno(rpc).catch(e => e);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).not.toBeInstanceOf(OutcomeUnknownError);
+    expect(error.message).toBe('No RPC endpoint available for getMasterchainInfo');
+    expect(error.metadata.retryAt).toBe(first.metadata.retryAt);
+    expect(nodes[0].requests).toBe(1);
+  });
+
+  it('returns the value a read quorum agrees on', async () => {
+    const rpc = await pool([{ seqno: 11 }, { seqno: 10 }, { seqno: 10 }], 2);
+
+    await expect(quorumSeqno(rpc)).resolves.toMatchObject({ latestSeqno: 10 });
+    expect(metrics.increment).toHaveBeenCalledWith('ton_rpc.quorum_disagreement', {
+      method: 'getMasterchainInfo',
+      endpoint: 'node0'
+    });
+  });
+
+  it('fails a read when the endpoints disagree', async () => {
+    const rpc = await pool([{ seqno: 10 }, { seqno: 11 }, { status: 503 }], 2);
+
+    const error = await quorumSeqno(rpc).catch(e => e);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.message).toBe('No 2 of 3 RPC endpoints agree on getMasterchainInfo');
+    expect(error.metadata.votes).toEqual({ '10': ['node0'], '11': ['node1'] });
+    expect(metrics.increment).toHaveBeenCalledWith('ton_rpc.quorum_failed', { method: 'getMasterchainInfo' });
+  });
+});
@@ -0,0 +1,371 @@
+import axios from 'axios';
+import { TonClient } from '@ton/ton';
+import { Message } from '@ton/core';
+import {
+  TONConfig,
+  RpcEndpointStatus,
+  SourceBreakerState,
+  Logger,
+  MetricsCollector,
+  ConfigurationError,
+  NetworkError,
+  OutcomeUnknownError
+} from '@/types';
+import { SourceCircuitBreaker } from './SourceHealth';
+import { parseRetryAfter } from './RateLimiter';
+
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+const DEFAULT_MAX_BLOCK_LAG = 5;
+const DEFAULT_HEALTH_CHECK_INTERVAL = 15000;
+const DEFAULT_RATE_LIMIT_BACKOFF = 1000; // ms to skip an endpoint after a 429 without Retry-After
+
+interface RpcEndpoint {
+  name: string;
+  url: string;
+  client: TonClient;
+  breaker: SourceCircuitBreaker;
+  latestBlock?: number;
+  lagging: boolean;
+  rateLimitedUntil: number;
+}
+
+/**
+ * TON RPC endpoints behind one interface. Requests go to the healthiest
+ * endpoint and fail over to the next when one is unreachable, overloaded
+ * or rate-limited; an answer from a node, even an error, is final. Reads
+ * of replay-protection state can require several endpoints to agree.
+ */
+export class RpcPool {
+  private endpoints: RpcEndpoint[];
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private readQuorum: number;
+  private maxBlockLag: number;
+  private healthCheckInterval: number;
+  private probeTimer?: NodeJS.Timeout;
+  private latestBlock: number = 0;
+
+  constructor(config: TONConfig, logger: Logger, metrics: MetricsCollector) {
+    const endpoints = config.endpoints?.length
+      ? config.endpoints
+      : [{ url: config.endpoint, apiKey: config.apiKey }];
+
+    this.readQuorum = config.readQuorum ?? 1;
+    if (this.readQuorum < 1 || this.readQuorum > endpoints.length) {
+      throw new ConfigurationError(`Read quorum ${this.readQuorum} needs between 1 and ${endpoints.length} endpoints`);
+    }
+
+    this.endpoints = endpoints.map(endpoint => ({
+      name: endpoint.name ?? new URL(endpoint.url).host,
+      url: endpoint.url,
+      client: new TonClient({
+        endpoint: endpoint.url,
+        apiKey: endpoint.apiKey,
+        timeout: config.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT
+      }),
+      breaker: new SourceCircuitBreaker(config.endpointHealth),
+      lagging: false,
+      rateLimitedUntil: 0
+    }));
+    this.logger = logger;
+    this.metrics = metrics;
+    this.maxBlockLag = config.maxBlockLag ?? DEFAULT_MAX_BLOCK_LAG;
+    this.healthCheckInterval = config.healthCheckInterval ?? DEFAULT_HEALTH_CHECK_INTERVAL;
+  }
+
+  /**
+   * Start probing endpoint block heights
+   */
+  start(): void {
+    if (this.probeTimer) return;
+    void this.probe();
+    this.probeTimer = setInterval(() => void this.probe(), this.healthCheckInterval);
+  }
+
+  stop(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = undefined;
+    }
+  }
+
+  /**
+   * Run a request on the healthiest endpoint, failing over to the others.
+   * An answer from a node, even an error, is final; when an endpoint never
+   * answered, the request may still have taken effect there, which is
+   * reported as an OutcomeUnknownError.
+   */
+  async call<T>(method: string, request: (client: TonClient) => Promise<T>): Promise<T> {
+    return this.failover(method, request, false);
+  }
+
+  /**
+   * Run a read on every available endpoint and return the first value
+   * readQuorum of them agree on, compared by key
+   */
+  async read<T>(method: string, request: (client: TonClient) => Promise<T>, key: (value: T) => string): Promise<T> {
+    if (this.readQuorum === 1) {
+      return this.call(method, request);
+    }
+
+    const endpoints = this.ranked().filter(endpoint => this.isAvailable(endpoint));
+    if (endpoints.length < this.readQuorum) {
+      this.metrics.increment('ton_rpc.quorum_failed', { method });
+      throw new NetworkError(`Only ${endpoints.length} RPC endpoints available for a quorum of ${this.readQuorum} on ${method}`);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const votes: Map<string, string[]> = new Map();
+      const errors: Record<string, string> = {};
+      let agreed: string | undefined;
+      let pending = endpoints.length;
+
+      const disagree = (endpoint: string) =>
+        this.metrics.increment('ton_rpc.quorum_disagreement', { method, endpoint });
+
+      for (const endpoint of endpoints) {
+        this.request(endpoint, method, request)
+          .then(value => {
+            const vote = key(value);
+            if (agreed !== undefined) {
+              if (vote !== agreed) disagree(endpoint.name);
+              return;
+            }
+
+            const voters = [...(votes.get(vote) ?? []), endpoint.name];
+            votes.set(vote, voters);
+            if (voters.length < this.readQuorum) return;
+
+            agreed = vote;
+            for (const [other, names] of votes) {
+              if (other !== vote) names.forEach(disagree);
+            }
+            resolve(value);
+          })
+          .catch(error => {
+            errors[endpoint.name] = error instanceof Error ? error.message : String(error);
+          })
+          .finally(() => {
+            pending--;
+            if (pending > 0 || agreed !== undefined) return;
+
+            this.metrics.increment('ton_rpc.quorum_failed', { method });
+            this.logger.warn(`No RPC quorum on ${method}`, { quorum: this.readQuorum, votes: Object.fromEntries(votes), errors });
+            reject(new NetworkError(`No ${this.readQuorum} of ${endpoints.length} RPC endpoints agree on ${method}`, {
+              votes: Object.fromEntries(votes),
+              errors
+            }));
+          });
+      }
+    });
+  }
+
+  /**
+   * Send an external message, failing over like call(); resending the
+   * same signed message elsewhere is safe
+   */
+  async send(message: Message): Promise<void> {
+    await this.failover('sendMessage', client => client.sendMessage(message), true);
+  }
+
+  /**
+   * Freshest masterchain seqno seen by the probes
+   */
+  getLatestBlock(): number {
+    return this.latestBlock;
+  }
+
+  getStatus(): RpcEndpointStatus[] {
+    return this.endpoints.map(endpoint => ({
+      name: endpoint.name,
+      url: endpoint.url,
+      health: endpoint.breaker.getStatus(),
+      latestBlock: endpoint.latestBlock,
+      lagging: endpoint.lagging,
+      rateLimitedUntil: endpoint.rateLimitedUntil > Date.now() ? endpoint.rateLimitedUntil : undefined
+    }));
+  }
+
+  private async request<T>(endpoint: RpcEndpoint, method: string, request: (client: TonClient) => Promise<T>): Promise<T> {
+    const startTime = Date.now();
+
+    try {
+      const result = await request(endpoint.client);
+      const duration = Date.now() - startTime;
+      this.recordBreakerOutcome(endpoint, endpoint.breaker.recordSuccess(duration));
+      this.metrics.timing('ton_rpc.request_duration', duration, { endpoint: endpoint.name, method, status: 'success' });
+      return result;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      const fault = this.isEndpointFault(error);
+      this.recordBreakerOutcome(
+        endpoint,
+        fault ? endpoint.breaker.recordFailure(duration) : endpoint.breaker.recordSuccess(duration)
+      );
+
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      if (status === 429) {
+        const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']) ?? DEFAULT_RATE_LIMIT_BACKOFF;
+        endpoint.rateLimitedUntil = Date.now() + retryAfter;
+        this.logger.warn(`Rate limited by RPC endpoint ${endpoint.name}, skipping it for ${retryAfter}ms`);
+      }
+
+      this.metrics.timing('ton_rpc.request_duration', duration, { endpoint: endpoint.name, method, status: 'error' });
+      this.metrics.increment('ton_rpc.request_error', {
+        endpoint: endpoint.name,
+        method,
+        reason: !fault ? 'answered' : status === 429 ? 'rate_limited' : status ? 'unavailable' : 'unreachable'
+      });
+      this.logger.debug(`RPC ${method} failed on ${endpoint.name}`, {
+        status,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update each endpoint's block height and flag those trailing the
+   * freshest one
+   */
+  private async probe(): Promise<void> {
+    await Promise.all(this.endpoints.filter(endpoint => this.isAvailable(endpoint)).map(async endpoint => {
+      try {
+        const info = await this.request(endpoint, 'getMasterchainInfo', client => client.getMasterchainInfo());
+        endpoint.latestBlock = info.latestSeqno;
+      } catch {
+        // Logged and counted by request()
+      }
+    }));
+
+    this.latestBlock = Math.max(this.latestBlock, ...this.endpoints.map(endpoint => endpoint.latestBlock ?? 0));
+
+    for (const endpoint of this.endpoints) {
+      if (endpoint.latestBlock === undefined) continue;
+
+      const lag = this.latestBlock - endpoint.latestBlock;
+      const lagging = lag > this.maxBlockLag;
+      this.metrics.gauge('ton_rpc.endpoint_lag', lag, { endpoint: endpoint.name });
+
+      if (lagging !== endpoint.lagging) {
+        endpoint.lagging = lagging;
+        if (lagging) {
+          this.logger.warn(`RPC endpoint ${endpoint.name} is ${lag} blocks behind`, { latestBlock: endpoint.latestBlock });
+        } else {
+          this.logger.info(`RPC endpoint ${endpoint.name} caught up`, { latestBlock: endpoint.latestBlock });
+        }
+      }
+    }
+  }
+
+  /**
+   * Closed breakers before recovering ones, up-to-date endpoints before
+   * lagging ones, then by error rate and latency
+   */
+  private ranked(): RpcEndpoint[] {
+    const rank = (endpoint: RpcEndpoint) =>
+      (endpoint.breaker.getStatus().state === 'closed' ? 0 : 2) + (endpoint.lagging ? 1 : 0);
+
+    return [...this.endpoints].sort((a, b) => {
+      const [healthA, healthB] = [a.breaker.getStatus(), b.breaker.getStatus()];
+      return rank(a) - rank(b) ||
+        healthA.errorRate - healthB.errorRate ||
+        healthA.averageResponseTime - healthB.averageResponseTime;
+    });
+  }
+
+  /**
+   * The failover loop behind call() and send(). For a request with side
+   * effects, a node's error stops being final once an earlier endpoint left
+   * the request unanswered, since it may have taken effect there.
+   */
+  private async failover<T>(
+    method: string,
+    request: (client: TonClient) => Promise<T>,
+    sideEffects: boolean
+  ): Promise<T> {
+    const errors: Record<string, string> = {};
+    let unanswered = false;
+
+    for (const endpoint of this.ranked()) {
+      if (!this.isAvailable(endpoint)) continue;
+
+      try {
+        return await this.request(endpoint, method, request);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (!this.isEndpointFault(error)) {
+          if (!(sideEffects && unanswered)) throw error;
+          errors[endpoint.name] = message;
+          throw new OutcomeUnknownError(`No definite answer to ${method}`, { errors });
+        }
+
+        errors[endpoint.name] = message;
+        unanswered = unanswered || this.isUnanswered(error);
+        this.metrics.increment('ton_rpc.failover', { method, endpoint: endpoint.name });
+      }
+    }
+
+    if (unanswered) {
+      throw new OutcomeUnknownError(`No RPC endpoint answered ${method}`, { errors });
+    }
+    if (Object.keys(errors).length > 0) {
+      throw new NetworkError(`No RPC endpoint accepted ${method}`, { errors, retryAt: this.getRetryTime() });
+    }
+    throw new NetworkError(`No RPC endpoint available for ${method}`, {
+      endpoints: this.endpoints.map(endpoint => endpoint.name),
+      retryAt: this.getRetryTime()
+    });
+  }
+
+  /**
+   * Whether a request may go to the endpoint now; reserves the trial
+   * request of a recovering breaker
+   */
+  private isAvailable(endpoint: RpcEndpoint): boolean {
+    return endpoint.rateLimitedUntil <= Date.now() && endpoint.breaker.allowRequest();
+  }
+
+  /**
+   * Failures that say nothing about the request: no answer, rate limiting,
+   * or a gateway in front of the node failing
+   */
+  private isEndpointFault(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) return false;
+    const status = error.response?.status;
+    return status === undefined || status === 429 || status >= 502;
+  }
+
+  /**
+   * Faults after which the node may still have processed the request: no
+   * answer at all, or a gateway that lost the node's answer. A 429 or 503
+   * is a refusal before processing.
+   */
+  private isUnanswered(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) return false;
+    const status = error.response?.status;
+    return status === undefined || status === 502 || status === 504;
+  }
+
+  /**
+   * When every endpoint is rate limited, the time the first one frees up
+   */
+  private getRetryTime(): number | undefined {
+    const now = Date.now();
+    if (!this.endpoints.every(endpoint => endpoint.rateLimitedUntil > now)) return undefined;
+    return Math.min(...this.endpoints.map(endpoint => endpoint.rateLimitedUntil));
+  }
+
+  private recordBreakerOutcome(endpoint: RpcEndpoint, state: SourceBreakerState | null): void {
+    if (!state) return;
+
+    if (state === 'open') {
+      this.logger.warn(`Circuit opened for RPC endpoint ${endpoint.name}`, endpoint.breaker.getStatus());
+    } else {
+      this.logger.info(`Circuit ${state} for RPC endpoint ${endpoint.name}`);
+    }
+    this.metrics.increment('ton_rpc.circuit_state', { endpoint: endpoint.name, state });
+    this.metrics.gauge('ton_rpc.circuit_open', state === 'open' ? 1 : 0, { endpoint: endpoint.name });
+  }
+}
@@ -0,0 +1,161 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { KeyPair, keyPairFromSeed, sign, signVerify } from '@ton/crypto';
+import { KeystoreSigner, RemoteSigner, decryptKeystore, encryptKeystore } from './Signer';
+import { TONClientService } from './TONClient';
+import { Logger, MetricsCollector, TONConfig, ValidationError } from '@/types';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+const ORACLE_KEY = keyPairFromSeed(Buffer.alloc(32, 1));
+const OTHER_KEY = keyPairFromSeed(Buffer.alloc(32, 2));
+const HASH = Buffer.alloc(32, 0xab);
+
+/**
+ * Remote signer stub publishing one key and signing with another, when
+ * told to misbehave
+ */
+class StubSigner {
+  server: Server;
+  publicKeyRequests = 0;
+
+  constructor(published: KeyPair, signing: KeyPair = published) {
+    this.server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => body += chunk);
+      request.on('end', () => {
+        response.setHeader('Content-Type', 'application/json');
+
+        if (request.method === 'GET' && request.url === '/v1/public-key') {
+          this.publicKeyRequests++;
+          response.end(JSON.stringify({ publicKey: published.publicKey.toString('hex') }));
+        } else if (request.method === 'POST' && request.url === '/v1/sign') {
+          const hash = Buffer.from(JSON.parse(body).hash, 'hex');
+          response.end(JSON.stringify({ signature: sign(hash, signing.secretKey).toString('hex') }));
+        } else {
+          response.statusCode = 404;
+          response.end('{}');
+        }
+      });
+    });
+  }
+
+  async listen(path?: string): Promise<string> {
+    if (path) {
+      await new Promise<void>(resolve => this.server.listen(path, resolve));
+      return path;
+    }
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+describe('RemoteSigner', () => {
+  let stub: StubSigner | undefined;
+
+  afterEach(async () => {
+    await stub?.close();
+    stub = undefined;
+  });
+
+  it('signs through the remote signer and caches its public key', async () => {
+    stub = new StubSigner(ORACLE_KEY);
+    const signer = new RemoteSigner({ url: await stub.listen() });
+
+    const signature = await signer.sign(HASH);
+    await signer.sign(HASH);
+
+    expect(signVerify(HASH, signature, ORACLE_KEY.publicKey)).toBe(true);
+    expect(await signer.getPublicKey()).toEqual(ORACLE_KEY.publicKey);
+    expect(stub.publicKeyRequests).toBe(1);
+  });
+
+  it('reaches the remote signer over a Unix socket', async () => {
+    stub = new StubSigner(ORACLE_KEY);
+    const socketPath = join(tmpdir(), `signer-${process.pid}.sock`);
+    const signer = new RemoteSigner({ socketPath: await stub.listen(socketPath) });
+
+    expect(signVerify(HASH, await signer.sign(HASH), ORACLE_KEY.publicKey)).toBe(true);
+  });
+
+  it('rejects a signature made with another key', async () => {
+    stub = new StubSigner(ORACLE_KEY, OTHER_KEY);
+    const signer = new RemoteSigner({ url: await stub.listen() });
+
+    const error = await signer.sign(HASH).catch(e => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('Remote signer returned an invalid signature');
+  });
+
+  it('refuses to sign anything but a 32-byte hash', async () => {
+    const signer = new RemoteSigner({ url: 'http://127.0.0.1:1' });
+
+    await expect(signer.sign(Buffer.alloc(31))).rejects.toThrow('Signer expects a 32-byte hash, got 31 bytes');
+  });
+
+  it('fails wallet initialization when the signer key differs from the configured one', async () => {
+    stub = new StubSigner(OTHER_KEY);
+    const url = await stub.listen();
+    const config: TONConfig = {
+      network: 'testnet',
+      endpoint: 'http://127.0.0.1:1/jsonRPC',
+      gasLimit: 1000000,
+      gasPrice: 1000000000,
+      maxRetries: 1,
+      retryDelay: 10
+    };
+    const client = new TONClientService(
+      config,
+      { signer: { type: 'remote', url }, address: '', publicKey: ORACLE_KEY.publicKey.toString('hex') },
+      logger,
+      metrics,
+      new RemoteSigner({ url })
+    );
+
+    await expect(client.initialize()).rejects.toMatchObject({ code: 'SIGNER_KEY_MISMATCH' });
+  });
+});
+
+describe('keystore', () => {
+  const passphrase = 'correct horse battery staple';
+
+  it('round-trips a wallet key through encryption', async () => {
+    const keystore = await encryptKeystore(ORACLE_KEY, passphrase);
+
+    expect(keystore.publicKey).toBe(ORACLE_KEY.publicKey.toString('hex'));
+    expect(keystore.ciphertext).not.toContain(ORACLE_KEY.secretKey.subarray(0, 32).toString('hex'));
+
+    const keyPair = await decryptKeystore(keystore, passphrase);
+    expect(keyPair.secretKey).toEqual(ORACLE_KEY.secretKey);
+    expect(keyPair.publicKey).toEqual(ORACLE_KEY.publicKey);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    const keystore = await encryptKeystore(ORACLE_KEY, passphrase);
+
+    await expect(decryptKeystore(keystore, 'wrong passphrase')).rejects.toThrow(
+      'Cannot decrypt keystore: wrong passphrase or corrupted file'
+    );
+  });
+
+  it('opens a keystore file as a signer', async () => {
+    const path = join(tmpdir(), `oracle-${process.pid}.keystore`);
+    await fs.writeFile(path, JSON.stringify(await encryptKeystore(ORACLE_KEY, passphrase)));
+
+    try {
+      const signer = await KeystoreSigner.open(path, passphrase);
+      expect(signer.type).toBe('keystore');
+      expect(signVerify(HASH, await signer.sign(HASH), ORACLE_KEY.publicKey)).toBe(true);
+    } finally {
+      await fs.unlink(path);
+    }
+  });
+});
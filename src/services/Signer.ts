@@ -0,0 +1,223 @@
+import axios, { AxiosInstance } from 'axios';
+import { promises as fs } from 'fs';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { KeyPair, keyPairFromSeed, mnemonicToWalletKey, mnemonicValidate, sign, signVerify } from '@ton/crypto';
+import { SignerConfig, SignerType, ConfigurationError, NetworkError, ValidationError } from '@/types';
+
+const HASH_LENGTH = 32;
+const SIGNATURE_LENGTH = 64;
+const DEFAULT_REMOTE_TIMEOUT = 5000;
+
+// scrypt cost for new keystores; N = 2^15 needs 32 MiB
+const KEYSTORE_KDF = { n: 1 << 15, r: 8, p: 1 };
+const KEYSTORE_VERSION = 1;
+
+/**
+ * Signs 32-byte message hashes with the oracle wallet's ed25519 key.
+ * Nothing else is ever handed over, so a signer can live outside the
+ * oracle process.
+ */
+export interface Signer {
+  readonly type: SignerType;
+  getPublicKey(): Promise<Buffer>;
+  sign(hash: Buffer): Promise<Buffer>;
+}
+
+/**
+ * Encrypted key file: the wallet key's 32-byte seed under AES-256-GCM,
+ * keyed by scrypt from a passphrase
+ */
+export interface KeystoreFile {
+  version: number;
+  publicKey: string;
+  kdf: { name: 'scrypt'; salt: string; n: number; r: number; p: number };
+  cipher: { name: 'aes-256-gcm'; iv: string; tag: string };
+  ciphertext: string;
+}
+
+function checkHash(hash: Buffer): void {
+  if (hash.length !== HASH_LENGTH) {
+    throw new ValidationError(`Signer expects a ${HASH_LENGTH}-byte hash, got ${hash.length} bytes`);
+  }
+}
+
+/**
+ * Key held in this process, from a mnemonic or a decrypted keystore
+ */
+export class InMemorySigner implements Signer {
+  readonly type: SignerType;
+  private keyPair: KeyPair;
+
+  constructor(keyPair: KeyPair, type: SignerType = 'memory') {
+    this.keyPair = keyPair;
+    this.type = type;
+  }
+
+  static async fromMnemonic(mnemonic: string): Promise<InMemorySigner> {
+    const words = mnemonic.trim().split(/\s+/);
+    if (!(await mnemonicValidate(words))) {
+      throw new ConfigurationError('Invalid mnemonic phrase');
+    }
+    return new InMemorySigner(await mnemonicToWalletKey(words));
+  }
+
+  async getPublicKey(): Promise<Buffer> {
+    return this.keyPair.publicKey;
+  }
+
+  async sign(hash: Buffer): Promise<Buffer> {
+    checkHash(hash);
+    return sign(hash, this.keyPair.secretKey);
+  }
+}
+
+/**
+ * Key decrypted from a keystore file at startup
+ */
+export class KeystoreSigner extends InMemorySigner {
+  static async open(path: string, passphrase: string): Promise<KeystoreSigner> {
+    let file: KeystoreFile;
+    try {
+      file = JSON.parse(await fs.readFile(path, 'utf8'));
+    } catch (error) {
+      throw new ConfigurationError(`Cannot read keystore ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+    return new KeystoreSigner(await decryptKeystore(file, passphrase), 'keystore');
+  }
+}
+
+/**
+ * Seal a wallet key into a keystore file
+ */
+export async function encryptKeystore(keyPair: KeyPair, passphrase: string): Promise<KeystoreFile> {
+  const salt = randomBytes(32);
+  const iv = randomBytes(12);
+  const key = await deriveKey(passphrase, salt, KEYSTORE_KDF);
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(keyPair.secretKey.subarray(0, 32)), cipher.final()]);
+
+  return {
+    version: KEYSTORE_VERSION,
+    publicKey: keyPair.publicKey.toString('hex'),
+    kdf: { name: 'scrypt', salt: salt.toString('hex'), ...KEYSTORE_KDF },
+    cipher: { name: 'aes-256-gcm', iv: iv.toString('hex'), tag: cipher.getAuthTag().toString('hex') },
+    ciphertext: ciphertext.toString('hex')
+  };
+}
+
+export async function decryptKeystore(file: KeystoreFile, passphrase: string): Promise<KeyPair> {
+  if (file.version !== KEYSTORE_VERSION || file.kdf?.name !== 'scrypt' || file.cipher?.name !== 'aes-256-gcm') {
+    throw new ConfigurationError(`Unsupported keystore format: version ${file.version}`);
+  }
+
+  const key = await deriveKey(passphrase, Buffer.from(file.kdf.salt, 'hex'), file.kdf);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.cipher.iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(file.cipher.tag, 'hex'));
+
+  let seed: Buffer;
+  try {
+    seed = Buffer.concat([decipher.update(Buffer.from(file.ciphertext, 'hex')), decipher.final()]);
+  } catch {
+    throw new ConfigurationError('Cannot decrypt keystore: wrong passphrase or corrupted file');
+  }
+
+  const keyPair = keyPairFromSeed(seed);
+  if (keyPair.publicKey.toString('hex') !== file.publicKey) {
+    throw new ConfigurationError('Keystore key does not match its public key');
+  }
+  return keyPair;
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: { n: number; r: number; p: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, 32, { N: params.n, r: params.r, p: params.p, maxmem: 256 * params.n * params.r }, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Separate signing process reached over local HTTP or a Unix socket:
+ *
+ *   GET  /v1/public-key              -> { "publicKey": "<hex>" }
+ *   POST /v1/sign { "hash": "<hex>" } -> { "signature": "<hex>" }
+ *
+ * Signatures are checked against the public key before use.
+ */
+export class RemoteSigner implements Signer {
+  readonly type: SignerType = 'remote';
+  private client: AxiosInstance;
+  private publicKey?: Buffer;
+
+  constructor(options: { url?: string; socketPath?: string; timeout?: number }) {
+    if (!options.url && !options.socketPath) {
+      throw new ConfigurationError('Remote signer needs a URL or a Unix socket path');
+    }
+
+    this.client = axios.create({
+      baseURL: options.url ?? 'http://localhost',
+      socketPath: options.socketPath,
+      timeout: options.timeout ?? DEFAULT_REMOTE_TIMEOUT,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  async getPublicKey(): Promise<Buffer> {
+    if (!this.publicKey) {
+      const { data } = await this.request(() => this.client.get('/v1/public-key'));
+      const publicKey = Buffer.from(String(data?.publicKey ?? ''), 'hex');
+      if (publicKey.length !== 32) {
+        throw new ValidationError('Remote signer returned an invalid public key');
+      }
+      this.publicKey = publicKey;
+    }
+    return this.publicKey;
+  }
+
+  async sign(hash: Buffer): Promise<Buffer> {
+    checkHash(hash);
+    const publicKey = await this.getPublicKey();
+
+    const { data } = await this.request(() => this.client.post('/v1/sign', { hash: hash.toString('hex') }));
+    const signature = Buffer.from(String(data?.signature ?? ''), 'hex');
+    if (signature.length !== SIGNATURE_LENGTH || !signVerify(hash, signature, publicKey)) {
+      throw new ValidationError('Remote signer returned an invalid signature');
+    }
+    return signature;
+  }
+
+  private async request<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      throw new NetworkError(`Remote signer request failed: ${error instanceof Error ? error.message : error}`, { status });
+    }
+  }
+}
+
+/**
+ * Build the signer for the configured type
+ */
+export async function createSigner(config: SignerConfig): Promise<Signer> {
+  switch (config.type) {
+    case 'memory':
+      if (!config.mnemonic) {
+        throw new ConfigurationError('In-memory signer needs a mnemonic');
+      }
+      return InMemorySigner.fromMnemonic(config.mnemonic);
+
+    case 'keystore':
+      if (!config.keystorePath || config.passphrase === undefined) {
+        throw new ConfigurationError('Keystore signer needs a keystore path and passphrase');
+      }
+      return KeystoreSigner.open(config.keystorePath, config.passphrase);
+
+    case 'remote':
+      return new RemoteSigner(config);
+
+    default:
+      throw new ConfigurationError(`Unsupported signer type: ${config.type}`);
+  }
+}
@@ -0,0 +1,77 @@
+import { SourceCircuitBreaker } from './SourceHealth';
+
+const T0 = 1_700_000_000_000;
+
+describe('SourceCircuitBreaker', () => {
+  beforeEach(() => jest.useFakeTimers({ now: T0 }));
+  afterEach(() => jest.useRealTimers());
+
+  it('opens after failureThreshold consecutive failures', () => {
+    const breaker = new SourceCircuitBreaker({ failureThreshold: 3, openDuration: 1000 });
+
+    expect(breaker.recordFailure(10)).toBeNull();
+    expect(breaker.recordFailure(10)).toBeNull();
+    expect(breaker.recordSuccess(10)).toBeNull();
+    expect(breaker.recordFailure(10)).toBeNull();
+    expect(breaker.recordFailure(10)).toBeNull();
+    expect(breaker.recordFailure(10)).toBe('open');
+
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.getRetryTime()).toBe(T0 + 1000);
+  });
+
+  it('opens on the error rate over a full window', () => {
+    const breaker = new SourceCircuitBreaker({ failureThreshold: 10, errorRateThreshold: 0.5, windowSize: 4 });
+
+    expect(breaker.recordFailure()).toBeNull();
+    expect(breaker.recordSuccess(10)).toBeNull();
+    expect(breaker.recordFailure()).toBeNull();
+    expect(breaker.recordFailure()).toBe('open');
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', errorRate: 0.75, consecutiveFailures: 2 });
+  });
+
+  it('lets a single trial through once openDuration has passed', () => {
+    const breaker = new SourceCircuitBreaker({ failureThreshold: 1, openDuration: 1000 });
+    breaker.recordFailure();
+
+    jest.advanceTimersByTime(999);
+    expect(breaker.allowRequest()).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.getStatus().state).toBe('half_open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('closes when the trial succeeds', () => {
+    const breaker = new SourceCircuitBreaker({ failureThreshold: 1, openDuration: 1000 });
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.allowRequest();
+
+    expect(breaker.recordSuccess(10)).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', errorRate: 0, openedAt: undefined });
+  });
+
+  it('reopens for another openDuration when the trial fails', () => {
+    const breaker = new SourceCircuitBreaker({ failureThreshold: 1, openDuration: 1000 });
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.allowRequest();
+
+    expect(breaker.recordFailure()).toBe('open');
+    expect(breaker.getRetryTime()).toBe(T0 + 2000);
+    expect(breaker.isOpen()).toBe(true);
+  });
+
+  it('averages response times of timed requests', () => {
+    const breaker = new SourceCircuitBreaker();
+    breaker.recordSuccess(100);
+    breaker.recordFailure(300);
+    breaker.recordFailure();
+
+    expect(breaker.getAverageResponseTime()).toBe(200);
+  });
+});
@@ -0,0 +1,144 @@
+import { SourceBreakerState, SourceHealthConfig, SourceHealthStatus } from '@/types';
+
+const DEFAULT_HEALTH_CONFIG: SourceHealthConfig = {
+  failureThreshold: 5,
+  errorRateThreshold: 0.5,
+  windowSize: 20,
+  openDuration: 60000
+};
+
+/**
+ * Request health of one source. Opens after too many consecutive failures
+ * or too high an error rate, then lets a single trial request through once
+ * openDuration has passed and closes again if it succeeds.
+ */
+export class SourceCircuitBreaker {
+  private config: SourceHealthConfig;
+  private state: SourceBreakerState = 'closed';
+  private outcomes: boolean[] = [];
+  private consecutiveFailures: number = 0;
+  private openedAt?: number;
+  private trialInFlight: boolean = false;
+  private totalResponseTime: number = 0;
+  private timedRequests: number = 0;
+
+  constructor(config: Partial<SourceHealthConfig> = {}) {
+    this.config = {
+      failureThreshold: config.failureThreshold ?? DEFAULT_HEALTH_CONFIG.failureThreshold,
+      errorRateThreshold: config.errorRateThreshold ?? DEFAULT_HEALTH_CONFIG.errorRateThreshold,
+      windowSize: config.windowSize ?? DEFAULT_HEALTH_CONFIG.windowSize,
+      openDuration: config.openDuration ?? DEFAULT_HEALTH_CONFIG.openDuration
+    };
+  }
+
+  /**
+   * Whether a request may go out now; moves an expired open breaker to
+   * half-open and reserves its trial request
+   */
+  allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.config.openDuration) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'closed') return true;
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Returns the new state when the outcome changed it
+   */
+  recordSuccess(responseTime: number): SourceBreakerState | null {
+    this.recordResponseTime(responseTime);
+    this.recordOutcome(true);
+    this.consecutiveFailures = 0;
+
+    if (this.state !== 'closed') {
+      this.close();
+      return this.state;
+    }
+    return null;
+  }
+
+  /**
+   * Returns the new state when the outcome changed it
+   */
+  recordFailure(responseTime?: number): SourceBreakerState | null {
+    if (responseTime !== undefined) {
+      this.recordResponseTime(responseTime);
+    }
+    this.recordOutcome(false);
+    this.consecutiveFailures++;
+
+    if (this.state === 'half_open') {
+      this.open();
+      return this.state;
+    }
+
+    if (this.state === 'closed' && (
+      this.consecutiveFailures >= this.config.failureThreshold ||
+      (this.outcomes.length >= this.config.windowSize && this.getErrorRate() >= this.config.errorRateThreshold)
+    )) {
+      this.open();
+      return this.state;
+    }
+
+    return null;
+  }
+
+  isOpen(): boolean {
+    return this.state === 'open';
+  }
+
+  getRetryTime(): number | undefined {
+    return this.state === 'open' ? this.openedAt! + this.config.openDuration : undefined;
+  }
+
+  getStatus(): SourceHealthStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      errorRate: this.getErrorRate(),
+      averageResponseTime: this.getAverageResponseTime(),
+      openedAt: this.openedAt
+    };
+  }
+
+  getAverageResponseTime(): number {
+    return this.timedRequests > 0 ? this.totalResponseTime / this.timedRequests : 0;
+  }
+
+  private getErrorRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    return this.outcomes.filter(ok => !ok).length / this.outcomes.length;
+  }
+
+  private recordOutcome(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.config.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private recordResponseTime(responseTime: number): void {
+    this.totalResponseTime += responseTime;
+    this.timedRequests++;
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.trialInFlight = false;
+  }
+
+  private close(): void {
+    this.state = 'closed';
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+    this.outcomes = [];
+  }
+}
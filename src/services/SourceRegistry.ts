@@ -0,0 +1,207 @@
+import {
+  PriceSource,
+  PriceSourceConfig,
+  PriceStreamConfig,
+  TradingPair,
+  Logger,
+  MetricsCollector,
+  ConfigurationError
+} from '@/types';
+import { TONClientService } from './TONClient';
+import { SymbolRegistry } from './SymbolRegistry';
+import {
+  CoinGeckoFetcher,
+  BinanceFetcher,
+  CoinMarketCapFetcher,
+  KrakenFetcher,
+  OKXFetcher,
+  BybitFetcher,
+  PythFetcher
+} from './DataFetcher';
+import { StonfiPoolFetcher, DedustPoolFetcher } from './DexFetcher';
+import { PriceStream, StreamingFetcher, BinanceStreamProtocol, JsonStreamProtocol } from './PriceStream';
+
+const BINANCE_STREAM_URL = 'wss://stream.binance.com:9443/ws';
+
+export interface SourceFactoryContext {
+  logger: Logger;
+  metrics: MetricsCollector;
+  tonClient: TONClientService;
+  symbols: SymbolRegistry;
+  pairs: TradingPair[];
+}
+
+export type SourceFactory = (config: PriceSourceConfig, context: SourceFactoryContext) => PriceSource;
+
+/**
+ * Price source factories by type, so sources can be built from config
+ * and private fetchers can be plugged in without touching PriceOracle
+ */
+export class SourceRegistry {
+  private factories: Map<string, SourceFactory> = new Map();
+
+  register(type: string, factory: SourceFactory): void {
+    if (this.factories.has(type)) {
+      throw new ConfigurationError(`Price source type already registered: ${type}`);
+    }
+    this.factories.set(type, factory);
+  }
+
+  has(type: string): boolean {
+    return this.factories.has(type);
+  }
+
+  getTypes(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  create(config: PriceSourceConfig, context: SourceFactoryContext): PriceSource {
+    const factory = this.factories.get(config.type);
+    if (!factory) {
+      throw new ConfigurationError(`Unknown price source type '${config.type}' for source '${config.name}'`, {
+        source: config.name,
+        registeredTypes: this.getTypes()
+      });
+    }
+    return factory(config, context);
+  }
+
+  /**
+   * Build every enabled source, rejecting duplicate names and unknown
+   * types before any source is created
+   */
+  createAll(configs: PriceSourceConfig[], context: SourceFactoryContext): Map<string, PriceSource> {
+    const names = new Set<string>();
+
+    for (const config of configs) {
+      if (names.has(config.name)) {
+        throw new ConfigurationError(`Duplicate price source name: ${config.name}`);
+      }
+      names.add(config.name);
+
+      if (config.enabled && !this.factories.has(config.type)) {
+        throw new ConfigurationError(`Unknown price source type '${config.type}' for source '${config.name}'`, {
+          source: config.name,
+          registeredTypes: this.getTypes()
+        });
+      }
+    }
+
+    const sources = new Map<string, PriceSource>();
+    for (const config of configs) {
+      if (!config.enabled) continue;
+      sources.set(config.name, this.create(config, context));
+    }
+
+    return sources;
+  }
+}
+
+function httpConfig(config: PriceSourceConfig) {
+  return {
+    baseUrl: config.endpoints.baseUrl,
+    apiKey: config.apiKey,
+    timeout: config.timeout,
+    rateLimit: config.rateLimit,
+    health: config.options?.health
+  };
+}
+
+/**
+ * Stream settings from options.stream, defaulting the url
+ */
+function streamConfig(config: PriceSourceConfig, defaultUrl?: string): PriceStreamConfig {
+  const stream = config.options?.stream || {};
+  const url = stream.url || defaultUrl;
+  if (!url) {
+    throw new ConfigurationError(`Missing stream url for source '${config.name}'`);
+  }
+
+  return {
+    url,
+    staleAfter: stream.staleAfter,
+    reconnectDelay: stream.reconnectDelay,
+    maxReconnectDelay: stream.maxReconnectDelay
+  };
+}
+
+/**
+ * Registry with every built-in source type registered
+ */
+export function createDefaultSourceRegistry(): SourceRegistry {
+  const registry = new SourceRegistry();
+
+  registry.register('coingecko', (config, { logger, metrics, symbols }) =>
+    new CoinGeckoFetcher(httpConfig(config), logger, metrics, symbols));
+  registry.register('binance', (config, { logger, metrics, symbols, pairs }) => {
+    const fetcher = new BinanceFetcher(httpConfig(config), logger, metrics, symbols);
+    if (!config.options?.stream) return fetcher;
+
+    const stream = new PriceStream(
+      config.name,
+      streamConfig(config, BINANCE_STREAM_URL),
+      new BinanceStreamProtocol(config.options.stream.channel),
+      logger,
+      metrics
+    );
+    const streamSymbols: Record<string, string> = {};
+    const listedQuotes: Record<string, string> = {};
+    for (const pair of pairs) {
+      if (!symbols.supportsPair('binance', pair.base, pair.quote)) continue;
+
+      const pairKey = `${pair.base}/${pair.quote}`;
+      streamSymbols[pairKey] = symbols.getSymbol('binance', pair.base, pair.quote);
+
+      const listedQuote = symbols.getQuote('binance', pair.quote);
+      if (listedQuote !== pair.quote) {
+        listedQuotes[pairKey] = listedQuote;
+      }
+    }
+
+    return new StreamingFetcher(stream, streamSymbols, logger, metrics, {
+      fallback: fetcher,
+      maxAge: config.options.stream.maxAge,
+      listedQuotes
+    });
+  });
+  registry.register('coinmarketcap', (config, { logger, metrics, symbols }) =>
+    new CoinMarketCapFetcher(httpConfig(config), logger, metrics, symbols));
+  registry.register('kraken', (config, { logger, metrics, symbols }) =>
+    new KrakenFetcher(httpConfig(config), logger, metrics, symbols));
+  registry.register('okx', (config, { logger, metrics, symbols }) =>
+    new OKXFetcher(httpConfig(config), logger, metrics, symbols));
+  registry.register('bybit', (config, { logger, metrics, symbols }) =>
+    new BybitFetcher(httpConfig(config), logger, metrics, symbols));
+  registry.register('pyth', (config, { logger, metrics }) =>
+    new PythFetcher({
+      ...httpConfig(config),
+      priceIds: config.options?.priceIds || {},
+      maxAge: config.options?.maxAge
+    }, logger, metrics));
+  registry.register('stonfi', (config, { logger, metrics, tonClient }) =>
+    new StonfiPoolFetcher(config.options?.pools || [], tonClient, logger, metrics, config.options?.health));
+  registry.register('dedust', (config, { logger, metrics, tonClient }) =>
+    new DedustPoolFetcher(config.options?.pools || [], tonClient, logger, metrics, config.options?.health));
+
+  registry.register('websocket', (config, { logger, metrics }) => {
+    const format = config.options?.format;
+    if (!format?.symbolPath || !format?.pricePath) {
+      throw new ConfigurationError(`Missing message format for websocket source '${config.name}'`);
+    }
+
+    const stream = new PriceStream(
+      config.name,
+      streamConfig(config),
+      new JsonStreamProtocol(format),
+      logger,
+      metrics
+    );
+    return new StreamingFetcher(stream, config.options?.symbols || {}, logger, metrics, {
+      maxAge: config.options?.stream?.maxAge
+    });
+  });
+
+  return registry;
+}
+
+export const defaultSourceRegistry = createDefaultSourceRegistry();
@@ -0,0 +1,28 @@
+import { SymbolRegistry } from './SymbolRegistry';
+
+describe('SymbolRegistry', () => {
+  const registry = new SymbolRegistry();
+
+  it('derives venue symbols with listed quotes and asset ids', () => {
+    expect(registry.getSymbol('binance', 'BTC', 'USD')).toBe('BTCUSDT');
+    expect(registry.getSymbol('okx', 'TON', 'USD')).toBe('TON-USDT');
+    expect(registry.getSymbol('kraken', 'BTC', 'USD')).toBe('XBTUSD');
+  });
+
+  it('rejects pairs whose base is the quote the venue lists instead', () => {
+    expect(registry.supportsPair('binance', 'USDT', 'USD')).toBe(false);
+    expect(registry.supportsPair('okx', 'USDT', 'USD')).toBe(false);
+    expect(registry.supportsPair('bybit', 'USDT', 'USD')).toBe(false);
+    expect(registry.supportsPair('kraken', 'USDT', 'USD')).toBe(true);
+    expect(registry.supportsPair('binance', 'USDC', 'USD')).toBe(true);
+  });
+
+  it('rejects unknown venues and assets without a mapping', () => {
+    expect(registry.supportsPair('pyth', 'BTC', 'USD')).toBe(false);
+    expect(registry.supportsPair('binance', 'JUSDT', 'USD')).toBe(false);
+
+    registry.registerAsset('NOT', { coingecko: 'notcoin' });
+    expect(registry.supportsPair('coingecko', 'NOT', 'USD')).toBe(true);
+    expect(registry.supportsPair('coinmarketcap', 'NOT', 'USD')).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+export interface VenueFormat {
+  requiresId?: boolean;              // Venue addresses assets by id instead of ticker
+  separator?: string;                // Between base and quote in pair symbols
+  quotes?: Record<string, string>;   // Canonical quote -> quote actually listed
+}
+
+/**
+ * Canonical asset -> venue-specific id or ticker. Venues missing from an
+ * entry use the canonical ticker unless they require ids.
+ */
+const DEFAULT_ASSETS: Record<string, Record<string, string>> = {
+  BTC: { coingecko: 'bitcoin', coinmarketcap: '1', kraken: 'XBT' },
+  ETH: { coingecko: 'ethereum', coinmarketcap: '1027' },
+  TON: { coingecko: 'the-open-network', coinmarketcap: '11419' },
+  USDT: { coingecko: 'tether', coinmarketcap: '825' },
+  USDC: { coingecko: 'usd-coin', coinmarketcap: '3408' }
+};
+
+const DEFAULT_VENUES: Record<string, VenueFormat> = {
+  coingecko: { requiresId: true },
+  coinmarketcap: { requiresId: true },
+  binance: { separator: '', quotes: { USD: 'USDT' } },
+  kraken: { separator: '' },
+  okx: { separator: '-', quotes: { USD: 'USDT' } },
+  bybit: { separator: '', quotes: { USD: 'USDT' } }
+};
+
+/**
+ * Maps canonical trading pairs to each venue's symbols and ids
+ */
+export class SymbolRegistry {
+  private assets: Map<string, Record<string, string>> = new Map();
+  private venues: Map<string, VenueFormat> = new Map();
+
+  constructor(
+    assets: Record<string, Record<string, string>> = DEFAULT_ASSETS,
+    venues: Record<string, VenueFormat> = DEFAULT_VENUES
+  ) {
+    for (const [asset, ids] of Object.entries(assets)) {
+      this.registerAsset(asset, ids);
+    }
+    for (const [venue, format] of Object.entries(venues)) {
+      this.registerVenue(venue, format);
+    }
+  }
+
+  registerAsset(asset: string, venueIds: Record<string, string>): void {
+    const key = asset.toUpperCase();
+    this.assets.set(key, { ...this.assets.get(key), ...venueIds });
+  }
+
+  registerVenue(venue: string, format: VenueFormat): void {
+    this.venues.set(venue, format);
+  }
+
+  hasVenue(venue: string): boolean {
+    return this.venues.has(venue);
+  }
+
+  /**
+   * Venue id or ticker of a canonical asset
+   */
+  getAssetId(venue: string, asset: string): string {
+    const key = asset.toUpperCase();
+    const id = this.assets.get(key)?.[venue];
+    if (id) return id;
+
+    if (this.getVenue(venue).requiresId) {
+      throw new Error(`Unsupported asset on ${venue}: ${asset}`);
+    }
+    return key;
+  }
+
+  /**
+   * Quote currency the venue lists in place of the canonical one
+   */
+  getQuote(venue: string, quote: string): string {
+    const key = quote.toUpperCase();
+    return this.getVenue(venue).quotes?.[key] || key;
+  }
+
+  /**
+   * Venue pair symbol, e.g. XBTUSD on Kraken or BTC-USDT on OKX
+   */
+  getSymbol(venue: string, base: string, quote: string): string {
+    const format = this.getVenue(venue);
+    const venueQuote = this.getQuote(venue, quote);
+    return `${this.getAssetId(venue, base)}${format.separator ?? ''}${this.getAssetId(venue, venueQuote)}`;
+  }
+
+  /**
+   * Whether the venue can price the pair: the base is a known asset there
+   * and isn't the quote the venue lists instead, as with USDT/USD on
+   * venues quoting USD in USDT
+   */
+  supportsPair(venue: string, base: string, quote: string): boolean {
+    if (!this.hasVenue(venue) || !this.getAssets(venue).includes(base.toUpperCase())) {
+      return false;
+    }
+    return base.toUpperCase() !== this.getQuote(venue, quote);
+  }
+
+  /**
+   * Canonical assets with an explicit mapping for the venue
+   */
+  getAssets(venue: string): string[] {
+    return Array.from(this.assets.entries())
+      .filter(([, ids]) => !this.getVenue(venue).requiresId || ids[venue])
+      .map(([asset]) => asset);
+  }
+
+  private getVenue(venue: string): VenueFormat {
+    const format = this.venues.get(venue);
+    if (!format) {
+      throw new Error(`Unknown venue: ${venue}`);
+    }
+    return format;
+  }
+}
+
+export const defaultSymbolRegistry = new SymbolRegistry();
@@ -0,0 +1,72 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { TONClientService } from './TONClient';
+import { Logger, MetricsCollector, TONConfig } from '@/types';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+const CONTRACT = 'EQAvlWFDxGF2lXm67y4yzC17wYKD9A0guwPkMs1gOsM__NOT';
+
+function addressInformation(state: 'active' | 'uninitialized' | 'frozen', lt: string, hash: string) {
+  return {
+    balance: '1500000000',
+    state,
+    data: state === 'active' ? 'te6cckEBAQEAAgAAAEysuc0=' : '',
+    code: '',
+    last_transaction_id: { '@type': 'internal.transactionId', lt, hash },
+    block_id: { '@type': 'ton.blockIdExt', workchain: -1, shard: '-9223372036854775808', seqno: 1, root_hash: '', file_hash: '' },
+    sync_utime: Math.floor(Date.now() / 1000)
+  };
+}
+
+describe('TONClientService', () => {
+  let server: Server;
+  let account: ReturnType<typeof addressInformation>;
+  let client: TONClientService;
+
+  beforeEach(async () => {
+    server = createServer((request, response) => {
+      request.resume();
+      request.on('end', () => {
+        response.setHeader('Content-Type', 'application/json');
+        response.end(JSON.stringify({ ok: true, result: account }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const config: TONConfig = {
+      network: 'testnet',
+      endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}/jsonRPC`,
+      gasLimit: 1000000,
+      gasPrice: 1000000000,
+      maxRetries: 1,
+      retryDelay: 10
+    };
+    client = new TONClientService(config, { signer: { type: 'memory' }, address: '' }, logger, metrics);
+  });
+
+  afterEach(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('reports the account state and last transaction of a deployed contract', async () => {
+    account = addressInformation('active', '47000000000001', 'q1w2e3r4t5y6u7i8o9p0q1w2e3r4t5y6u7i8o9p0q1w=');
+
+    await expect(client.getContractState(CONTRACT)).resolves.toEqual({
+      balance: '1500000000',
+      lastTransaction: { lt: '47000000000001', hash: 'q1w2e3r4t5y6u7i8o9p0q1w2e3r4t5y6u7i8o9p0q1w=' },
+      isActive: true,
+      data: expect.any(Buffer)
+    });
+  });
+
+  it.each<['uninitialized' | 'frozen', string]>([
+    ['uninitialized', '0'],
+    ['frozen', '47000000000001']
+  ])('treats %s accounts as inactive', async (state, lt) => {
+    account = addressInformation(state, lt, '');
+
+    const contract = await client.getContractState(CONTRACT);
+    expect(contract.isActive).toBe(false);
+    expect(contract.lastTransaction).toEqual(lt === '0' ? null : { lt, hash: '' });
+  });
+});
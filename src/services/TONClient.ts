@@ -1,6 +1,5 @@
-import { TonClient, WalletContractV4, internal } from '@ton/ton';
-import { Cell, Address, beginCell } from '@ton/core';
-import { mnemonicToWalletKey, mnemonicValidate } from '@ton/crypto';
+import { internal } from '@ton/ton';
+import { Cell, Address, TupleItem, TupleReader } from '@ton/core';
 import { 
   TONConfig, 
   WalletConfig, 
@@ -9,10 +8,20 @@ import {
   BlockchainStatus,
   ContractState,
   TransactionMonitor,
-  TransactionStatus,
+  PriceUpdateMessage,
+  PriceBatchMessage,
   Logger,
   MetricsCollector 
 } from '@/types';
+import { encodePriceUpdate, encodePriceBatch } from '@/contracts/PriceUpdateMessage';
+import { TransactionTracker } from './TransactionTracker';
+import { TransactionQueue } from './TransactionQueue';
+import { WalletAdapter, SignedTransfer, createWalletAdapter } from './WalletAdapter';
+import { Signer, createSigner } from './Signer';
+import { RpcPool } from './RpcPool';
+
+const DEFAULT_CONFIRMATION_TIMEOUT = 60000;
+const DEFAULT_MESSAGE_TTL = 60;
 
 class BlockchainError extends Error {
   constructor(message: string, public code: string) {
@@ -22,30 +31,45 @@ class BlockchainError extends Error {
 }
 
 export class TONClientService {
-  private client: TonClient;
-  private wallet: WalletContractV4 | null = null;
+  private rpc: RpcPool;
+  private wallet: WalletAdapter | null = null;
+  private signer: Signer | null;
   private config: TONConfig;
   private walletConfig: WalletConfig;
   private logger: Logger;
   private metrics: MetricsCollector;
   private isConnected: boolean = false;
+  private tracker: TransactionTracker;
+  private queue: TransactionQueue | null = null;
+  private sentMessages: Map<string, number> = new Map(); // External message hash -> sent at
+  private monitors: Map<string, Promise<TransactionMonitor>> = new Map(); // Shared by requests in one transfer
 
   constructor(
     tonConfig: TONConfig,
     walletConfig: WalletConfig,
     logger: Logger,
-    metrics: MetricsCollector
+    metrics: MetricsCollector,
+    signer?: Signer            // Overrides walletConfig.signer
   ) {
     this.config = tonConfig;
     this.walletConfig = walletConfig;
+    this.signer = signer ?? null;
     this.logger = logger;
     this.metrics = metrics;
     
-    // Initialize TonClient with endpoint
-    this.client = new TonClient({
-      endpoint: this.config.endpoint,
-      apiKey: this.config.apiKey
-    });
+    // RPC endpoints with failover; lookups go to whichever is healthiest
+    this.rpc = new RpcPool(this.config, logger, metrics);
+    this.tracker = new TransactionTracker(
+      {
+        getTransactions: (address, opts) =>
+          this.rpc.call('getTransactions', client => client.getTransactions(address, opts)),
+        tryLocateResultTx: (source, destination, createdLt) =>
+          this.rpc.call('tryLocateResultTx', client => client.tryLocateResultTx(source, destination, createdLt))
+      },
+      logger,
+      metrics,
+      this.config.pollInterval
+    );
   }
 
   /**
@@ -56,25 +80,38 @@ export class TONClientService {
       this.logger.info('Initializing TON client...');
       this.metrics.increment('ton_client.initialize_start');
 
-      // Validate mnemonic if provided
-      if (this.walletConfig.privateKey.includes(' ')) {
-        const isValid = await mnemonicValidate(this.walletConfig.privateKey.split(' '));
-        if (!isValid) {
-          throw new BlockchainError('Invalid mnemonic phrase', 'INVALID_MNEMONIC');
-        }
+      // Only the signer holds the wallet key; we get its public half
+      if (!this.signer) {
+        this.signer = await createSigner(this.walletConfig.signer);
+      }
+      const publicKey = await this.signer.getPublicKey();
+      if (this.walletConfig.publicKey && publicKey.toString('hex') !== this.walletConfig.publicKey.toLowerCase()) {
+        throw new BlockchainError('Signer key does not match the configured public key', 'SIGNER_KEY_MISMATCH');
       }
 
-      // Create wallet key pair
-      const keyPair = await mnemonicToWalletKey(this.walletConfig.privateKey.split(' '));
-      
-      // Create wallet contract
-      this.wallet = WalletContractV4.create({
-        workchain: 0,
-        publicKey: keyPair.publicKey
-      });
-
-      // Open wallet with client
-      const walletContract = this.client.open(this.wallet);
+      // Create wallet contract of the configured type
+      const wallet = createWalletAdapter(this.walletConfig, publicKey, this.rpc, this.config.network);
+      this.wallet = wallet;
+      this.queue = new TransactionQueue(
+        {
+          walletType: wallet.type,
+          maxMessages: wallet.maxMessages,
+          maxInFlight: wallet.maxInFlight,
+          reserve: () => wallet.reserve(),
+          release: (key, applied) => wallet.release(key, applied),
+          isApplied: key => wallet.isApplied(key),
+          prepare: (key, requests, ttl) => this.prepareTransfer(key, requests, ttl),
+          send: message => this.rpc.send(message)
+        },
+        this.logger,
+        this.metrics,
+        {
+          maxRetries: this.config.maxRetries,
+          retryDelay: this.config.retryDelay,
+          messageTtl: this.config.messageTtl ?? DEFAULT_MESSAGE_TTL,
+          pollInterval: this.config.pollInterval ?? 2000
+        }
+      );
       
       // Verify wallet address matches config
       const walletAddress = this.wallet.address.toString();
@@ -85,9 +122,12 @@ export class TONClientService {
         });
       }
 
+      this.rpc.start();
       this.isConnected = true;
       this.logger.info('TON client initialized successfully', { 
         network: this.config.network,
+        walletType: wallet.type,
+        signer: this.signer.type,
         walletAddress 
       });
       this.metrics.increment('ton_client.initialize_success');
@@ -113,10 +153,12 @@ export class TONClientService {
       
       return {
         isConnected: this.isConnected,
-        latestBlock: 0,
+        latestBlock: this.rpc.getLatestBlock(),
         networkId: this.config.network,
         gasPrice: this.config.gasPrice,
-        balance: balance.toString()
+        balance: balance.toString(),
+        outbound: this.queue?.getStatus(),
+        endpoints: this.rpc.getStatus()
       };
     } catch (error) {
       throw new BlockchainError(`Failed to get status: ${error}`, 'STATUS_ERROR');
@@ -132,7 +174,8 @@ export class TONClientService {
     }
 
     try {
-      const balance = await this.client.getBalance(this.wallet.address);
+      const address = this.wallet.address;
+      const balance = await this.rpc.call('getBalance', client => client.getBalance(address));
       this.metrics.gauge('ton_client.wallet_balance', Number(balance));
       return balance;
     } catch (error) {
@@ -145,86 +188,56 @@ export class TONClientService {
    * Send transaction to TON blockchain
    */
   async sendTransaction(request: TransactionRequest): Promise<TransactionResult> {
-    if (!this.wallet) {
+    if (!this.wallet || !this.queue) {
       throw new BlockchainError('Wallet not initialized', 'WALLET_NOT_INITIALIZED');
     }
 
     const startTime = Date.now();
-    let attempt = 0;
-
-    while (attempt < this.config.maxRetries) {
-      attempt++;
-      
-      try {
-        this.logger.debug(`Sending transaction (attempt ${attempt}/${this.config.maxRetries})`, {
-          to: request.to,
-          value: request.value
-        });
-
-        // Create wallet contract instance
-        const walletContract = this.client.open(this.wallet);
-
-        // Get seqno for transaction
-        const seqno = await walletContract.getSeqno();
+    this.logger.debug('Queueing transaction', { to: request.to, value: request.value });
 
-        // Create internal message
-        const internalMessage = internal({
-          to: Address.parse(request.to),
-          value: request.value,
-          body: request.data,
-          bounce: request.bounce ?? true
-        });
-
-        // Send transaction
-        const keyPair = await mnemonicToWalletKey(this.walletConfig.privateKey.split(' '));
-        const transfer = await walletContract.sendTransfer({
-          seqno,
-          secretKey: keyPair.secretKey,
-          messages: [internalMessage]
-        });
-
-        const txResult: TransactionResult = {
-          hash: 'pending',
-          success: true,
-          gasUsed: this.config.gasLimit, // Estimate
-          timestamp: Date.now()
-        };
-
-        const duration = Date.now() - startTime;
-        this.metrics.timing('ton_client.transaction_duration', duration);
-        this.metrics.increment('ton_client.transaction_success');
-
-        this.logger.info('Transaction sent successfully', {
-          hash: txResult.hash,
-          duration,
-          attempt
-        });
+    try {
+      const txResult = await this.queue.submit(request);
+      this.sentMessages.set(txResult.hash, startTime);
 
-        return txResult;
+      const duration = Date.now() - startTime;
+      this.metrics.timing('ton_client.transaction_duration', duration);
+      this.metrics.increment('ton_client.transaction_success');
 
-      } catch (error) {
-        const duration = Date.now() - startTime;
-        this.logger.warn(`Transaction attempt ${attempt} failed`, {
-          error: error instanceof Error ? error.message : String(error),
-          duration
-        });
+      this.logger.info('Transaction sent successfully', {
+        hash: txResult.hash,
+        replayKey: txResult.replayKey,
+        duration
+      });
 
-        if (attempt >= this.config.maxRetries) {
-          this.metrics.increment('ton_client.transaction_error');
-          this.metrics.timing('ton_client.transaction_duration', duration, { status: 'error' });
-          
-          throw new BlockchainError(
-            `Transaction failed after ${attempt} attempts: ${error}`,
-            'TRANSACTION_ERROR'
-          );
-        }
+      return txResult;
 
-        // Wait before retry
-        await this.sleep(this.config.retryDelay * attempt);
-      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.metrics.increment('ton_client.transaction_error');
+      this.metrics.timing('ton_client.transaction_duration', duration, { status: 'error' });
+
+      throw new BlockchainError(
+        `Transaction failed: ${error instanceof Error ? error.message : error}`,
+        'TRANSACTION_ERROR'
+      );
     }
+  }
 
-    throw new BlockchainError('Unexpected error in transaction loop', 'UNEXPECTED_ERROR');
+  /**
+   * Sign a transfer carrying the requests as the wallet's internal messages
+   */
+  private async prepareTransfer(key: number, requests: TransactionRequest[], ttl: number): Promise<SignedTransfer> {
+    const messages = requests.map(request => internal({
+      to: Address.parse(request.to),
+      value: request.value,
+      body: request.data,
+      bounce: request.bounce ?? true
+    }));
+
+    if (!this.signer) {
+      throw new BlockchainError('Signer not initialized', 'WALLET_NOT_INITIALIZED');
+    }
+    return this.getWallet().createTransfer(key, messages, ttl, this.signer);
   }
 
   /**
@@ -233,12 +246,16 @@ export class TONClientService {
   async getContractState(address: string): Promise<ContractState> {
     try {
       const contractAddress = Address.parse(address);
-      const state = await this.client.getContractState(contractAddress);
+      const state = await this.rpc.read(
+        'getContractState',
+        client => client.getContractState(contractAddress),
+        state => `${state.state}:${state.balance}:${state.lastTransaction?.lt ?? ''}`
+      );
       
       return {
         balance: String(state.balance || 0),
-        lastTransaction: '',
-        isActive: true,
+        lastTransaction: state.lastTransaction,
+        isActive: state.state === 'active',
         data: state.data
       };
     } catch (error) {
@@ -247,52 +264,57 @@ export class TONClientService {
   }
 
   /**
-   * Monitor transaction confirmation
+   * Run a get-method on a contract and return its result stack
    */
-  async monitorTransaction(txHash: string, maxWaitTime: number = 60000): Promise<TransactionMonitor> {
-    const monitor: TransactionMonitor = {
-      hash: txHash,
-      status: TransactionStatus.PENDING,
-      confirmations: 0,
-      submittedAt: Date.now(),
-      maxWaitTime
-    };
-
+  async runGetMethod(address: string, method: string, args: TupleItem[] = []): Promise<TupleReader> {
     const startTime = Date.now();
-    
-    while (Date.now() - startTime < maxWaitTime) {
-      try {
-        // In a real implementation, you would check transaction status
-        // For now, we'll simulate confirmation after a delay
-        if (Date.now() - startTime > 10000) { // 10 seconds
-          monitor.status = TransactionStatus.CONFIRMED;
-          monitor.confirmedAt = Date.now();
-          monitor.confirmations = 1;
-          break;
-        }
 
-        await this.sleep(2000); // Check every 2 seconds
-      } catch (error) {
-        this.logger.warn('Error monitoring transaction', { txHash, error });
-      }
+    try {
+      const result = await this.rpc.call('runMethod', client => client.runMethod(Address.parse(address), method, args));
+      this.metrics.timing('ton_client.get_method_duration', Date.now() - startTime, { method });
+      return result.stack;
+    } catch (error) {
+      this.metrics.increment('ton_client.get_method_error', { method });
+      throw new BlockchainError(`Get-method ${method} failed on ${address}: ${error}`, 'GET_METHOD_ERROR');
     }
+  }
 
-    if (monitor.status === TransactionStatus.PENDING) {
-      monitor.status = TransactionStatus.TIMEOUT;
+  /**
+   * Wait for a sent external message to land in the wallet and for its
+   * outbound messages to be processed at their destinations
+   */
+  async monitorTransaction(
+    txHash: string,
+    maxWaitTime: number = this.config.confirmationTimeout ?? DEFAULT_CONFIRMATION_TIMEOUT
+  ): Promise<TransactionMonitor> {
+    if (!this.wallet) {
+      throw new BlockchainError('Wallet not initialized', 'WALLET_NOT_INITIALIZED');
     }
 
+    const pending = this.monitors.get(txHash);
+    if (pending) return pending;
+
+    const submittedAt = this.sentMessages.get(txHash) ?? Date.now();
+    const monitor = this.tracker.track(txHash, this.wallet.address, submittedAt, maxWaitTime).finally(() => {
+      this.sentMessages.delete(txHash);
+      this.monitors.delete(txHash);
+    });
+    this.monitors.set(txHash, monitor);
     return monitor;
   }
 
   /**
-   * Create message cell for contract calls
+   * Create message cell for an oracle price update
    */
-  createMessageCell(data: any): Cell {
-    return beginCell()
-      .storeUint(0, 32) // op code placeholder
-      .storeUint(0, 64) // query id placeholder
-      .storeRef(beginCell().endCell()) // data placeholder
-      .endCell();
+  createMessageCell(message: PriceUpdateMessage): Cell {
+    return encodePriceUpdate(message);
+  }
+
+  /**
+   * Create a single message cell carrying several price updates
+   */
+  createBatchMessageCell(message: PriceBatchMessage): Cell {
+    return encodePriceBatch(message);
   }
 
   /**
@@ -326,6 +348,13 @@ export class TONClientService {
     return this.isConnected && this.wallet !== null;
   }
 
+  private getWallet(): WalletAdapter {
+    if (!this.wallet) {
+      throw new BlockchainError('Wallet not initialized', 'WALLET_NOT_INITIALIZED');
+    }
+    return this.wallet;
+  }
+
   /**
    * Get wallet address
    */
@@ -341,7 +370,9 @@ export class TONClientService {
    */
   async disconnect(): Promise<void> {
     this.isConnected = false;
+    this.rpc.stop();
     this.wallet = null;
+    this.queue = null;
     this.logger.info('TON client disconnected');
     this.metrics.increment('ton_client.disconnect');
   }
@@ -383,7 +414,7 @@ export class TONClientService {
         status: 'healthy',
         details: {
           network: this.config.network,
-          latestBlock: 0,
+          latestBlock: this.rpc.getLatestBlock(),
           walletBalance: balance.toString(),
           walletAddress: this.getWalletAddress()
         }
@@ -0,0 +1,157 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Address, beginCell, external } from '@ton/core';
+import { OutboundTransport, TransactionQueue } from './TransactionQueue';
+import { RpcPool } from './RpcPool';
+import { Logger, MetricsCollector, TONConfig, TransactionRequest } from '@/types';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+const WALLET = Address.parse('EQBynBO23ywHy_CgarY9NK9FTz0yDsG82PtcbSTQgGoXwiuA');
+const REQUEST: TransactionRequest = { to: 'EQAvlWFDxGF2lXm67y4yzC17wYKD9A0guwPkMs1gOsM__NOT', value: '50000000' };
+
+/**
+ * toncenter stub answering sendBoc with the given HTTP statuses in turn,
+ * then with success. A message reaches the "chain" when the node took it,
+ * even if the gateway then lost the answer (502, 504).
+ */
+class SendEndpoint {
+  server: Server;
+  sent = 0;
+
+  constructor(statuses: number[], onReceived: () => void) {
+    this.server = createServer((request, response) => {
+      request.resume();
+      request.on('end', () => {
+        this.sent++;
+        const status = statuses.shift() ?? 200;
+        if (status === 200 || status === 502 || status === 504) onReceived();
+
+        response.statusCode = status;
+        response.setHeader('Content-Type', 'application/json');
+        response.end(JSON.stringify(status === 200
+          ? { ok: true, result: { '@type': 'ok' } }
+          : { ok: false, error: `status ${status}`, code: status }));
+      });
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/jsonRPC`;
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+/**
+ * Seqno wallet sending through an RpcPool on one stub endpoint per list of
+ * statuses, in order
+ */
+async function wallet(...statuses: number[][]) {
+  let seqno = 0;
+  const applied = new Set<number>();
+  const endpoints = statuses.map(list => new SendEndpoint(list, () => applied.add(seqno)));
+  const urls = await Promise.all(endpoints.map(endpoint => endpoint.listen()));
+  const config: TONConfig = {
+    network: 'testnet',
+    endpoint: urls[0],
+    gasLimit: 1000000,
+    gasPrice: 1000000000,
+    maxRetries: 1,
+    retryDelay: 10,
+    endpoints: urls.map((url, index) => ({ url, name: `node${index}` }))
+  };
+  const pool = new RpcPool(config, logger, metrics);
+
+  const transport = {
+    walletType: 'v4',
+    maxMessages: 4,
+    maxInFlight: 1,
+    reserve: jest.fn(async () => seqno),
+    release: jest.fn((key: number, wasApplied: boolean) => {
+      if (wasApplied) seqno = key + 1;
+    }),
+    isApplied: jest.fn(async (key: number) => applied.has(key)),
+    prepare: jest.fn(async (key: number) => ({
+      message: external({ to: WALLET, body: beginCell().storeUint(key, 32).endCell() }),
+      validUntil: Math.floor(Date.now() / 1000) + 1
+    })),
+    send: jest.fn(message => pool.send(message))
+  } satisfies OutboundTransport;
+
+  return { transport, endpoints };
+}
+
+describe('TransactionQueue', () => {
+  const options = { maxRetries: 3, retryDelay: 10, messageTtl: 60, pollInterval: 10 };
+  let endpoints: SendEndpoint[];
+
+  beforeEach(() => jest.clearAllMocks());
+  afterEach(() => Promise.all(endpoints.map(endpoint => endpoint.close())));
+
+  it('waits for a message whose send timed out at the gateway and lands anyway', async () => {
+    const setup = await wallet([504]);
+    endpoints = setup.endpoints;
+    const queue = new TransactionQueue(setup.transport, logger, metrics, options);
+
+    const result = await queue.submit(REQUEST);
+
+    expect(result).toMatchObject({ success: true, replayKey: 0 });
+    expect(endpoints[0].sent).toBe(1);
+    expect(setup.transport.release).toHaveBeenCalledWith(0, true);
+    expect(setup.transport.release).not.toHaveBeenCalledWith(0, false);
+    expect(metrics.increment).toHaveBeenCalledWith('ton_client.send_outcome', { outcome: 'landed' });
+  });
+
+  it('re-signs once the node stops rate limiting after a 429', async () => {
+    const setup = await wallet([429]);
+    endpoints = setup.endpoints;
+    const queue = new TransactionQueue(setup.transport, logger, metrics, options);
+    const before = Date.now();
+
+    await expect(queue.submit(REQUEST)).resolves.toMatchObject({ success: true, replayKey: 0 });
+    expect(Date.now() - before).toBeGreaterThanOrEqual(1000);
+    expect(endpoints[0].sent).toBe(2);
+    expect(setup.transport.release).toHaveBeenNthCalledWith(1, 0, false);
+    expect(setup.transport.release).toHaveBeenNthCalledWith(2, 0, true);
+  });
+
+  it('treats a 503 as not sent', async () => {
+    const setup = await wallet([503]);
+    endpoints = setup.endpoints;
+    const queue = new TransactionQueue(setup.transport, logger, metrics, options);
+
+    await expect(queue.submit(REQUEST)).resolves.toMatchObject({ success: true, replayKey: 0 });
+    expect(endpoints[0].sent).toBe(2);
+    expect(setup.transport.release).toHaveBeenNthCalledWith(1, 0, false);
+    expect(metrics.increment).toHaveBeenCalledWith('ton_client.send_outcome', { outcome: 'not_sent' });
+  });
+
+  it('re-signs with the same seqno right away after a rejection', async () => {
+    const setup = await wallet([400]);
+    endpoints = setup.endpoints;
+    const queue = new TransactionQueue(setup.transport, logger, metrics, options);
+
+    await expect(queue.submit(REQUEST)).resolves.toMatchObject({ success: true, replayKey: 0 });
+    expect(endpoints[0].sent).toBe(2);
+    expect(setup.transport.release).toHaveBeenNthCalledWith(1, 0, false);
+    expect(setup.transport.release).toHaveBeenNthCalledWith(2, 0, true);
+    expect(metrics.increment).toHaveBeenCalledWith('ton_client.send_outcome', { outcome: 'not_sent' });
+  });
+
+  it('waits instead of re-signing when a node refuses after another left the message unanswered', async () => {
+    const setup = await wallet([504], [500]);
+    endpoints = setup.endpoints;
+    const queue = new TransactionQueue(setup.transport, logger, metrics, options);
+
+    await expect(queue.submit(REQUEST)).resolves.toMatchObject({ success: true, replayKey: 0 });
+    expect(endpoints.map(endpoint => endpoint.sent)).toEqual([1, 1]);
+    expect(setup.transport.reserve).toHaveBeenCalledTimes(1);
+    expect(setup.transport.prepare).toHaveBeenCalledTimes(1);
+    expect(setup.transport.release).not.toHaveBeenCalledWith(0, false);
+  });
+});
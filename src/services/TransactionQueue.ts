@@ -0,0 +1,290 @@
+import { Message } from '@ton/core';
+import {
+  TransactionRequest,
+  TransactionResult,
+  OutboundQueueStatus,
+  OutboundState,
+  WalletType,
+  Logger,
+  MetricsCollector,
+  NetworkError,
+  OutcomeUnknownError
+} from '@/types';
+import { externalMessageHash } from './TransactionTracker';
+
+const EXPIRY_GRACE = 10;             // Seconds past validUntil before a message counts as never applied
+
+/**
+ * Wallet operations the queue needs; signing stays with the caller.
+ * Replay keys are seqnos for sequential wallets and query ids for
+ * highload ones.
+ */
+export interface OutboundTransport {
+  walletType: WalletType;
+  maxMessages: number;               // Requests one transfer can carry
+  maxInFlight: number;               // Transfers that may await landing at once
+  reserve(): Promise<number>;
+  release(key: number, applied: boolean): void;
+  isApplied(key: number): Promise<boolean>;
+  prepare(key: number, requests: TransactionRequest[], ttl: number): Promise<{ message: Message; validUntil: number }>;
+  send(message: Message): Promise<void>;  // Throws OutcomeUnknownError when the message may have been accepted
+}
+
+export interface TransactionQueueOptions {
+  maxRetries: number;
+  retryDelay: number;        // Ms, multiplied by the attempt number
+  messageTtl: number;        // Seconds a signed message stays valid
+  pollInterval: number;      // Ms between landing checks
+}
+
+interface QueuedTransaction {
+  key: string;
+  request: TransactionRequest;
+  promise: Promise<TransactionResult>;
+  resolve: (result: TransactionResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface OutboundTransfer {
+  jobs: QueuedTransaction[];
+  state: OutboundState;
+  attempt: number;
+  hash?: string;
+  replayKey?: number;
+  validUntil?: number;
+}
+
+/**
+ * Identity of a request's payload, for spotting resubmissions
+ */
+export function payloadKey(request: TransactionRequest): string {
+  return [
+    request.to,
+    request.value,
+    request.bounce ?? true,
+    request.data ? request.data.hash().toString('hex') : ''
+  ].join('|');
+}
+
+/**
+ * Single writer for the oracle wallet. Queued requests are packed into
+ * transfers of up to the wallet's message limit, and no more transfers
+ * are pending than the wallet's replay protection allows: one for seqno
+ * wallets, whose next transfer is only signed once the seqno has moved
+ * past the previous one. A transfer the node rejected was not sent and is
+ * retried right away; one no node gave a definite answer for may still
+ * land, so its replay key stays reserved until it lands or expires.
+ * Assumes nothing else sends from the wallet.
+ */
+export class TransactionQueue {
+  private transport: OutboundTransport;
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private options: TransactionQueueOptions;
+  private jobs: QueuedTransaction[] = [];
+  private inFlight: Set<OutboundTransfer> = new Set();
+  private byPayload: Map<string, QueuedTransaction> = new Map();
+
+  constructor(
+    transport: OutboundTransport,
+    logger: Logger,
+    metrics: MetricsCollector,
+    options: TransactionQueueOptions
+  ) {
+    this.transport = transport;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.options = options;
+  }
+
+  /**
+   * Queue a message; resolves once the wallet has applied the transfer
+   * carrying it. A payload identical to one still queued or in flight
+   * joins that submission.
+   */
+  submit(request: TransactionRequest): Promise<TransactionResult> {
+    const key = payloadKey(request);
+    const existing = this.byPayload.get(key);
+    if (existing) {
+      this.logger.info('Duplicate transaction payload, joining pending submission', { to: request.to });
+      this.metrics.increment('ton_client.queue_duplicate');
+      return existing.promise;
+    }
+
+    let resolve!: (result: TransactionResult) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<TransactionResult>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    const job: QueuedTransaction = { key, request, promise, resolve, reject };
+    this.jobs.push(job);
+    this.byPayload.set(key, job);
+    this.metrics.gauge('ton_client.queue_depth', this.jobs.length);
+
+    // Let requests submitted together share a transfer
+    setImmediate(() => this.pump());
+    return promise;
+  }
+
+  getStatus(): OutboundQueueStatus {
+    return {
+      walletType: this.transport.walletType,
+      queued: this.jobs.length,
+      inFlight: Array.from(this.inFlight).map(transfer => ({
+        hash: transfer.hash,
+        replayKey: transfer.replayKey,
+        state: transfer.state,
+        attempt: transfer.attempt,
+        messages: transfer.jobs.length,
+        validUntil: transfer.validUntil
+      }))
+    };
+  }
+
+  /**
+   * Start transfers while the wallet allows more to be pending
+   */
+  private pump(): void {
+    while (this.jobs.length > 0 && this.inFlight.size < this.transport.maxInFlight) {
+      const transfer: OutboundTransfer = {
+        jobs: this.jobs.splice(0, this.transport.maxMessages),
+        state: 'queued',
+        attempt: 0
+      };
+      this.inFlight.add(transfer);
+      this.metrics.gauge('ton_client.queue_depth', this.jobs.length);
+      this.metrics.histogram('ton_client.transfer_messages', transfer.jobs.length);
+
+      void this.deliver(transfer)
+        .then(result => transfer.jobs.forEach(job => job.resolve(result)))
+        .catch(error => {
+          const failure = error instanceof Error ? error : new Error(String(error));
+          transfer.jobs.forEach(job => job.reject(failure));
+        })
+        .finally(() => {
+          transfer.jobs.forEach(job => this.byPayload.delete(job.key));
+          this.inFlight.delete(transfer);
+          this.pump();
+        });
+    }
+  }
+
+  private async deliver(transfer: OutboundTransfer): Promise<TransactionResult> {
+    let lastError: unknown;
+
+    while (transfer.attempt < this.options.maxRetries) {
+      transfer.attempt++;
+      transfer.state = 'sending';
+      let replayKey: number | undefined;
+
+      try {
+        replayKey = await this.transport.reserve();
+        const { message, validUntil } = await this.transport.prepare(
+          replayKey,
+          transfer.jobs.map(job => job.request),
+          this.options.messageTtl
+        );
+        transfer.hash = externalMessageHash(message);
+        transfer.replayKey = replayKey;
+        transfer.validUntil = validUntil;
+
+        let rejected = false;
+        try {
+          await this.transport.send(message);
+        } catch (error) {
+          lastError = error;
+          rejected = this.isRejection(error);
+          this.logger.warn(rejected ? 'Message rejected by node' : 'Send outcome unknown, waiting for it to land', {
+            hash: transfer.hash,
+            replayKey,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+
+        if (!rejected) {
+          transfer.state = 'unconfirmed';
+          if (await this.waitForLanding(replayKey, validUntil)) {
+            this.transport.release(replayKey, true);
+            this.metrics.increment('ton_client.send_outcome', { outcome: 'landed' });
+            return {
+              hash: transfer.hash,
+              success: true,
+              gasUsed: 0,
+              timestamp: Date.now(),
+              replayKey
+            };
+          }
+          this.logger.warn('Message expired without being applied', { hash: transfer.hash, replayKey, validUntil });
+        }
+
+        // Never applied, so the key is free again
+        this.transport.release(replayKey, false);
+        this.metrics.increment('ton_client.send_outcome', { outcome: 'not_sent' });
+
+      } catch (error) {
+        // Failed before anything reached the network
+        lastError = error;
+        if (replayKey !== undefined) {
+          this.transport.release(replayKey, false);
+        }
+        this.logger.warn('Failed to prepare message', {
+          attempt: transfer.attempt,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      if (transfer.attempt < this.options.maxRetries) {
+        transfer.state = 'queued';
+        await this.sleep(Math.max(this.options.retryDelay * transfer.attempt, this.getRetryDelay(lastError)));
+      }
+    }
+
+    throw new Error(
+      `Not sent after ${transfer.attempt} attempts: ${lastError instanceof Error ? lastError.message : lastError ?? 'message expired'}`
+    );
+  }
+
+  /**
+   * Poll until the wallet has applied the transfer, or until it can no
+   * longer be applied
+   */
+  private async waitForLanding(replayKey: number, validUntil: number): Promise<boolean> {
+    while (Date.now() / 1000 < validUntil + EXPIRY_GRACE) {
+      try {
+        if (await this.transport.isApplied(replayKey)) {
+          return true;
+        }
+      } catch (error) {
+        this.logger.debug('Landing check failed', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      await this.sleep(this.options.pollInterval);
+    }
+
+    return false;
+  }
+
+  /**
+   * Whether the message definitely was not accepted: a node refused it or
+   * it never left. When no node answered, the outcome is unknown.
+   */
+  private isRejection(error: unknown): boolean {
+    return !(error instanceof OutcomeUnknownError);
+  }
+
+  /**
+   * Time until the endpoints stop rate limiting, when a refusal says so
+   */
+  private getRetryDelay(error: unknown): number {
+    const retryAt = error instanceof NetworkError ? error.metadata?.retryAt : undefined;
+    return typeof retryAt === 'number' ? Math.max(0, retryAt - Date.now()) : 0;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
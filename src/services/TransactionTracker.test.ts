@@ -0,0 +1,287 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { TonClient } from '@ton/ton';
+import {
+  Address,
+  Cell,
+  Dictionary,
+  DictionaryValue,
+  ExternalAddress,
+  Message,
+  beginCell,
+  external,
+  loadMessage,
+  storeMessage,
+  storeTransaction
+} from '@ton/core';
+import { TransactionTracker, externalMessageHash } from './TransactionTracker';
+import { Logger, MetricsCollector, TransactionStatus } from '@/types';
+
+const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const metrics: MetricsCollector = { increment: jest.fn(), gauge: jest.fn(), histogram: jest.fn(), timing: jest.fn() };
+
+const WALLET = Address.parse('EQBynBO23ywHy_CgarY9NK9FTz0yDsG82PtcbSTQgGoXwiuA');
+const ORACLE = Address.parse('EQAvlWFDxGF2lXm67y4yzC17wYKD9A0guwPkMs1gOsM__NOT');
+
+const MessageValue: DictionaryValue<Message> = {
+  serialize: (message, builder) => builder.storeRef(beginCell().store(storeMessage(message))),
+  parse: slice => loadMessage(slice.loadRef().beginParse())
+};
+
+function transfer(src: Address, dest: Address, createdLt: bigint, op: number): Message {
+  return {
+    info: {
+      type: 'internal',
+      ihrDisabled: true,
+      bounce: true,
+      bounced: false,
+      src,
+      dest,
+      value: { coins: 50000000n },
+      ihrFee: 0n,
+      forwardFee: 0n,
+      createdLt,
+      createdAt: Math.floor(Date.now() / 1000)
+    },
+    body: beginCell().storeUint(op, 32).endCell()
+  };
+}
+
+/**
+ * Serialized transaction at address, with a VM compute phase ending in
+ * exitCode and the given out-messages
+ */
+function transaction(
+  address: Address,
+  lt: bigint,
+  inMessage: Message,
+  outMessages: Message[] = [],
+  exitCode: number = 0
+): Cell {
+  const success = exitCode === 0 || exitCode === 1;
+  const out = Dictionary.empty(Dictionary.Keys.Uint(15), MessageValue);
+  outMessages.forEach((message, index) => out.set(index, message));
+
+  return beginCell().store(storeTransaction({
+    address: BigInt('0x' + address.hash.toString('hex')),
+    lt,
+    prevTransactionHash: 0n,
+    prevTransactionLt: 0n,
+    now: Math.floor(Date.now() / 1000),
+    outMessagesCount: outMessages.length,
+    oldStatus: 'active',
+    endStatus: 'active',
+    inMessage,
+    outMessages: out,
+    totalFees: { coins: 1000000n },
+    stateUpdate: { oldHash: Buffer.alloc(32), newHash: Buffer.alloc(32) },
+    description: {
+      type: 'generic',
+      creditFirst: inMessage.info.type === 'internal',
+      computePhase: {
+        type: 'vm',
+        success,
+        messageStateUsed: false,
+        accountActivated: false,
+        gasFees: 1000000n,
+        gasUsed: 2500n,
+        gasLimit: 1000000n,
+        mode: 0,
+        exitCode,
+        vmSteps: 100,
+        vmInitStateHash: 0n,
+        vmFinalStateHash: 0n
+      },
+      actionPhase: success ? {
+        success: true,
+        valid: true,
+        noFunds: false,
+        statusChange: 'unchanged',
+        resultCode: 0,
+        totalActions: outMessages.length,
+        specActions: 0,
+        skippedActions: 0,
+        messagesCreated: outMessages.length,
+        actionListHash: 0n,
+        totalMessageSize: { cells: 1n, bits: 100n }
+      } : null,
+      aborted: !success,
+      destroyed: false
+    },
+    raw: Cell.EMPTY,
+    hash: () => Buffer.alloc(32)
+  })).endCell();
+}
+
+function toncenterTransaction(cell: Cell) {
+  return {
+    data: cell.toBoc().toString('base64'),
+    utime: Math.floor(Date.now() / 1000),
+    transaction_id: { lt: '0', hash: cell.hash().toString('base64') },
+    fee: '0',
+    storage_fee: '0',
+    other_fee: '0',
+    out_msgs: []
+  };
+}
+
+/**
+ * toncenter v2 JSON-RPC stub serving wallet history and result
+ * transactions keyed by destination and message lt
+ */
+class MockToncenter {
+  server: Server;
+  walletTransactions: Cell[] = [];
+  results: Map<string, Cell> = new Map();
+  calls: string[] = [];
+
+  constructor() {
+    this.server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => body += chunk);
+      request.on('end', () => {
+        const { method, params } = JSON.parse(body);
+        this.calls.push(method);
+        response.setHeader('Content-Type', 'application/json');
+
+        if (method === 'getTransactions') {
+          response.end(JSON.stringify({ ok: true, result: this.walletTransactions.map(toncenterTransaction) }));
+          return;
+        }
+
+        const result = method === 'tryLocateResultTx'
+          ? this.results.get(`${Address.parse(params.destination).toRawString()}:${params.created_lt}`)
+          : undefined;
+        if (!result) {
+          response.statusCode = 404;
+          response.end(JSON.stringify({ ok: false, error: 'lt not in db', code: 404 }));
+          return;
+        }
+        response.end(JSON.stringify({ ok: true, result: toncenterTransaction(result) }));
+      });
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/jsonRPC`;
+  }
+
+  addResult(message: Message, tx: Cell): void {
+    if (message.info.type !== 'internal') throw new Error('Result transactions follow internal messages');
+    this.results.set(`${message.info.dest.toRawString()}:${message.info.createdLt}`, tx);
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+describe('externalMessageHash', () => {
+  const body = beginCell().storeUint(0xdeadbeef, 32).storeUint(7, 64).endCell();
+
+  it('hashes the normalized message: no source, no import fee, no state init, body by reference', () => {
+    // ext_in_msg_info$10 src:addr_none dest import_fee:0, init:nothing, body:^Cell
+    const normalized = beginCell()
+      .storeUint(0b10, 2)
+      .storeUint(0b00, 2)
+      .storeAddress(WALLET)
+      .storeCoins(0)
+      .storeBit(0)
+      .storeBit(1)
+      .storeRef(body)
+      .endCell();
+
+    const relayed: Message = {
+      info: { type: 'external-in', src: new ExternalAddress(0xabcdn, 16), dest: WALLET, importFee: 12345n },
+      init: { code: beginCell().storeUint(1, 8).endCell(), data: beginCell().endCell() },
+      body
+    };
+
+    expect(externalMessageHash(external({ to: WALLET, body }))).toBe(normalized.hash().toString('hex'));
+    expect(externalMessageHash(relayed)).toBe(normalized.hash().toString('hex'));
+  });
+
+  it('rejects internal messages', () => {
+    expect(() => externalMessageHash(transfer(WALLET, ORACLE, 1n, 0))).toThrow('Not an external-in message: internal');
+  });
+});
+
+describe('TransactionTracker', () => {
+  let toncenter: MockToncenter;
+  let tracker: TransactionTracker;
+
+  const externalIn = external({ to: WALLET, body: beginCell().storeUint(0xdeadbeef, 32).endCell() });
+  const hash = externalMessageHash(externalIn);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    toncenter = new MockToncenter();
+    const client = new TonClient({ endpoint: await toncenter.listen() });
+    tracker = new TransactionTracker(client, logger, metrics, 20);
+  });
+
+  afterEach(async () => {
+    await toncenter.close();
+  });
+
+  it('follows a highload internal_transfer hop to the oracle transaction', async () => {
+    const internalTransfer = transfer(WALLET, WALLET, 101n, 0xae42e5a4);
+    const update = transfer(WALLET, ORACLE, 103n, 0x4f524355);
+
+    toncenter.walletTransactions = [
+      transaction(WALLET, 100n, transfer(ORACLE, WALLET, 50n, 0)),  // Unrelated
+      transaction(WALLET, 100n, externalIn, [internalTransfer])
+    ];
+    toncenter.addResult(internalTransfer, transaction(WALLET, 102n, internalTransfer, [update]));
+    toncenter.addResult(update, transaction(ORACLE, 104n, update));
+
+    const monitor = await tracker.track(hash, WALLET, Date.now(), 2000);
+
+    expect(monitor.status).toBe(TransactionStatus.CONFIRMED);
+    expect(monitor.trace!.map(t => [t.address, t.lt, t.success])).toEqual([
+      [WALLET.toString(), '100', true],
+      [WALLET.toString(), '102', true],
+      [ORACLE.toString(), '104', true]
+    ]);
+    expect(monitor.result).toMatchObject({ success: true, lt: '100', exitCode: 0, fees: '3000000', gasUsed: 5000 });
+    expect(metrics.increment).toHaveBeenCalledWith('ton_client.transaction_confirmed');
+  });
+
+  it('reports the exit code of a failed destination transaction', async () => {
+    const update = transfer(WALLET, ORACLE, 101n, 0x4f524355);
+    toncenter.walletTransactions = [transaction(WALLET, 100n, externalIn, [update])];
+    toncenter.addResult(update, transaction(ORACLE, 102n, update, [], 401));
+
+    const monitor = await tracker.track(hash, WALLET, Date.now(), 2000);
+
+    expect(monitor.status).toBe(TransactionStatus.FAILED);
+    expect(monitor.result).toMatchObject({
+      success: false,
+      exitCode: 401,
+      error: `Exit code 401 at ${ORACLE.toString()}`
+    });
+    expect(metrics.increment).toHaveBeenCalledWith('ton_client.transaction_failed', { exitCode: '401' });
+  });
+
+  it('times out when the wallet transaction never appears', async () => {
+    const monitor = await tracker.track(hash, WALLET, Date.now(), 150);
+
+    expect(monitor.status).toBe(TransactionStatus.TIMEOUT);
+    expect(monitor.result).toBeUndefined();
+    expect(toncenter.calls.filter(method => method === 'getTransactions').length).toBeGreaterThan(1);
+    expect(metrics.increment).toHaveBeenCalledWith('ton_client.transaction_timeout');
+  });
+
+  it('times out with the wallet result when a destination transaction is missing', async () => {
+    const update = transfer(WALLET, ORACLE, 101n, 0x4f524355);
+    toncenter.walletTransactions = [transaction(WALLET, 100n, externalIn, [update])];
+
+    const monitor = await tracker.track(hash, WALLET, Date.now(), 150);
+
+    expect(monitor.status).toBe(TransactionStatus.TIMEOUT);
+    expect(monitor.result).toMatchObject({ lt: '100' });
+    expect(monitor.trace).toHaveLength(1);
+    expect(toncenter.calls).toContain('tryLocateResultTx');
+  });
+});
@@ -0,0 +1,218 @@
+import { TonClient } from '@ton/ton';
+import { Address, Message, Transaction, beginCell, storeMessage } from '@ton/core';
+import {
+  TransactionMonitor,
+  TransactionResult,
+  TransactionStatus,
+  TransactionTrace,
+  Logger,
+  MetricsCollector
+} from '@/types';
+
+const WALLET_SCAN_LIMIT = 20;        // Latest wallet transactions checked per poll
+const CLOCK_SKEW = 60;               // Seconds a transaction may predate the local send time
+
+export type TransactionLookup = Pick<TonClient, 'getTransactions' | 'tryLocateResultTx'>;
+
+/**
+ * Hash of an external-in message with the parts the sender or a relaying
+ * node may change zeroed out (source, import fee, state init), so the
+ * hash computed at send time matches the one found on-chain
+ */
+export function externalMessageHash(message: Message): string {
+  if (message.info.type !== 'external-in') {
+    throw new Error(`Not an external-in message: ${message.info.type}`);
+  }
+
+  const normalized: Message = {
+    info: { type: 'external-in', src: null, dest: message.info.dest, importFee: 0n },
+    init: null,
+    body: message.body
+  };
+  return beginCell().store(storeMessage(normalized, { forceRef: true })).endCell().hash().toString('hex');
+}
+
+/**
+ * Follows a sent external message: finds the wallet transaction it
+ * produced, then the transaction each outbound message produced at its
+ * destination, and checks their compute and action phases
+ */
+export class TransactionTracker {
+  private client: TransactionLookup;
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private pollInterval: number;
+
+  constructor(client: TransactionLookup, logger: Logger, metrics: MetricsCollector, pollInterval: number = 2000) {
+    this.client = client;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.pollInterval = pollInterval;
+  }
+
+  async track(hash: string, wallet: Address, submittedAt: number, maxWaitTime: number): Promise<TransactionMonitor> {
+    const monitor: TransactionMonitor = {
+      hash,
+      status: TransactionStatus.PENDING,
+      confirmations: 0,
+      submittedAt,
+      maxWaitTime
+    };
+    const deadline = Date.now() + maxWaitTime;
+
+    let walletTx: Transaction | null = null;
+    const trace: TransactionTrace[] = [];
+    const pending: Message[] = [];
+
+    while (Date.now() < deadline) {
+      try {
+        if (!walletTx) {
+          walletTx = await this.findWalletTransaction(wallet, hash, submittedAt);
+          if (walletTx) {
+            trace.push(this.describe(wallet, walletTx));
+            pending.push(...walletTx.outMessages.values());
+          }
+        }
+
+        // Destination transactions land after the wallet's, possibly in a
+        // later block; messages the wallet sent itself (a highload wallet's
+        // internal_transfer) are followed to the messages they release
+        while (walletTx && pending.length > 0) {
+          const message = pending[0];
+          if (message.info.type !== 'internal') {
+            pending.shift();
+            continue;
+          }
+
+          const source = message.info.src;
+          const destTx = await this.client.tryLocateResultTx(source, message.info.dest, message.info.createdLt.toString());
+          trace.push(this.describe(message.info.dest, destTx));
+          pending.shift();
+
+          if (message.info.dest.equals(wallet)) {
+            pending.push(...destTx.outMessages.values());
+          }
+        }
+
+        if (walletTx && pending.length === 0) break;
+
+      } catch (error) {
+        this.logger.debug('Transaction not found yet', {
+          hash,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      await this.sleep(this.pollInterval);
+    }
+
+    if (!walletTx) {
+      monitor.status = TransactionStatus.TIMEOUT;
+      this.metrics.increment('ton_client.transaction_timeout');
+      this.logger.warn('Transaction not found before timeout', { hash, maxWaitTime });
+      return monitor;
+    }
+
+    monitor.trace = trace;
+    monitor.result = this.summarize(hash, walletTx, trace);
+
+    if (pending.length > 0) {
+      monitor.status = TransactionStatus.TIMEOUT;
+      this.metrics.increment('ton_client.transaction_timeout');
+      this.logger.warn('Destination transaction not found before timeout', { hash, lt: monitor.result.lt });
+      return monitor;
+    }
+
+    monitor.status = monitor.result.success ? TransactionStatus.CONFIRMED : TransactionStatus.FAILED;
+    monitor.confirmations = 1;
+    monitor.confirmedAt = Date.now();
+
+    this.metrics.timing('ton_client.confirmation_time', monitor.confirmedAt - submittedAt);
+    if (monitor.result.success) {
+      this.metrics.increment('ton_client.transaction_confirmed');
+    } else {
+      this.metrics.increment('ton_client.transaction_failed', { exitCode: String(monitor.result.exitCode ?? '') });
+      this.logger.error('Transaction failed on-chain', { hash, error: monitor.result.error, trace });
+    }
+
+    return monitor;
+  }
+
+  private async findWalletTransaction(wallet: Address, hash: string, submittedAt: number): Promise<Transaction | null> {
+    const transactions = await this.client.getTransactions(wallet, { limit: WALLET_SCAN_LIMIT, archival: true });
+
+    for (const tx of transactions) {
+      if (tx.now < submittedAt / 1000 - CLOCK_SKEW) break;
+
+      if (tx.inMessage?.info.type === 'external-in' && externalMessageHash(tx.inMessage) === hash) {
+        return tx;
+      }
+    }
+    return null;
+  }
+
+  private describe(address: Address, tx: Transaction): TransactionTrace {
+    const trace: TransactionTrace = {
+      address: address.toString(),
+      lt: tx.lt.toString(),
+      hash: tx.hash().toString('hex'),
+      fees: tx.totalFees.coins.toString(),
+      aborted: false,
+      success: false
+    };
+
+    const description = tx.description;
+    if (description.type !== 'generic') {
+      return trace;
+    }
+
+    trace.aborted = description.aborted;
+    const compute = description.computePhase;
+    if (compute.type === 'skipped') {
+      trace.computeSkipped = compute.reason;
+      return trace;
+    }
+
+    trace.exitCode = compute.exitCode;
+    trace.gasUsed = Number(compute.gasUsed);
+    trace.actionResultCode = description.actionPhase?.resultCode;
+    trace.success = compute.success && (description.actionPhase?.success ?? true) && !description.aborted;
+    return trace;
+  }
+
+  private summarize(hash: string, walletTx: Transaction, trace: TransactionTrace[]): TransactionResult {
+    const [walletTrace, ...destinations] = trace;
+    const failed = trace.find(t => !t.success);
+    const last = destinations[destinations.length - 1];
+
+    return {
+      hash,
+      success: !failed,
+      gasUsed: destinations.reduce((sum, t) => sum + (t.gasUsed || 0), 0),
+      timestamp: walletTx.now * 1000,
+      lt: walletTrace.lt,
+      txHash: walletTrace.hash,
+      fees: trace.reduce((sum, t) => sum + BigInt(t.fees), 0n).toString(),
+      exitCode: failed ? failed.exitCode : last?.exitCode,
+      actionResultCode: failed ? failed.actionResultCode : last?.actionResultCode,
+      error: failed ? this.describeFailure(failed) : undefined
+    };
+  }
+
+  private describeFailure(trace: TransactionTrace): string {
+    if (trace.computeSkipped) {
+      return `Compute phase skipped at ${trace.address}: ${trace.computeSkipped}`;
+    }
+    if (trace.exitCode !== undefined && trace.exitCode !== 0 && trace.exitCode !== 1) {
+      return `Exit code ${trace.exitCode} at ${trace.address}`;
+    }
+    if (trace.actionResultCode) {
+      return `Action phase failed with code ${trace.actionResultCode} at ${trace.address}`;
+    }
+    return `Transaction aborted at ${trace.address}`;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
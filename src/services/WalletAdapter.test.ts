@@ -0,0 +1,130 @@
+import { WalletContractV4, WalletContractV5R1 } from '@ton/ton';
+import { internal, toNano } from '@ton/core';
+import { keyPairFromSeed, sign, signVerify } from '@ton/crypto';
+import { HighloadWalletAdapter, SeqnoWalletAdapter, createWalletAdapter } from './WalletAdapter';
+import { Signer } from './Signer';
+import { RpcPool } from './RpcPool';
+import { HIGHLOAD_V3_MAX_QUERY_ID, HighloadWalletV3 } from '@/contracts/HighloadWalletV3';
+import { ConfigurationError, WalletConfig, WalletType } from '@/types';
+
+const KEY = keyPairFromSeed(Buffer.alloc(32, 7));
+const MESSAGE = internal({ to: 'EQAvlWFDxGF2lXm67y4yzC17wYKD9A0guwPkMs1gOsM__NOT', value: toNano('0.05') });
+
+const signer: Signer = {
+  type: 'memory',
+  getPublicKey: async () => KEY.publicKey,
+  sign: async hash => sign(hash, KEY.secretKey)
+};
+
+/**
+ * RPC pool answering every read with the next of the given values and
+ * every call with whether the wallet is deployed
+ */
+function stubRpc(reads: unknown[] = [], deployed = true) {
+  return {
+    read: jest.fn(async () => reads.shift()),
+    call: jest.fn(async () => deployed)
+  };
+}
+
+function config(type?: WalletType, overrides: Partial<WalletConfig> = {}): WalletConfig {
+  return { signer: { type: 'memory' }, address: '', type, ...overrides };
+}
+
+describe('createWalletAdapter', () => {
+  const rpc = stubRpc() as unknown as RpcPool;
+
+  it('defaults to a v4 wallet', () => {
+    const adapter = createWalletAdapter(config(), KEY.publicKey, rpc, 'testnet');
+
+    expect(adapter).toBeInstanceOf(SeqnoWalletAdapter);
+    expect(adapter).toMatchObject({ type: 'v4', maxMessages: 4, maxInFlight: 1 });
+    expect(adapter.address.equals(WalletContractV4.create({ workchain: 0, publicKey: KEY.publicKey }).address)).toBe(true);
+  });
+
+  it('builds a v5r1 wallet for the network', () => {
+    const adapter = createWalletAdapter(config('v5r1'), KEY.publicKey, rpc, 'testnet');
+    const testnet = WalletContractV5R1.create({
+      publicKey: KEY.publicKey,
+      walletId: { networkGlobalId: -3, context: { walletVersion: 'v5r1', workchain: 0, subwalletNumber: 0 } }
+    });
+
+    expect(adapter).toMatchObject({ type: 'v5r1', maxMessages: 255, maxInFlight: 1 });
+    expect(adapter.address.equals(testnet.address)).toBe(true);
+    expect(createWalletAdapter(config('v5r1'), KEY.publicKey, rpc, 'mainnet').address.equals(testnet.address)).toBe(false);
+  });
+
+  it('builds a highload v3 wallet with its timeout and in-flight limit', () => {
+    const adapter = createWalletAdapter(config('highload_v3', { timeout: 600, maxInFlight: 16 }), KEY.publicKey, rpc, 'testnet');
+
+    expect(adapter).toBeInstanceOf(HighloadWalletAdapter);
+    expect(adapter).toMatchObject({ type: 'highload_v3', maxMessages: 254, maxInFlight: 16 });
+    expect(adapter.address.equals(HighloadWalletV3.create({ publicKey: KEY.publicKey, timeout: 600 }).address)).toBe(true);
+    expect(createWalletAdapter(config('highload_v3'), KEY.publicKey, rpc, 'testnet').maxInFlight).toBe(8);
+  });
+
+  it('rejects an unknown wallet type', () => {
+    expect(() => createWalletAdapter(config('v3' as WalletType), KEY.publicKey, rpc, 'testnet'))
+      .toThrow(new ConfigurationError('Unsupported wallet type: v3'));
+  });
+});
+
+describe('SeqnoWalletAdapter', () => {
+  it('signs from the chain seqno and resyncs after a transfer that never landed', async () => {
+    const rpc = stubRpc([5, 7]);
+    const adapter = new SeqnoWalletAdapter(WalletContractV4.create({ workchain: 0, publicKey: KEY.publicKey }), rpc as unknown as RpcPool);
+
+    await expect(adapter.reserve()).resolves.toBe(5);
+    adapter.release(5, true);
+    await expect(adapter.reserve()).resolves.toBe(6);
+    expect(rpc.read).toHaveBeenCalledTimes(1);
+
+    adapter.release(6, false);
+    await expect(adapter.reserve()).resolves.toBe(7);
+    expect(rpc.read).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('HighloadWalletAdapter', () => {
+  const wallet = HighloadWalletV3.create({ publicKey: KEY.publicKey, timeout: 300 });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('wraps the query id around after the largest 23-bit value', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1 - Number.EPSILON);
+    const adapter = new HighloadWalletAdapter(wallet, stubRpc() as unknown as RpcPool);
+
+    await expect(adapter.reserve()).resolves.toBe(HIGHLOAD_V3_MAX_QUERY_ID);
+    await expect(adapter.reserve()).resolves.toBe(0);
+    await expect(adapter.reserve()).resolves.toBe(1);
+  });
+
+  it('keeps a transfer valid for the wallet timeout from its backdated creation', async () => {
+    const now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const adapter = new HighloadWalletAdapter(wallet, stubRpc() as unknown as RpcPool);
+
+    const transfer = await adapter.createTransfer(42, [MESSAGE], 60, signer);
+
+    expect(transfer.validUntil).toBe(now / 1000 - 30 + 300);
+    const inner = transfer.message.body.beginParse().skip(512).loadRef();
+    const signature = transfer.message.body.beginParse().loadBuffer(64);
+    expect(signVerify(inner.hash(), signature, KEY.publicKey)).toBe(true);
+  });
+
+  it('deploys the wallet with its first transfer until a query lands', async () => {
+    const rpc = stubRpc([true], false);
+    const adapter = new HighloadWalletAdapter(wallet, rpc as unknown as RpcPool);
+
+    const first = await adapter.createTransfer(1, [MESSAGE], 60, signer);
+    expect(first.message.init).toEqual(wallet.init);
+    expect(rpc.call).toHaveBeenCalledWith('isContractDeployed', expect.any(Function));
+
+    await expect(adapter.isApplied(1)).resolves.toBe(true);
+    rpc.call.mockClear();
+
+    const second = await adapter.createTransfer(2, [MESSAGE], 60, signer);
+    expect(second.message.init).toBeUndefined();
+    expect(rpc.call).not.toHaveBeenCalled();
+  });
+});
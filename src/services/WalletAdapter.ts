@@ -0,0 +1,221 @@
+import { WalletContractV4, WalletContractV5R1 } from '@ton/ton';
+import { Address, Cell, Message, MessageRelaxed, SendMode, external } from '@ton/core';
+import { HighloadWalletV3, HIGHLOAD_V3_MAX_QUERY_ID } from '@/contracts/HighloadWalletV3';
+import { WalletConfig, WalletType, ConfigurationError } from '@/types';
+import { Signer } from './Signer';
+import { RpcPool } from './RpcPool';
+
+const V4_MAX_MESSAGES = 4;
+const V5R1_MAX_MESSAGES = 255;
+const HIGHLOAD_V3_MAX_MESSAGES = 254;
+const DEFAULT_HIGHLOAD_TIMEOUT = 300;
+const DEFAULT_HIGHLOAD_IN_FLIGHT = 8;
+
+export interface SignedTransfer {
+  message: Message;          // External message for the wallet
+  validUntil: number;        // Unix time after which the wallet rejects it
+}
+
+/**
+ * What the outbound queue needs from a wallet contract: how many messages
+ * a transfer carries, how many transfers may be pending at once, and its
+ * replay protection. Keys are seqnos for sequential wallets and query ids
+ * for highload ones.
+ */
+export interface WalletAdapter {
+  readonly type: WalletType;
+  readonly address: Address;
+  readonly maxMessages: number;
+  readonly maxInFlight: number;
+
+  /**
+   * Replay key for the next transfer
+   */
+  reserve(): Promise<number>;
+
+  /**
+   * Return a key once its transfer was applied or can no longer be
+   */
+  release(key: number, applied: boolean): void;
+
+  isApplied(key: number): Promise<boolean>;
+
+  /**
+   * Sign a transfer; the signer only ever sees the hash of its body
+   */
+  createTransfer(key: number, messages: MessageRelaxed[], ttl: number, signer: Signer): Promise<SignedTransfer>;
+}
+
+/**
+ * Wallets v4 and v5r1, which apply transfers strictly in seqno order, so
+ * only one can be pending at a time
+ */
+export class SeqnoWalletAdapter implements WalletAdapter {
+  readonly type: WalletType;
+  readonly address: Address;
+  readonly maxMessages: number;
+  readonly maxInFlight: number = 1;
+  private wallet: WalletContractV4 | WalletContractV5R1;
+  private rpc: RpcPool;
+  private seqno?: number;            // Next seqno to sign with; unset until synced from the chain
+
+  constructor(wallet: WalletContractV4 | WalletContractV5R1, rpc: RpcPool) {
+    this.wallet = wallet;
+    this.rpc = rpc;
+    this.address = wallet.address;
+    this.type = wallet instanceof WalletContractV4 ? 'v4' : 'v5r1';
+    this.maxMessages = wallet instanceof WalletContractV4 ? V4_MAX_MESSAGES : V5R1_MAX_MESSAGES;
+  }
+
+  async reserve(): Promise<number> {
+    if (this.seqno === undefined) {
+      this.seqno = await this.getSeqno();
+    }
+    return this.seqno;
+  }
+
+  release(key: number, applied: boolean): void {
+    // Resync after a transfer that never landed, in case the wallet moved
+    this.seqno = applied ? Math.max(this.seqno ?? 0, key + 1) : undefined;
+  }
+
+  async isApplied(key: number): Promise<boolean> {
+    const current = await this.getSeqno();
+    if (current > key + 1) {
+      // Someone else sent from the wallet; start over from the chain's seqno
+      this.seqno = current;
+    }
+    return current > key;
+  }
+
+  async createTransfer(key: number, messages: MessageRelaxed[], ttl: number, signer: Signer): Promise<SignedTransfer> {
+    const validUntil = Math.floor(Date.now() / 1000) + ttl;
+    const args = {
+      seqno: key,
+      signer: (body: Cell) => signer.sign(body.hash()),
+      messages,
+      sendMode: SendMode.PAY_GAS_SEPARATELY,
+      timeout: validUntil
+    };
+
+    const body = this.wallet instanceof WalletContractV4
+      ? await this.wallet.createTransfer(args)
+      : await this.wallet.createTransfer(args);
+
+    return {
+      message: external({ to: this.address, init: key === 0 ? this.wallet.init : undefined, body }),
+      validUntil
+    };
+  }
+
+  private getSeqno(): Promise<number> {
+    return this.rpc.read('getSeqno', client => client.open(this.wallet).getSeqno(), String);
+  }
+}
+
+/**
+ * Highload wallet v3: transfers carry a query id instead of a seqno, so
+ * several can be pending at once and land in any order. A message stays
+ * valid for the wallet's own timeout, whatever ttl is asked for.
+ */
+export class HighloadWalletAdapter implements WalletAdapter {
+  readonly type: WalletType = 'highload_v3';
+  readonly address: Address;
+  readonly maxMessages: number = HIGHLOAD_V3_MAX_MESSAGES;
+  readonly maxInFlight: number;
+  private wallet: HighloadWalletV3;
+  private rpc: RpcPool;
+  private nextQueryId: number;
+  private deployed: boolean = false;
+
+  constructor(wallet: HighloadWalletV3, rpc: RpcPool, maxInFlight: number = DEFAULT_HIGHLOAD_IN_FLIGHT) {
+    this.wallet = wallet;
+    this.rpc = rpc;
+    this.address = wallet.address;
+    this.maxInFlight = maxInFlight;
+    // A random start keeps a restart from reusing ids still remembered by the wallet
+    this.nextQueryId = Math.floor(Math.random() * (HIGHLOAD_V3_MAX_QUERY_ID + 1));
+  }
+
+  async reserve(): Promise<number> {
+    const queryId = this.nextQueryId;
+    this.nextQueryId = (this.nextQueryId + 1) % (HIGHLOAD_V3_MAX_QUERY_ID + 1);
+    return queryId;
+  }
+
+  release(): void {
+    // Query ids are never reused within the wallet's timeout
+  }
+
+  async isApplied(key: number): Promise<boolean> {
+    const processed = await this.rpc.read('getProcessed', client => client.open(this.wallet).getProcessed(key), String);
+    this.deployed = this.deployed || processed;
+    return processed;
+  }
+
+  async createTransfer(key: number, messages: MessageRelaxed[], ttl: number, signer: Signer): Promise<SignedTransfer> {
+    const createdAt = HighloadWalletV3.createdAt();
+    const body = await this.wallet.createTransfer({
+      queryId: key,
+      createdAt,
+      messages,
+      sendMode: SendMode.PAY_GAS_SEPARATELY,
+      signer: inner => signer.sign(inner.hash())
+    });
+
+    if (!this.deployed) {
+      this.deployed = await this.rpc.call('isContractDeployed', client => client.isContractDeployed(this.address));
+    }
+
+    return {
+      message: external({ to: this.address, init: this.deployed ? undefined : this.wallet.init, body }),
+      validUntil: createdAt + this.wallet.timeout
+    };
+  }
+}
+
+/**
+ * Build the adapter for the configured wallet type
+ */
+export function createWalletAdapter(
+  config: WalletConfig,
+  publicKey: Buffer,
+  rpc: RpcPool,
+  network: 'mainnet' | 'testnet'
+): WalletAdapter {
+  const type = config.type ?? 'v4';
+
+  switch (type) {
+    case 'v4':
+      return new SeqnoWalletAdapter(
+        WalletContractV4.create({ workchain: 0, publicKey, walletId: config.subwalletId }),
+        rpc
+      );
+
+    case 'v5r1':
+      return new SeqnoWalletAdapter(
+        WalletContractV5R1.create({
+          publicKey,
+          walletId: {
+            networkGlobalId: network === 'mainnet' ? -239 : -3,
+            context: { walletVersion: 'v5r1', workchain: 0, subwalletNumber: config.subwalletId ?? 0 }
+          }
+        }),
+        rpc
+      );
+
+    case 'highload_v3':
+      return new HighloadWalletAdapter(
+        HighloadWalletV3.create({
+          publicKey,
+          subwalletId: config.subwalletId,
+          timeout: config.timeout ?? DEFAULT_HIGHLOAD_TIMEOUT
+        }),
+        rpc,
+        config.maxInFlight
+      );
+
+    default:
+      throw new ConfigurationError(`Unsupported wallet type: ${type}`);
+  }
+}
@@ -1,5 +1,6 @@
 import { Address, Cell, Contract } from '@ton/core';
 import { PriceHistory } from './price';
+import { SourceHealthConfig, SourceHealthStatus } from './oracle';
 
 export interface TONConfig {
   network: 'mainnet' | 'testnet';
@@ -9,12 +10,54 @@ export interface TONConfig {
   gasPrice: number;
   maxRetries: number;
   retryDelay: number;
+  confirmationTimeout?: number; // Ms to wait for a sent message to land, defaults to 60000
+  pollInterval?: number;        // Ms between transaction lookups, defaults to 2000
+  messageTtl?: number;          // Seconds a signed message stays valid, defaults to 60
+  endpoints?: RpcEndpointConfig[]; // RPC pool; endpoint and apiKey alone when unset
+  readQuorum?: number;          // Endpoints that must agree on state, seqno and query id reads, defaults to 1
+  requestTimeout?: number;      // Ms per RPC request, defaults to 5000
+  maxBlockLag?: number;         // Masterchain blocks an endpoint may trail the freshest one, defaults to 5
+  healthCheckInterval?: number; // Ms between endpoint block height probes, defaults to 15000
+  endpointHealth?: Partial<SourceHealthConfig>;
+}
+
+export interface RpcEndpointConfig {
+  url: string;
+  apiKey?: string;
+  name?: string;             // Metrics label, defaults to the URL's host
+}
+
+export interface RpcEndpointStatus {
+  name: string;
+  url: string;
+  health: SourceHealthStatus;
+  latestBlock?: number;      // Masterchain seqno at the last probe
+  lagging: boolean;          // Trails the freshest endpoint by more than maxBlockLag
+  rateLimitedUntil?: number;
+}
+
+export type WalletType = 'v4' | 'v5r1' | 'highload_v3';
+
+export type SignerType = 'memory' | 'keystore' | 'remote';
+
+export interface SignerConfig {
+  type: SignerType;
+  mnemonic?: string;         // memory: the key lives in the process; for development
+  keystorePath?: string;     // keystore: encrypted key file
+  passphrase?: string;       // keystore: decrypts the key file
+  url?: string;              // remote: signer base URL, e.g. http://127.0.0.1:7070
+  socketPath?: string;       // remote: Unix socket of the signer, instead of url
+  timeout?: number;          // remote: ms per request, defaults to 5000
 }
 
 export interface WalletConfig {
-  privateKey: string;
+  signer: SignerConfig;
   address: string;
-  publicKey?: string;
+  publicKey?: string;        // Hex; when set, the signer's key must match it
+  type?: WalletType;         // Defaults to 'v4'
+  subwalletId?: number;      // Wallet id; part of the address for v4, v5r1 and highload_v3
+  timeout?: number;          // Highload v3 query id memory in seconds; part of its address
+  maxInFlight?: number;      // Highload v3 transfers awaiting confirmation at once
 }
 
 export interface ContractConfig {
@@ -31,12 +74,41 @@ export interface TransactionRequest {
 }
 
 export interface TransactionResult {
-  hash: string;
+  hash: string;              // Normalized hash of the external message sent to the wallet
   success: boolean;
-  gasUsed: number;
+  gasUsed: number;           // Gas used by the destination contract, 0 until confirmed
   blockNumber?: number;
   timestamp: number;
   error?: string;
+  lt?: string;               // Wallet transaction logical time, once confirmed
+  txHash?: string;           // Wallet transaction hash, once confirmed
+  fees?: string;             // Total fees of the wallet and destination transactions, in nanotons
+  exitCode?: number;         // Destination compute phase exit code
+  actionResultCode?: number; // Destination action phase result code
+  replayKey?: number;        // Seqno, or query id for highload wallets, the message was signed with
+}
+
+export interface PriceUpdateMessage {
+  queryId: bigint;
+  pairId: number;            // crc32c of 'BASE/QUOTE'
+  base: string;
+  quote: string;
+  price: number;
+  decimals: number;          // Fixed-point scale of price on-chain
+  timestamp: number;         // Unix timestamp in milliseconds
+  confidence: number;        // Confidence score (0-100)
+  sourceCount: number;
+}
+
+export interface PriceBatchMessage {
+  queryId: bigint;
+  updates: PriceUpdateMessage[];
+}
+
+export interface BatchLimits {
+  maxEntries: number;        // Updates per message
+  maxCells: number;          // Cells per message body
+  maxBits: number;           // Total bits per message body
 }
 
 export interface BlockchainStatus {
@@ -45,12 +117,33 @@ export interface BlockchainStatus {
   networkId: string;
   gasPrice: number;
   balance: string;
+  outbound?: OutboundQueueStatus;
+  endpoints?: RpcEndpointStatus[];
+}
+
+/**
+ * 'unconfirmed' means the message may have reached the network and its
+ * seqno cannot be reused until the message lands or expires
+ */
+export type OutboundState = 'queued' | 'sending' | 'unconfirmed';
+
+export interface OutboundQueueStatus {
+  walletType: WalletType;
+  queued: number;            // Messages waiting for a transfer
+  inFlight: Array<{
+    hash?: string;           // Unset until the transfer is signed
+    replayKey?: number;      // Seqno or highload query id
+    state: OutboundState;
+    attempt: number;
+    messages: number;        // Requests carried by the transfer
+    validUntil?: number;     // Unix time after which the wallet rejects the message
+  }>;
 }
 
 export interface ContractState {
   balance: string;
-  lastTransaction: string;
-  isActive: boolean;
+  lastTransaction: { lt: string; hash: string } | null; // null until the account has a transaction
+  isActive: boolean;         // Deployed and not frozen
   data?: any;
 }
 
@@ -93,12 +186,27 @@ export enum TransactionStatus {
 }
 
 export interface TransactionMonitor {
-  hash: string;
+  hash: string;              // External message hash
   status: TransactionStatus;
   confirmations: number;
   submittedAt: number;
   confirmedAt?: number;
   maxWaitTime: number;
+  result?: TransactionResult; // Filled in once the wallet transaction is found
+  trace?: TransactionTrace[]; // Wallet transaction, then each destination transaction
+}
+
+export interface TransactionTrace {
+  address: string;
+  lt: string;
+  hash: string;
+  fees: string;              // Total fees in nanotons
+  computeSkipped?: string;   // Why the compute phase was skipped
+  exitCode?: number;         // Compute phase exit code
+  gasUsed?: number;
+  actionResultCode?: number; // Action phase result code, when the phase ran
+  aborted: boolean;
+  success: boolean;          // Compute and action phases succeeded
 }
 
 export interface BlockchainError extends Error {
@@ -81,6 +81,25 @@ export class NetworkError extends OracleError {
   }
 }
 
+/**
+ * No node gave a definite answer, so the request may or may not have
+ * taken effect
+ */
+export class OutcomeUnknownError extends NetworkError {
+  constructor(message: string, metadata?: any) {
+    super(message, metadata);
+    this.name = 'OutcomeUnknownError';
+    this.code = 'OUTCOME_UNKNOWN';
+  }
+}
+
+export class ConfigurationError extends OracleError {
+  constructor(message: string, metadata?: any) {
+    super(message, 'CONFIGURATION_ERROR', metadata);
+    this.name = 'ConfigurationError';
+  }
+}
+
 export class ContractError extends OracleError {
   constructor(message: string, metadata?: any) {
     super(message, 'CONTRACT_ERROR', metadata);
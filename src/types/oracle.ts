@@ -6,8 +6,18 @@ export interface OracleConfig {
   gasLimit: number;             // Gas limit for transactions
   retryAttempts: number;        // Failed transaction retries
   enabled: boolean;             // Oracle enable/disable flag
+  triggers?: TriggerSchedule[]; // Update schedules, an updateInterval loop when omitted
 }
 
+/**
+ * When update cycles run. keys limits a schedule to some items, e.g.
+ * trading pairs; it covers every item when omitted.
+ */
+export type TriggerSchedule =
+  | { kind: 'interval'; seconds: number; keys?: string[] }
+  | { kind: 'cron'; expression: string; timezone?: string; keys?: string[] }
+  | { kind: 'deviation'; cooldown: number; keys?: string[] }; // Live price moves, cooldown in seconds per item
+
 export interface OracleData<T = any> {
   value: T;
   timestamp: number;
@@ -22,12 +32,32 @@ export interface ValidationResult {
   warnings: string[];
 }
 
+export type UpdateTrigger = 'time' | 'threshold' | 'manual';
+
+export interface UpdateResult<T = any> {
+  key: string;                  // Item identifier, e.g. trading pair
+  status: 'pending' | 'submitted' | 'skipped' | 'failed';
+  data?: T;
+  txHash?: string;
+  error?: string;
+  reason?: string;              // Why a result was skipped
+  trigger?: UpdateTrigger;      // Why a result was submitted
+}
+
+export interface UpdateCycleReport<T = any> {
+  trigger: UpdateTrigger;
+  startedAt: number;
+  duration: number;
+  results: UpdateResult<T>[];
+}
+
 export interface OracleStatus {
   isActive: boolean;
   lastUpdate: number;
   totalUpdates: number;
   errorCount: number;
   sources: SourceStatus[];
+  lastCycle?: UpdateCycleReport;
 }
 
 export interface SourceStatus {
@@ -38,10 +68,38 @@ export interface SourceStatus {
   averageResponseTime: number;
   type?: string;
   rateLimit?: {
-    current: number;
-    limit: number;
-    resetTime: number;
+    current: number;            // Weight spent and not yet refilled
+    limit: number;              // Weight per minute
+    resetTime: number;          // When the full budget is available again
+    blockedUntil?: number;      // Backoff end after a 429/418 from the source
   };
+  stream?: StreamStatus;
+  health?: SourceHealthStatus;
+  quarantinedUntil?: number;    // Excluded from aggregation until then
+}
+
+export type SourceBreakerState = 'closed' | 'open' | 'half_open';
+
+export interface SourceHealthConfig {
+  failureThreshold: number;     // Consecutive failures that open the breaker
+  errorRateThreshold: number;   // Share of failed requests in the window that opens it (0-1)
+  windowSize: number;           // Recent requests considered for the error rate
+  openDuration: number;         // ms before a trial request is let through
+}
+
+export interface SourceHealthStatus {
+  state: SourceBreakerState;
+  consecutiveFailures: number;
+  errorRate: number;
+  averageResponseTime: number;
+  openedAt?: number;
+}
+
+export interface StreamStatus {
+  connected: boolean;
+  lastMessageAt: number;
+  reconnects: number;
+  subscriptions: number;
 }
 
 export abstract class OracleBase<T = any> {
@@ -1,4 +1,4 @@
-import { SourceStatus } from './oracle';
+import { SourceStatus, OracleStatus, UpdateTrigger, TriggerSchedule } from './oracle';
 
 export interface PriceData {
   base: string;              // Base currency (e.g., 'BTC')
@@ -10,6 +10,7 @@ export interface PriceData {
   change24h?: number;        // 24h price change percentage
   marketCap?: number;        // Market capitalization
   confidence?: number;       // Confidence score (0-100)
+  listedQuote?: string;      // Quote the venue actually priced in when it differs, e.g. USDT for USD
 }
 
 export interface AggregatedPriceData {
@@ -22,6 +23,29 @@ export interface AggregatedPriceData {
   standardDeviation: number; // Price variance across sources
   confidence: number;        // Aggregation confidence (0-100)
   outliers: PriceData[];     // Removed outlier data points
+  spotPrice?: number;        // Unsmoothed aggregate when smoothing is enabled
+  twap?: number;             // Time-weighted average over the smoothing window
+  ema?: number;              // Exponential moving average
+  derivedFrom?: string[];    // Legs of a cross rate
+  depegged?: string[];       // Critically depegged stablecoins the price depends on
+}
+
+export type AggregationMethod = 
+  | 'median' 
+  | 'average' 
+  | 'weighted' 
+  | 'trimmed_mean' 
+  | 'volume_weighted_median';
+
+export type OutlierDetectionMode = 
+  | 'zscore'                 // Mean/standard deviation z-score
+  | 'mad'                    // Median absolute deviation
+  | 'none';
+
+export interface SmoothingConfig {
+  mode: 'twap' | 'ema';      // Smoothed value to publish
+  window: number;            // Seconds; TWAP window or EMA time constant
+  publish: 'spot' | 'smoothed'; // Publish spot price or replace it with the smoothed one
 }
 
 export interface TradingPair {
@@ -32,31 +56,65 @@ export interface TradingPair {
   minPrice: number;          // Minimum valid price
   maxPrice: number;          // Maximum valid price
   decimalPlaces: number;     // Price precision
+  outlierDetection?: OutlierDetectionMode; // Defaults to 'zscore'
+  smoothing?: SmoothingConfig;
+  derivation?: CrossRateLeg[]; // Derive from other pairs' aggregates instead of fetching
+}
+
+/**
+ * One factor of a cross rate: another supported pair, or its reciprocal.
+ * TON/BTC is [{ pair: 'TON/USD' }, { pair: 'BTC/USD', invert: true }].
+ */
+export interface CrossRateLeg {
+  pair: string;              // 'BASE/QUOTE'
+  invert?: boolean;
 }
 
 export interface PriceOracleConfig {
   supportedPairs: TradingPair[];
   sources: PriceSourceConfig[];
-  aggregationMethod: 'median' | 'average' | 'weighted';
+  aggregationMethod: AggregationMethod;
   outlierThreshold: number;   // Standard deviations for outlier detection
+  trimRatio?: number;         // Share trimmed from each end for trimmed_mean
+  heartbeatInterval?: number; // Max seconds between updates regardless of deviation
+  circuitBreaker?: CircuitBreakerConfig;
+  quarantine?: QuarantineConfig;
+  adaptiveWeights?: AdaptiveWeightConfig; // Scale source weights by track record, for 'weighted'
+  quoteNormalization?: QuoteNormalizationConfig;
+  depeg?: DepegConfig;
   minSourcesRequired: number;
   maxPriceAge: number;       // Maximum age in seconds
   updateInterval: number;
   deviationThreshold: number;
+  triggers?: TriggerSchedule[]; // Defaults to an updateInterval loop plus stream deviation triggers
+  contractAddress: string;   // Oracle contract receiving price updates
 }
 
 export interface PriceSourceConfig {
-  name: string;
+  name: string;              // Unique source name
+  type: string;              // Registered source factory, e.g. 'binance'
   enabled: boolean;
   apiKey?: string;
   apiSecret?: string;
   weight: number;            // Weight for weighted average
-  rateLimit: number;         // Requests per minute
+  rateLimit: number;         // Request weight per minute
   timeout: number;           // Request timeout in ms
   endpoints: {
     baseUrl: string;
     priceEndpoint: string;
   };
+  options?: Record<string, any>; // Source-specific settings
+}
+
+export interface DexPoolConfig {
+  base: string;
+  quote: string;
+  address: string;           // Pool contract address
+  baseDecimals: number;      // Jetton decimals of the base asset
+  quoteDecimals: number;     // Jetton decimals of the quote asset
+  baseIsToken0: boolean;     // Whether the pool's first reserve holds the base asset
+  minLiquidity: number;      // Minimum quote-side reserve, in quote units
+  listedQuote?: string;      // Asset the pool actually holds when it differs from quote
 }
 
 export interface PriceSource {
@@ -66,7 +124,28 @@ export interface PriceSource {
   fetchPrice(base: string, quote: string): Promise<PriceData>;
   fetchMultiplePrices(pairs: TradingPair[]): Promise<PriceData[]>;
   getSupportedPairs(): Promise<TradingPair[]>;
+  supportsPair(base: string, quote: string): boolean;  // Whether the source has a mapping for the pair
   getStatus(): Promise<SourceStatus>;
+
+  // Streaming sources open their connections on start and push live prices
+  start?(): Promise<void>;
+  stop?(): Promise<void>;
+  onPrice?(listener: (price: PriceData) => void): void;
+}
+
+export interface StreamTick {
+  symbol: string;            // Venue symbol the tick was received for
+  price: number;
+  timestamp: number;         // Venue event time in ms
+  receivedAt: number;        // Local receive time in ms
+  volume?: number;
+}
+
+export interface PriceStreamConfig {
+  url: string;
+  staleAfter?: number;        // ms without messages before the connection is recycled
+  reconnectDelay?: number;    // Initial reconnect delay in ms, doubled per failed attempt
+  maxReconnectDelay?: number; // Upper bound for the reconnect delay in ms
 }
 
 export interface PriceValidationRules {
@@ -78,16 +157,113 @@ export interface PriceValidationRules {
   outlierDetection: boolean;
 }
 
+export interface CircuitBreakerConfig extends Pick<PriceValidationRules, 'maxPriceChange'> {
+  confirmationCycles: number;    // Consecutive cycles confirming a move before resuming
+  confirmationSpacing?: number;  // Seconds between cycles that count as confirmations, defaults to 0
+  minConfirmingSources?: number; // Agreeing sources that confirm a move immediately
+}
+
+export interface CircuitBreakerState {
+  state: 'closed' | 'tripped';
+  lastPublishedPrice?: number;
+  candidatePrice?: number;       // Price held back while tripped
+  change?: number;               // Percentage move that tripped the breaker
+  confirmations: number;
+  lastConfirmedAt?: number;      // When the latest confirmation was counted
+  trippedAt?: number;
+  tripCount: number;
+}
+
+export interface QuarantineConfig {
+  maxConsecutiveOutliers: number; // Rejections in a row for one pair before the source is quarantined
+  duration: number;               // Seconds the source is left out of fetching and aggregation
+}
+
+export interface QuoteNormalizationConfig {
+  ratePairs: string[];       // Supported pairs converting between quotes, e.g. 'USDT/USD'
+  maxRateAge: number;        // Seconds after which a rate is too stale to convert with
+}
+
+export interface QuoteAdjustment {
+  from: string;              // Quote the source priced in
+  to: string;                // Pair's canonical quote
+  ratePair: string;
+  rate: number;              // Multiplier applied to the source price
+  rateTimestamp: number;
+  originalPrice: number;
+}
+
+export interface DepegConfig {
+  assets: string[];          // Stablecoins to watch, each priced by its ASSET/USD pair
+  warningThreshold: number;  // % off the peg that raises a warning
+  criticalThreshold: number; // % off the peg that triggers the action on dependent pairs
+  action: 'reduce_confidence' | 'halt';
+  confidencePenalty?: number; // Confidence multiplier for 'reduce_confidence', defaults to 0.5
+}
+
+export type PegState = 'unknown' | 'normal' | 'warning' | 'critical';
+
+export interface PegStatus {
+  asset: string;
+  state: PegState;
+  price?: number;            // Aggregated USD price
+  deviation?: number;        // % off the peg of the aggregate
+  sourceDeviations: Record<string, number>; // Source -> % off the peg
+  since?: number;            // When the current state was entered
+  updatedAt?: number;
+}
+
+export interface AdaptiveWeightConfig {
+  window: number;            // Observations kept per source and pair
+  minObservations: number;   // Observations before a source's weight adapts
+  minWeight: number;         // Bounds for adapted weights
+  maxWeight: number;
+  deviationScale: number;    // % deviation from the aggregate that halves the accuracy score
+  latencyScale: number;      // Response time in ms that halves the latency score
+  stalenessScale: number;    // Data age in seconds that halves the freshness score
+}
+
+export interface SourceObservation {
+  timestamp: number;
+  deviation: number;         // % from the final aggregate
+  latency?: number;          // Fetch time in ms
+  staleness: number;         // Data age in seconds when aggregated
+}
+
+export interface SourceWeight {
+  baseWeight: number;        // Configured weight
+  weight: number;            // Weight used for aggregation
+  score: number;             // accuracy * latency * freshness, 0-1
+  accuracy: number;
+  latency: number;
+  freshness: number;
+  observations: SourceObservation[];
+}
+
+export interface PriceOracleStatus extends OracleStatus {
+  circuitBreakers: Record<string, CircuitBreakerState>;
+  published: Record<string, PublishedPrice>;
+  quarantinedSources: Record<string, number>;  // Source -> quarantine end in ms
+  sourceWeights: Record<string, Record<string, SourceWeight>>; // Pair -> source -> weight
+  pegs: Record<string, PegStatus>;
+}
+
 export interface PriceUpdate {
   pair: TradingPair;
   oldPrice: number;
   newPrice: number;
   change: number;            // Percentage change
   timestamp: number;
-  trigger: 'time' | 'threshold' | 'manual';
+  trigger: UpdateTrigger;
   transactionHash?: string;
 }
 
+export interface PublishedPrice {
+  data: AggregatedPriceData;
+  txHash: string;
+  publishedAt: number;
+}
+
 export interface PriceHistory {
   pair: TradingPair;
   prices: Array<{